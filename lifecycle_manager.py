@@ -137,7 +137,27 @@ class ResearchAssistantLifecycleManager(BaseLifecycleManager):
                     "title": "Research Assistant",
                     "description": "Paste article text to analyze relevance to your projects",
                     "config": {
-                        "libraryPath": "~/BrainDrive-Library"
+                        "libraryPath": "~/BrainDrive-Library",
+                        "maxRepairAttempts": 2,
+                        "rubricIntegrateThreshold": 3.8,
+                        "rubricSaveThreshold": 2.5,
+                        "rubricMinRelevance": 3,
+                        "queueConcurrency": 2,
+                        "feedRefreshMinutes": 60,
+                        "feedInitialItems": 10,
+                        "integrateRouteMode": "append",
+                        "integrateRoutePath": "research-findings.md",
+                        "integrateRouteHeading": "",
+                        "integrateRouteIndexPath": "research-findings.md",
+                        "saveRouteMode": "append",
+                        "saveRoutePath": "ideas.md",
+                        "saveRouteHeading": "",
+                        "saveRouteIndexPath": "research-findings.md",
+                        "skipRouteEnabled": False,
+                        "skipRouteMode": "append",
+                        "skipRoutePath": "triage-log.md",
+                        "skipRouteHeading": "",
+                        "skipRouteIndexPath": "research-findings.md"
                     }
                 },
                 "config_fields": {
@@ -150,12 +170,113 @@ class ResearchAssistantLifecycleManager(BaseLifecycleManager):
                         "type": "text",
                         "description": "Path to BrainDrive-Library",
                         "default": "~/BrainDrive-Library"
+                    },
+                    "max_repair_attempts": {
+                        "type": "number",
+                        "description": "How many times to ask the model to fix a malformed analysis response",
+                        "default": 2
+                    },
+                    "rubric_integrate_threshold": {
+                        "type": "number",
+                        "description": "Overall rubric score (1-5, effort counted inversely) at or above which an article is recommended for Integrate Now",
+                        "default": 3.8
+                    },
+                    "rubric_save_threshold": {
+                        "type": "number",
+                        "description": "Overall rubric score (1-5) at or above which an article is recommended for Save for Future; below it the article is skipped",
+                        "default": 2.5
+                    },
+                    "rubric_min_relevance": {
+                        "type": "number",
+                        "description": "Articles whose relevance score is below this are skipped regardless of their other scores",
+                        "default": 3
+                    },
+                    "queue_concurrency": {
+                        "type": "number",
+                        "description": "How many articles in the triage queue are analyzed at once (1-8)",
+                        "default": 2
+                    },
+                    "feed_refresh_minutes": {
+                        "type": "number",
+                        "description": "How often subscribed feeds are checked for new entries while the plugin is open, in minutes (0 = only when it opens)",
+                        "default": 60
+                    },
+                    "feed_initial_items": {
+                        "type": "number",
+                        "description": "How many of the latest entries of a newly added feed are analyzed; older entries are skipped",
+                        "default": 10
+                    },
+                    "integrate_route_mode": {
+                        "type": "text",
+                        "description": "How Integrate Now entries are written: append (to one file), new-file (one file per article) or note (one file per article with YAML frontmatter, linked from an index file)",
+                        "default": "append"
+                    },
+                    "integrate_route_path": {
+                        "type": "text",
+                        "description": "File for Integrate Now entries, relative to the project folder; may use {date}, {slug} and {project}",
+                        "default": "research-findings.md"
+                    },
+                    "integrate_route_heading": {
+                        "type": "text",
+                        "description": "Optional heading to file appended Integrate Now entries under (level 1 or 2), e.g. \"## Reading list\"",
+                        "default": ""
+                    },
+                    "integrate_route_index_path": {
+                        "type": "text",
+                        "description": "Note mode: file that gets a line linking to each Integrate Now note (empty for none)",
+                        "default": "research-findings.md"
+                    },
+                    "save_route_mode": {
+                        "type": "text",
+                        "description": "How Save for Future entries are written: append (to one file), new-file (one file per article) or note (one file per article with YAML frontmatter, linked from an index file)",
+                        "default": "append"
+                    },
+                    "save_route_path": {
+                        "type": "text",
+                        "description": "File for Save for Future entries, relative to the project folder; may use {date}, {slug} and {project}",
+                        "default": "ideas.md"
+                    },
+                    "save_route_heading": {
+                        "type": "text",
+                        "description": "Optional heading to file appended Save for Future entries under (level 1 or 2), e.g. \"## Reading list\"",
+                        "default": ""
+                    },
+                    "save_route_index_path": {
+                        "type": "text",
+                        "description": "Note mode: file that gets a line linking to each Save for Future note (empty for none)",
+                        "default": "research-findings.md"
+                    },
+                    "skip_route_enabled": {
+                        "type": "boolean",
+                        "description": "Write an entry when an article is logged as skipped",
+                        "default": False
+                    },
+                    "skip_route_mode": {
+                        "type": "text",
+                        "description": "How skipped entries are written: append (to one file), new-file (one file per article) or note (one file per article with YAML frontmatter, linked from an index file)",
+                        "default": "append"
+                    },
+                    "skip_route_path": {
+                        "type": "text",
+                        "description": "File for skipped entries, relative to the project folder; may use {date}, {slug} and {project}",
+                        "default": "triage-log.md"
+                    },
+                    "skip_route_heading": {
+                        "type": "text",
+                        "description": "Optional heading to file appended skipped entries under (level 1 or 2), e.g. \"## Reading list\"",
+                        "default": ""
+                    },
+                    "skip_route_index_path": {
+                        "type": "text",
+                        "description": "Note mode: file that gets a line linking to each skipped note (empty for none)",
+                        "default": "research-findings.md"
                     }
                 },
                 "messages": {},
                 "required_services": {
                     "api": {"methods": ["get", "post"], "version": "1.0.0"},
-                    "theme": {"methods": ["getCurrentTheme", "addThemeChangeListener", "removeThemeChangeListener"], "version": "1.0.0"}
+                    "theme": {"methods": ["getCurrentTheme", "addThemeChangeListener", "removeThemeChangeListener"], "version": "1.0.0"},
+                    "settings": {"methods": ["getSetting", "setSetting", "get", "set"], "version": "1.0.0"}
                 },
                 "dependencies": [],
                 "layout": {
@@ -1,20 +1,181 @@
 import React from 'react';
 import './ResearchAssistant.css';
-import { ResearchAssistantProps, ResearchAssistantState, ProjectContext, AnalysisResult, ModelInfo } from './types';
+import {
+  ResearchAssistantProps,
+  ResearchAssistantState,
+  ProjectContext,
+  AnalysisResult,
+  AnalysisProgress,
+  SectionAnalysis,
+  ModelInfo,
+  ArticleSource,
+  ArticleInput,
+  UrlArticleSource,
+  Project,
+  ProjectTriageResult,
+  TriageRecord,
+  SaveDraft,
+  SavedEntry,
+  PromptTemplate,
+  ProposedTask,
+  SpecProposal,
+  SpecHunk,
+  AnalysisConflict,
+  InsightQuote,
+  QuoteSpan,
+  OutputRoute,
+  OutputRoutes,
+  RouteAction,
+  ModelComparison,
+  ModelComparisonResult,
+  QueueItem,
+  FeedSubscription,
+  FeedItem,
+  Citation
+} from './types';
 import ErrorBoundary from './components/ErrorBoundary';
+import TriageHistoryPanel from './components/TriageHistoryPanel';
+import SavePreviewDialog from './components/SavePreviewDialog';
+import RecentSavesPanel from './components/RecentSavesPanel';
+import PromptTemplatesPanel from './components/PromptTemplatesPanel';
+import BuildPlanTasksDialog from './components/BuildPlanTasksDialog';
+import SpecDiffDialog from './components/SpecDiffDialog';
+import OutputRoutesPanel from './components/OutputRoutesPanel';
+import TriageQueuePanel from './components/TriageQueuePanel';
+import FeedInboxPanel from './components/FeedInboxPanel';
+import ReportExportDialog from './components/ReportExportDialog';
+import DigestPanel from './components/DigestPanel';
+import {
+  SettingsStore,
+  TriageHistoryService,
+  AnalysisCacheService,
+  LibraryService,
+  RecentSavesService,
+  PromptTemplateService,
+  OutputRouteService,
+  FeedService
+} from './services';
+import { generateId, hashArticle, hashString, formatRelativeTime, downloadFile } from './utils';
+import { extractPdfText, isPdfFile, getPageRange, formatPageRange } from './utils/pdfExtraction';
+import { extractReadableArticle, normalizeArticleUrl } from './utils/readability';
+import { splitArticle, ArticleChunk } from './utils/chunking';
+import { createStreamParser, readPartialJsonString } from './utils/streaming';
+import { parseAnalysisResponse, buildRepairPrompt, stripReasoning } from './utils/analysisValidation';
+import { ValidationError } from './utils/errorHandling';
+import { parseLibraryEntries, parseNoteEntry, findDuplicates, mergeIntoEntry, headingAnchor, DuplicateMatch } from './utils/duplicateDetection';
+import { createEntryId, formatEntryMarker, readEntryId, findEntryBlock, removeEntryBlock, removeMarkedLine } from './utils/entryIds';
+import { renderTemplate, usesProjectContext, DEFAULT_PROMPT_TEMPLATE, DEFAULT_TEMPLATE_ID } from './utils/promptTemplates';
+import { routesFromConfig, mergeRoutes, resolveRoutePath, entryHeadingLevel, insertUnderHeading, noteIndexPath } from './utils/outputRouting';
+import { formatFrontmatter, relativePath, encodeLinkPath } from './utils/noteFormat';
+import { parseBuildPlan, formatPlanOutline, parseTaskProposals, insertTasks, buildTaskRepairPrompt, BuildPlanSection } from './utils/buildPlan';
+import { parseSpecEdits, locateEdits, applyHunks, buildSpecRepairPrompt } from './utils/specDiff';
+import {
+  collectConflictReferences,
+  formatConflictReferences,
+  parseConflicts,
+  formatConflictList,
+  buildConflictRepairPrompt,
+  ConflictReference
+} from './utils/conflicts';
+import { groundInsightQuotes, isInsightSupported, locateQuote } from './utils/quoteGrounding';
+import { measureAgreement, buildConsensus, findSharedInsights } from './utils/modelComparison';
+import { RUBRIC_DIMENSIONS, applyRubric, rubricScore, rubricThresholdsFromConfig, formatRubric } from './utils/rubric';
+import { splitPastedArticles, parseUrlList, isTextFile, isQueueableFile } from './utils/batchInput';
+import { parseFeed, ParsedFeed } from './utils/feeds';
+import { Report } from './utils/reports';
+import {
+  collectEntriesSince,
+  collectNoteLinks,
+  noteDigestEntry,
+  digestPath,
+  parseDigestResponse,
+  buildDigestRepairPrompt,
+  formatDigest,
+  DigestEntry,
+  NoteLink
+} from './utils/digest';
+import { parseCitations, isCitationFile, formatCitation, citationUrl, citationKey, toBibtex } from './utils/citations';
+
+// Articles up to this length are analyzed in a single pass; longer ones are
+// split into sections and analyzed map-reduce style
+const SINGLE_PASS_LIMIT = 15000;
+const CHUNK_SIZE = 12000;
+// Verbatim article text given to the follow-up chat for long articles
+// (section summaries from the analysis cover the rest)
+const CHAT_ARTICLE_LIMIT = 10000;
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+// Batch queue analyses run at once, unless configured otherwise
+const DEFAULT_QUEUE_CONCURRENCY = 2;
+const MAX_QUEUE_CONCURRENCY = 8;
+// Feeds are refreshed this often while the plugin is open, unless configured otherwise
+const DEFAULT_FEED_REFRESH_MINUTES = 60;
+// Entries of a newly added feed that are analyzed; older ones are only marked as seen
+const DEFAULT_FEED_INITIAL_ITEMS = 10;
+// Feed entries with at least this much text are full-text and analyzed as they are
+const FULL_TEXT_FEED_CHARS = 2000;
+// Bump whenever the analysis prompts change so cached results are not reused
+const ANALYSIS_PROMPT_VERSION = 5;
+// Project files are truncated to these lengths when included in prompts
+const SPEC_PROMPT_LIMIT = 2000;
+const FINDINGS_PROMPT_LIMIT = 1000;
+// Saved finding included when proposing build-plan tasks from it
+const FINDING_PROMPT_LIMIT = 4000;
+// Saved entries included in a digest prompt: each one, and all of them together
+const DIGEST_ENTRY_LIMIT = 1500;
+const DIGEST_PROMPT_LIMIT = 24000;
+
+interface LlmMessage {
+  role: string;
+  content: string;
+}
+
+const RECOMMENDATION_RANK: Record<AnalysisResult['recommendation'], number> = {
+  integrate: 0,
+  save: 1,
+  skip: 2
+};
+
+// How long the last save can be undone from the success message
+const UNDO_WINDOW_MS = 30000;
 
 /**
  * Research Assistant Plugin
  *
  * Helps triage articles and resources against BrainDrive-Library project context.
- * MVP: Paste text, select project, analyze, get recommendations.
+ * MVP: Paste text (or upload a PDF / fetch a URL), select project, analyze, get recommendations.
  */
 class ResearchAssistant extends React.Component<ResearchAssistantProps, ResearchAssistantState> {
   private themeChangeListener: ((theme: string) => void) | null = null;
+  private fileInputRef = React.createRef<HTMLInputElement>();
+  private highlightRef = React.createRef<HTMLElement>();
+  private settingsStore: SettingsStore;
+  private historyService: TriageHistoryService;
+  private analysisCache: AnalysisCacheService;
+  private library: LibraryService;
+  private recentSavesService: RecentSavesService;
+  private templateService: PromptTemplateService;
+  private routeService: OutputRouteService;
+  private feedService: FeedService;
+  private undoTimer: ReturnType<typeof setTimeout> | null = null;
+  private successTimer: ReturnType<typeof setTimeout> | null = null;
+  private specRequestToken: string | null = null;
+  private digestRequestToken: string | null = null;
+  private queueRunToken: string | null = null;
+  private isAnalyzingFeeds = false;
+  private feedTimer: ReturnType<typeof setInterval> | null = null;
 
   constructor(props: ResearchAssistantProps) {
     super(props);
 
+    this.settingsStore = new SettingsStore(props.services.settings);
+    this.historyService = new TriageHistoryService(this.settingsStore);
+    this.analysisCache = new AnalysisCacheService(this.settingsStore);
+    this.library = new LibraryService(props.services.api);
+    this.recentSavesService = new RecentSavesService(this.settingsStore);
+    this.templateService = new PromptTemplateService(this.settingsStore);
+    this.routeService = new OutputRouteService(this.settingsStore);
+    this.feedService = new FeedService(this.settingsStore);
+
     this.state = {
       isLoading: false,
       error: '',
@@ -22,22 +183,74 @@ class ResearchAssistant extends React.Component<ResearchAssistantProps, Research
       isInitializing: false,
       // Article input
       articleText: '',
+      articleSource: null,
+      articleUrl: '',
+      isFetchingUrl: false,
+      isExtractingFile: false,
+      isDraggingFile: false,
+      highlightedInsight: null,
       // Project selection
       selectedProject: '',
       projects: [],
+      triageMode: 'single',
+      multiProjectSlugs: [],
+      multiProjectResults: [],
       // Model selection
       models: [],
       selectedModel: null,
       isLoadingModels: false,
+      compareModels: false,
+      compareModelKeys: [],
+      modelComparison: null,
+      // Batch triage queue
+      queue: [],
+      showQueue: false,
+      isQueueRunning: false,
+      queueConcurrency: Math.max(1, Math.min(MAX_QUEUE_CONCURRENCY, props.config?.queueConcurrency || DEFAULT_QUEUE_CONCURRENCY)),
+      queueCursor: 0,
+      // Feeds
+      feedSubscriptions: [],
+      feedItems: [],
+      showFeeds: false,
+      isRefreshingFeeds: false,
+      showReportExport: false,
       // Analysis results
       analysisResult: null,
+      analysisCachedAt: null,
+      analysisProgress: null,
+      streamingAnalysis: '',
+      repairAttempt: 0,
       // Chat
       chatMessages: [],
       chatInput: '',
       isChatLoading: false,
+      streamingChatReply: '',
       // Save status
       saveSuccess: '',
-      isSaving: false
+      isSaving: false,
+      // Triage history
+      triageHistory: [],
+      currentTriageId: null,
+      showHistory: false,
+      duplicateWarning: null,
+      saveDraft: null,
+      recentSaves: [],
+      undoEntryId: null,
+      showRecentSaves: false,
+      // Prompt templates
+      promptTemplates: [DEFAULT_PROMPT_TEMPLATE],
+      projectTemplateIds: {},
+      showTemplates: false,
+      // Output routing
+      projectRoutes: {},
+      showRoutes: false,
+      // Build-plan tasks
+      taskProposal: null,
+      specProposal: null,
+      // Weekly digest
+      showDigest: false,
+      digest: null,
+      isGeneratingDigest: false
     };
 
     // Will be set after fetching from /api/v1/auth/me
@@ -50,10 +263,19 @@ class ResearchAssistant extends React.Component<ResearchAssistantProps, Research
     await this.initializeServices();
     await this.loadProjects();
     await this.loadModels();
+    await this.loadHistory();
+    await this.loadRecentSaves();
+    await this.loadPromptTemplates();
+    await this.loadOutputRoutes();
+    await this.loadFeeds();
+    this.startFeedRefresh();
   }
 
   componentWillUnmount() {
     this.cleanupServices();
+    if (this.undoTimer) clearTimeout(this.undoTimer);
+    if (this.successTimer) clearTimeout(this.successTimer);
+    if (this.feedTimer) clearInterval(this.feedTimer);
   }
 
   private async initializeServices(): Promise<void> {
@@ -199,23 +421,414 @@ class ResearchAssistant extends React.Component<ResearchAssistantProps, Research
     }
   }
 
+  private async loadHistory(): Promise<void> {
+    const triageHistory = await this.historyService.load();
+    this.setState({ triageHistory });
+  }
+
+  private async loadRecentSaves(): Promise<void> {
+    const recentSaves = await this.recentSavesService.load();
+    this.setState({ recentSaves });
+  }
+
+  private async loadPromptTemplates(): Promise<void> {
+    const promptTemplates = await this.templateService.loadTemplates();
+    const projectTemplateIds = await this.templateService.loadProjectDefaults();
+    this.setState({ promptTemplates, projectTemplateIds });
+  }
+
+  private async loadOutputRoutes(): Promise<void> {
+    const projectRoutes = await this.routeService.load();
+    this.setState({ projectRoutes });
+  }
+
+  private async loadFeeds(): Promise<void> {
+    const { subscriptions, items } = await this.feedService.load();
+    this.setState({ feedSubscriptions: subscriptions, feedItems: items });
+  }
+
+  /**
+   * Where a project's entries go for each recommendation: its own rules over the config defaults
+   */
+  private getOutputRoutes(projectSlug: string): OutputRoutes {
+    return mergeRoutes(routesFromConfig(this.props.config), this.state.projectRoutes[projectSlug]);
+  }
+
+  private handleSaveProjectRoutes = async (projectSlug: string, routes: OutputRoutes) => {
+    try {
+      const projectRoutes = await this.routeService.setProjectRoutes(projectSlug, routes);
+      this.setState({ projectRoutes });
+    } catch (error: any) {
+      console.error('Failed to save output routes:', error);
+      this.setState({ error: `Failed to save output routes: ${error.message || 'Unknown error'}` });
+    }
+  };
+
+  private handleResetProjectRoutes = async (projectSlug: string) => {
+    try {
+      const projectRoutes = await this.routeService.resetProjectRoutes(projectSlug);
+      this.setState({ projectRoutes });
+    } catch (error: any) {
+      console.error('Failed to reset output routes:', error);
+      this.setState({ error: `Failed to reset output routes: ${error.message || 'Unknown error'}` });
+    }
+  };
+
+  /**
+   * The prompt template a project uses (the built-in default unless one was chosen)
+   */
+  private getPromptTemplate(projectSlug: string): PromptTemplate {
+    const { promptTemplates, projectTemplateIds } = this.state;
+    const id = projectTemplateIds[projectSlug];
+    return promptTemplates.find(t => t.id === id) || DEFAULT_PROMPT_TEMPLATE;
+  }
+
+  private handleSaveTemplate = async (template: PromptTemplate) => {
+    try {
+      const promptTemplates = await this.templateService.saveTemplate(template);
+      this.setState({ promptTemplates });
+    } catch (error: any) {
+      console.error('Failed to save template:', error);
+      this.setState({ error: `Failed to save template: ${error.message || 'Unknown error'}` });
+    }
+  };
+
+  private handleDeleteTemplate = async (id: string) => {
+    try {
+      const promptTemplates = await this.templateService.deleteTemplate(id);
+      const projectTemplateIds = await this.templateService.loadProjectDefaults();
+      this.setState({ promptTemplates, projectTemplateIds });
+    } catch (error: any) {
+      console.error('Failed to delete template:', error);
+      this.setState({ error: `Failed to delete template: ${error.message || 'Unknown error'}` });
+    }
+  };
+
+  private handleSetProjectTemplate = async (projectSlug: string, templateId: string) => {
+    try {
+      const projectTemplateIds = await this.templateService.setProjectDefault(projectSlug, templateId);
+      this.setState({ projectTemplateIds });
+    } catch (error: any) {
+      console.error('Failed to set project template:', error);
+      this.setState({ error: `Failed to set project template: ${error.message || 'Unknown error'}` });
+    }
+  };
+
+  /**
+   * Store a completed analysis in the triage history and return its record ID.
+   * Persisting happens in the background so it never delays the result.
+   */
+  private recordTriage(
+    result: AnalysisResult,
+    projectSlug: string,
+    modelName: string,
+    article: ArticleInput = this.getCurrentArticle()
+  ): string {
+    const record: TriageRecord = {
+      id: generateId(),
+      articleHash: hashArticle(article.text),
+      title: this.getArticleTitle(article),
+      articleText: article.text,
+      articleSource: article.source,
+      projectSlug,
+      model: modelName,
+      result,
+      action: 'pending',
+      chatMessages: [],
+      timestamp: new Date().toISOString()
+    };
+
+    this.historyService.add(record).then(triageHistory => this.setState({ triageHistory }));
+    return record.id;
+  }
+
+  private updateTriageRecord(id: string | null | undefined, changes: Partial<TriageRecord>): void {
+    if (!id) return;
+    this.historyService.update(id, changes).then(triageHistory => this.setState({ triageHistory }));
+  }
+
+  /**
+   * Reopen a past analysis (article, project, result and chat) from the history panel
+   */
+  private handleOpenHistoryRecord = (record: TriageRecord) => {
+    this.setState({
+      articleText: record.articleText,
+      articleSource: record.articleSource,
+      articleUrl: record.articleSource?.type === 'url' ? record.articleSource.canonicalUrl : '',
+      selectedProject: record.projectSlug,
+      triageMode: 'single',
+      analysisResult: record.result,
+      analysisCachedAt: null,
+      highlightedInsight: null,
+      multiProjectResults: [],
+      chatMessages: record.chatMessages,
+      currentTriageId: record.id,
+      showHistory: false,
+      error: ''
+    });
+
+    if (record.articleTruncated) {
+      this.restoreFullArticle(record.articleText, record.articleSource?.type === 'url' ? record.articleSource.url : undefined, 'the history');
+    }
+  };
+
+  /**
+   * The history and the feed inbox keep only the start of each article: fetch
+   * a reopened web article again, or say that the rest has to be loaded again
+   */
+  private async restoreFullArticle(excerpt: string, url: string | undefined, keptIn: string): Promise<void> {
+    // Another article may have been opened, or the text edited, in the meantime
+    const isCurrent = () => this.state.articleText === excerpt;
+
+    if (!url) {
+      this.setState({ error: `Only the start of this article was kept in ${keptIn}. Paste or upload it again to chat about or save the full text.` });
+      return;
+    }
+
+    this.setState({ isFetchingUrl: true });
+    try {
+      const { text } = await this.fetchArticle(url);
+      if (isCurrent()) this.setState({ articleText: text });
+    } catch (error: any) {
+      console.error('Article fetch failed:', error);
+      if (isCurrent()) {
+        this.setState({ error: `Only the start of this article was kept in ${keptIn}, and ${url} could not be fetched again: ${error.message || 'Unknown error'}` });
+      }
+    } finally {
+      this.setState({ isFetchingUrl: false });
+    }
+  }
+
+  private handleDownloadReport = (report: Report) => {
+    downloadFile(report.filename, report.content, report.mimeType);
+  };
+
+  /**
+   * Write a report into the project's reports/ folder
+   */
+  private handleSaveReport = async (report: Report, projectSlug: string) => {
+    this.setState({ isSaving: true, error: '' });
+
+    try {
+      // An earlier report with the same filter and period is kept
+      const path = await this.findAvailablePath(projectSlug, `reports/${report.filename}`);
+      await this.library.writeFile(projectSlug, path, report.content);
+      this.setState({ isSaving: false, showReportExport: false });
+      this.showSaveSuccess(`Report saved to ${path}`);
+    } catch (error: any) {
+      console.error('Report save failed:', error);
+      this.setState({ isSaving: false, error: `Could not save the report: ${error.message || 'Unknown error'}` });
+    }
+  };
+
+  private handleDeleteHistoryRecord = async (id: string) => {
+    const triageHistory = await this.historyService.remove(id);
+    this.setState(prev => ({
+      triageHistory,
+      currentTriageId: prev.currentTriageId === id ? null : prev.currentTriageId
+    }));
+  };
+
+  /**
+   * Key identifying a model across providers and servers: provider_serverId_name
+   */
+  private getModelKey(model: ModelInfo): string {
+    return `${model.provider}_${model.serverId}_${model.name}`;
+  }
+
   private handleModelChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const value = e.target.value;
     const { models } = this.state;
 
     // Find the model by composite key: provider_serverId_name
-    const selected = models.find(m => `${m.provider}_${m.serverId}_${m.name}` === value);
+    const selected = models.find(m => this.getModelKey(m) === value);
     this.setState({ selectedModel: selected || null });
   };
 
+  /**
+   * Show where an insight's quotes are in the article (clicking the highlighted
+   * insight again returns to the editor). Quotes are located again in the
+   * current text, which may have been edited since the analysis.
+   */
+  private handleHighlightInsight = (index: number) => {
+    const { analysisResult, articleText, highlightedInsight } = this.state;
+    if (!analysisResult || highlightedInsight?.index === index) {
+      this.setState({ highlightedInsight: null });
+      return;
+    }
+
+    const spans = (analysisResult.insightQuotes?.[index] || [])
+      .map(quote => locateQuote(articleText, quote.text))
+      .filter((span): span is QuoteSpan => span !== null)
+      .sort((a, b) => a.start - b.start);
+    if (spans.length === 0) return;
+
+    this.setState(
+      { highlightedInsight: { index, spans } },
+      () => this.highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    );
+  };
+
   private handleArticleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    this.setState({ articleText: e.target.value });
+    const articleText = e.target.value;
+    // Clearing the text also forgets where it came from
+    this.setState({
+      articleText,
+      articleSource: articleText.trim() ? this.state.articleSource : null
+    });
+  };
+
+  /**
+   * Extract text from an uploaded/dropped PDF into the article input
+   */
+  private async loadArticleFile(file: File): Promise<void> {
+    if (!isPdfFile(file)) {
+      this.setState({ error: `Unsupported file type: ${file.name}. Please upload a PDF.` });
+      return;
+    }
+
+    this.setState({ isExtractingFile: true, error: '' });
+
+    try {
+      const { text, source } = await extractPdfText(file);
+
+      if (!text.trim()) {
+        throw new Error('No text layer found (scanned PDFs are not supported)');
+      }
+
+      this.setState({
+        articleText: text,
+        articleSource: source,
+        analysisResult: null,
+        highlightedInsight: null,
+        chatMessages: [],
+        isExtractingFile: false
+      });
+    } catch (error: any) {
+      console.error('PDF extraction failed:', error);
+      this.setState({
+        isExtractingFile: false,
+        error: `Could not read ${file.name}: ${error.message || 'Unknown error'}`
+      });
+    }
+  }
+
+  /**
+   * Fetch a URL through the Library backend and extract the readable article
+   */
+  private handleFetchUrl = async () => {
+    const { services } = this.props;
+    const url = normalizeArticleUrl(this.state.articleUrl);
+
+    if (!url) {
+      this.setState({ error: 'Please enter a valid http(s) URL' });
+      return;
+    }
+
+    if (!services.api) {
+      this.setState({ error: 'API service not available' });
+      return;
+    }
+
+    this.setState({ isFetchingUrl: true, error: '' });
+
+    try {
+      const { text, source } = await this.fetchArticle(url);
+
+      this.setState({
+        articleText: text,
+        articleSource: source,
+        articleUrl: source.canonicalUrl,
+        analysisResult: null,
+        highlightedInsight: null,
+        chatMessages: [],
+        isFetchingUrl: false
+      });
+    } catch (error: any) {
+      console.error('URL fetch failed:', error);
+      this.setState({
+        isFetchingUrl: false,
+        error: `Could not fetch ${url}: ${error.message || 'Unknown error'}`
+      });
+    }
+  };
+
+  /**
+   * Fetch a page through the Library backend and reduce it to its readable article
+   */
+  private async fetchArticle(url: string): Promise<{ text: string; source: UrlArticleSource }> {
+    const { body, finalUrl } = await this.library.fetchUrl(url);
+
+    // Resolve relative links against the final URL after redirects
+    const article = extractReadableArticle(body, finalUrl);
+
+    if (!article.text.trim()) {
+      throw new Error('No readable article content found on the page');
+    }
+    return article;
+  }
+
+  private handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so selecting the same file again still fires onChange
+    e.target.value = '';
+    if (file) {
+      this.loadArticleFile(file);
+    }
+  };
+
+  private handleFileDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    if (!this.state.isDraggingFile) {
+      this.setState({ isDraggingFile: true });
+    }
+  };
+
+  private handleFileDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Ignore leave events fired when moving over child elements
+    if (e.currentTarget.contains(e.relatedTarget as Node)) return;
+    this.setState({ isDraggingFile: false });
+  };
+
+  private handleFileDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    this.setState({ isDraggingFile: false });
+    const file = e.dataTransfer.files?.[0];
+    if (file) {
+      this.loadArticleFile(file);
+    }
   };
 
   private handleProjectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     this.setState({ selectedProject: e.target.value });
   };
 
+  /**
+   * Projects that can be triaged against (excludes placeholder entries)
+   */
+  private getTriageableProjects(): Project[] {
+    return this.state.projects.filter(p => p.slug && p.slug !== 'no-api');
+  }
+
+  private handleCompareModelToggle = (key: string) => {
+    const { compareModelKeys } = this.state;
+    this.setState({
+      compareModelKeys: compareModelKeys.includes(key)
+        ? compareModelKeys.filter(k => k !== key)
+        : [...compareModelKeys, key]
+    });
+  };
+
+  private handleMultiProjectToggle = (slug: string) => {
+    const { multiProjectSlugs } = this.state;
+    this.setState({
+      multiProjectSlugs: multiProjectSlugs.includes(slug)
+        ? multiProjectSlugs.filter(s => s !== slug)
+        : [...multiProjectSlugs, slug]
+    });
+  };
+
   /**
    * Fetch project context from the Library API
    */
@@ -225,7 +838,7 @@ class ResearchAssistant extends React.Component<ResearchAssistantProps, Research
 
     try {
       const response = await services.api.get(
-        `/api/v1/plugin-api/braindrive-library/library/project/${projectSlug}/context?files=AGENT.md,spec.md,build-plan.md,research-findings.md`
+        `/api/v1/plugin-api/braindrive-library/library/project/${projectSlug}/context?files=AGENT.md,spec.md,build-plan.md,research-findings.md,decisions.md`
       );
 
       // Map backend {files: {"AGENT.md": {content}}} to flat ProjectContext
@@ -236,6 +849,7 @@ class ResearchAssistant extends React.Component<ResearchAssistantProps, Research
         spec_md: files["spec.md"]?.content || null,
         build_plan_md: files["build-plan.md"]?.content || null,
         research_findings_md: files["research-findings.md"]?.content || null,
+        decisions_md: files["decisions.md"]?.content || null,
       } as ProjectContext;
     } catch (error) {
       console.error('Failed to load project context:', error);
@@ -244,48 +858,105 @@ class ResearchAssistant extends React.Component<ResearchAssistantProps, Research
   }
 
   /**
-   * Build the analysis prompt for the LLM
+   * Describe where the article came from (title, author, date, link) for prompts
    */
-  private buildAnalysisPrompt(articleText: string, projectContext: ProjectContext | null): string {
-    let contextSection = '';
+  private formatSourceMetadata(source: ArticleSource | null): string {
+    if (!source) return '';
+
+    const lines: string[] = [];
+    if (source.title) lines.push(`**Title:** ${source.title}`);
+    if (source.type === 'url') {
+      if (source.author) lines.push(`**Author:** ${source.author}`);
+      if (source.publishedDate) lines.push(`**Published:** ${source.publishedDate}`);
+      if (source.siteName) lines.push(`**Site:** ${source.siteName}`);
+      lines.push(`**URL:** ${source.canonicalUrl}`);
+    } else if (source.type === 'citation') {
+      const { citation } = source;
+      if (citation.authors.length > 0) lines.push(`**Authors:** ${citation.authors.join('; ')}`);
+      if (citation.year) lines.push(`**Year:** ${citation.year}`);
+      if (citation.venue) lines.push(`**Venue:** ${citation.venue}`);
+      if (citation.doi) lines.push(`**DOI:** ${citation.doi}`);
+      // The model should know when it only has the abstract
+      lines.push(`**Text:** ${source.url ? `fetched from ${source.url}` : 'abstract only'}`);
+    } else {
+      lines.push(`**File:** ${source.filename} (${source.pageCount} pages)`);
+    }
+
+    return `## Article Metadata\n\n${lines.join('\n')}\n`;
+  }
 
-    if (projectContext) {
-      contextSection = `
+  /**
+   * Values for the {{variables}} in prompt templates (the article itself is added by the caller)
+   */
+  private buildTemplateVariables(projectContext: ProjectContext | null, articleSource: ArticleSource | null): Record<string, string> {
+    const agent = projectContext?.agent_md || 'No AGENT.md found';
+    const spec = projectContext?.spec_md ? projectContext.spec_md.substring(0, SPEC_PROMPT_LIMIT) + '...' : 'No spec.md found';
+    const findings = projectContext?.research_findings_md
+      ? projectContext.research_findings_md.substring(0, FINDINGS_PROMPT_LIMIT) + '...'
+      : 'No existing research findings';
+
+    const context = projectContext ? `
 ## Project Context
 
 **Project:** ${projectContext.project_slug}
 
 ### Project Overview (from AGENT.md):
-${projectContext.agent_md || 'No AGENT.md found'}
+${agent}
 
 ### Project Specification (from spec.md):
-${projectContext.spec_md ? projectContext.spec_md.substring(0, 2000) + '...' : 'No spec.md found'}
+${spec}
 
 ### Existing Research (from research-findings.md):
-${projectContext.research_findings_md ? projectContext.research_findings_md.substring(0, 1000) + '...' : 'No existing research findings'}
-`;
-    }
-
-    return `You are a research assistant helping to triage articles and resources for relevance to a project.
-
-${contextSection}
-
-## Article to Analyze
+${findings}
+` : '';
+
+    return {
+      project: projectContext?.project_slug || '',
+      agent,
+      spec,
+      findings,
+      context,
+      source: this.formatSourceMetadata(articleSource)
+    };
+  }
 
-${articleText.substring(0, 15000)}
+  /**
+   * Build the project context section shared by the analysis prompts
+   */
+  private buildContextSection(projectContext: ProjectContext | null): string {
+    return this.buildTemplateVariables(projectContext, null).context;
+  }
 
-## Your Task
+  /**
+   * Build the analysis prompt for the LLM from the project's template, followed
+   * by the fixed response format the reply is validated against
+   */
+  private buildAnalysisPrompt(
+    articleText: string,
+    projectContext: ProjectContext | null,
+    articleSource: ArticleSource | null,
+    template: PromptTemplate
+  ): string {
+    const instructions = renderTemplate(template.analysisPrompt, {
+      ...this.buildTemplateVariables(projectContext, articleSource),
+      article: articleText
+    });
 
-Analyze this article and determine its relevance to the project (if provided) or general usefulness.
+    return `${instructions}
 
 Respond in the following JSON format ONLY (no other text):
 {
   "recommendation": "integrate" | "save" | "skip",
   "confidence": 0.0-1.0,
-  "insights": ["insight 1", "insight 2", "insight 3"],
-  "explanation": "2-3 sentence explanation of your recommendation"
+  "insights": [{"text": "insight 1", "quotes": ["passage copied from the article"]}, {"text": "insight 2", "quotes": ["..."]}],
+  "explanation": "2-3 sentence explanation of your recommendation",
+${this.buildRubricFormat()}
 }
 
+Give 3-5 insights. Support each insight with 1-2 short quotes (one or two sentences) copied word for word from the article.
+
+${this.buildRubricInstructions()}
+
 **Recommendation meanings:**
 - "integrate": Highly relevant, should be integrated into the project now
 - "save": Potentially useful, save for future reference
@@ -295,256 +966,2533 @@ Be concise but specific in your insights.`;
   }
 
   /**
-   * Parse LLM response into AnalysisResult
+   * Build the map-step prompt for one section of a long article. The project's
+   * template is used with {{article}} set to the section.
    */
-  private parseAnalysisResponse(content: string): AnalysisResult | null {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        console.error('No JSON found in LLM response');
-        return null;
-      }
+  private buildChunkAnalysisPrompt(
+    chunk: ArticleChunk,
+    totalChunks: number,
+    projectContext: ProjectContext | null,
+    articleSource: ArticleSource | null,
+    template: PromptTemplate
+  ): string {
+    const instructions = renderTemplate(template.analysisPrompt, {
+      ...this.buildTemplateVariables(projectContext, articleSource),
+      article: `[Section ${chunk.index + 1} of ${totalChunks}: ${chunk.title}]\n\n${chunk.text}`
+    });
 
-      const parsed = JSON.parse(jsonMatch[0]);
+    return `${instructions}
 
-      // Validate required fields
-      if (!parsed.recommendation || !parsed.insights || !parsed.explanation) {
-        console.error('Missing required fields in LLM response');
-        return null;
-      }
+## Section Instructions
 
-      // Normalize recommendation
-      const validRecs = ['integrate', 'save', 'skip'];
-      const rec = parsed.recommendation.toLowerCase();
+The article is long and has been split into ${totalChunks} sections; only section ${chunk.index + 1} ("${chunk.title}") is shown above. Analyze ONLY this section and determine how relevant its content is to the project (if provided) or how generally useful it is.
 
-      return {
-        recommendation: validRecs.includes(rec) ? rec as 'integrate' | 'save' | 'skip' : 'save',
-        confidence: Math.min(1, Math.max(0, parsed.confidence || 0.5)),
-        insights: Array.isArray(parsed.insights) ? parsed.insights.slice(0, 5) : [parsed.insights],
-        explanation: String(parsed.explanation)
-      };
-    } catch (error) {
-      console.error('Failed to parse LLM response:', error);
-      return null;
-    }
+Respond in the following JSON format ONLY (no other text):
+{
+  "recommendation": "integrate" | "save" | "skip",
+  "confidence": 0.0-1.0,
+  "insights": [{"text": "insight 1", "quotes": ["passage copied from the section"]}],
+  "explanation": "1-2 sentence summary of what this section contributes"
+}
+
+Support each insight with 1-2 short quotes copied word for word from the section. Return an empty insights array if the section has nothing relevant (e.g. references or acknowledgements).`;
   }
 
-  private handleAnalyze = async () => {
-    const { articleText, selectedProject } = this.state;
-    const { services, config } = this.props;
+  /**
+   * Build the reduce-step prompt that merges per-section results into one analysis
+   */
+  private buildReducePrompt(sections: SectionAnalysis[], projectContext: ProjectContext | null, articleSource: ArticleSource | null): string {
+    const sectionSummaries = sections.map((section, i) => `### Section ${i + 1}: ${section.title}
+**Recommendation:** ${section.recommendation} (${Math.round(section.confidence * 100)}% confidence)
+**Insights:**
+${section.insights.length > 0 ? section.insights.map((insight, j) => `- ${insight}${this.formatQuotesForPrompt(section.insightQuotes?.[j])}`).join('\n') : '- (none)'}
+**Summary:** ${section.explanation}`).join('\n\n');
 
-    if (!articleText.trim()) {
-      this.setState({ error: 'Please paste article text to analyze' });
-      return;
-    }
+    return `You are a research assistant helping to triage a long article for relevance to a project. Each section of the article has already been analyzed separately; merge those results into one overall assessment.
 
-    if (!services.api) {
-      this.setState({ error: 'API service not available' });
-      return;
-    }
+${this.buildContextSection(projectContext)}
 
-    this.setState({ isLoading: true, error: '', analysisResult: null });
+${this.formatSourceMetadata(articleSource)}
+## Section Analyses
 
-    try {
-      // 1. Get project context if a project is selected
-      let projectContext: ProjectContext | null = null;
-      if (selectedProject) {
-        projectContext = await this.getProjectContext(selectedProject);
-      }
+${sectionSummaries}
 
-      // 2. Build the analysis prompt
-      const prompt = this.buildAnalysisPrompt(articleText, projectContext);
+## Your Task
 
-      // 3. Get AI provider settings from selected model
-      const { selectedModel } = this.state;
+Combine the section analyses into a single recommendation for the whole article. Merge duplicate insights and keep the 3-5 most important ones. For each insight, list the numbers of the sections it came from and keep 1-2 of the quotes given for it, copied exactly.
 
-      if (!selectedModel) {
-        throw new Error('No AI model selected. Please select a model from the dropdown.');
-      }
+Respond in the following JSON format ONLY (no other text):
+{
+  "recommendation": "integrate" | "save" | "skip",
+  "confidence": 0.0-1.0,
+  "insights": [{"text": "insight 1", "sections": [1, 3], "quotes": ["quote from a section insight"]}, {"text": "insight 2", "sections": [2], "quotes": ["..."]}],
+  "explanation": "2-3 sentence explanation of your recommendation for the whole article",
+${this.buildRubricFormat()}
+}
 
-      // 4. Call the LLM API
-      const response = await services.api.post('/api/v1/ai/providers/chat', {
-        provider: selectedModel.provider,
-        settings_id: selectedModel.providerId,
-        server_id: selectedModel.serverId,
-        model: selectedModel.name,
-        messages: [
-          { role: 'user', content: prompt }
-        ],
-        user_id: this.currentUserId || 'current',
-        stream: false,
-        params: {
-          temperature: 0.3,
-          max_tokens: 2000
-        }
-      });
+${this.buildRubricInstructions()}
 
-      // 5. Extract and parse the response
-      const content = response?.choices?.[0]?.message?.content || response?.data?.choices?.[0]?.message?.content;
+**Recommendation meanings:**
+- "integrate": Highly relevant, should be integrated into the project now
+- "save": Potentially useful, save for future reference
+- "skip": Not relevant to this project`;
+  }
 
-      if (!content) {
-        throw new Error('No response content from LLM');
-      }
+  /**
+   * The rubric part of the JSON response format
+   */
+  private buildRubricFormat(): string {
+    const lines = RUBRIC_DIMENSIONS.map(({ key }) => `    "${key}": {"score": 1-5, "justification": "one line"}`);
+    return `  "rubric": {\n${lines.join(',\n')}\n  }`;
+  }
+
+  private buildRubricInstructions(): string {
+    return `Score the article from 1 (low) to 5 (high) on each rubric dimension, with a one-line justification:
+${RUBRIC_DIMENSIONS.map(({ key, prompt }) => `- "${key}": ${prompt}`).join('\n')}`;
+  }
+
+  /**
+   * A section insight's quotes as listed in the reduce prompt
+   */
+  private formatQuotesForPrompt(quotes: InsightQuote[] | undefined): string {
+    return quotes && quotes.length > 0 ? ` (quotes: ${quotes.map(quote => JSON.stringify(quote.text)).join('; ')})` : '';
+  }
+
+  /**
+   * Send messages to a model through the BrainDrive AI provider API and return the reply text.
+   * When onText is given and the host supports postStreaming, the reply is streamed and
+   * onText receives the accumulated text as it grows; otherwise a regular request is made.
+   */
+  private async callLlm(
+    model: ModelInfo,
+    messages: LlmMessage[],
+    params: { temperature: number; max_tokens: number },
+    onText?: (textSoFar: string) => void
+  ): Promise<string> {
+    const { services } = this.props;
+
+    if (!services.api) {
+      throw new Error('API service not available');
+    }
+
+    const request = {
+      provider: model.provider,
+      settings_id: model.providerId,
+      server_id: model.serverId,
+      model: model.name,
+      messages,
+      user_id: this.currentUserId || 'current',
+      stream: false,
+      params
+    };
+
+    if (onText && services.api.postStreaming) {
+      const parseChunk = createStreamParser();
+      let text = '';
+
+      const response = await services.api.postStreaming(
+        '/api/v1/ai/providers/chat',
+        { ...request, stream: true },
+        (chunk: string) => {
+          const delta = parseChunk(chunk);
+          if (delta) {
+            text += delta;
+            onText(text);
+          }
+        }
+      );
+
+      // Some hosts deliver the whole reply in the final response instead of chunks
+      return text || response?.choices?.[0]?.message?.content || response?.data?.choices?.[0]?.message?.content || '';
+    }
+
+    const response = await services.api.post('/api/v1/ai/providers/chat', request);
+
+    return response?.choices?.[0]?.message?.content || response?.data?.choices?.[0]?.message?.content || '';
+  }
+
+  /**
+   * Run one analysis prompt and validate the JSON reply. Invalid replies are sent
+   * back to the model with the validation errors, up to config.maxRepairAttempts times.
+   */
+  private async requestAnalysis(
+    model: ModelInfo,
+    prompt: string,
+    sectionTitles: string[] = [],
+    onText?: (textSoFar: string) => void
+  ): Promise<AnalysisResult> {
+    const maxRepairAttempts = Math.max(0, this.props.config?.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS);
+    const messages: LlmMessage[] = [{ role: 'user', content: prompt }];
+
+    for (let attempt = 0; ; attempt++) {
+      const content = await this.callLlm(model, messages, {
+        temperature: 0.3,
+        max_tokens: 2000
+      }, onText);
+
+      if (!content) {
+        throw new Error('No response content from LLM');
+      }
+
+      const { result, errors } = parseAnalysisResponse(content, sectionTitles);
+
+      if (result) {
+        if (attempt > 0) this.setState({ repairAttempt: 0 });
+        return result;
+      }
+
+      console.warn(`Research Assistant: Invalid analysis response (attempt ${attempt + 1}):`, errors);
+
+      if (attempt >= maxRepairAttempts) {
+        this.setState({ repairAttempt: 0 });
+        throw new ValidationError(
+          `LLM response did not match the expected format after ${attempt + 1} attempt${attempt > 0 ? 's' : ''} (${errors.join('; ')})`,
+          'analysisResult',
+          errors,
+          'ANALYSIS_VALIDATION_FAILED'
+        );
+      }
+
+      this.setState({ repairAttempt: attempt + 1 });
+      messages.push(
+        // Reasoning blocks are dropped to keep the repair context small
+        { role: 'assistant', content: stripReasoning(content) || content },
+        { role: 'user', content: buildRepairPrompt(errors) }
+      );
+    }
+  }
+
+  /**
+   * Analyze an article against a project. Long articles are split into sections,
+   * each analyzed separately (map), then merged into a single result (reduce).
+   */
+  private async runAnalysis(
+    articleText: string,
+    articleSource: ArticleSource | null,
+    projectContext: ProjectContext | null,
+    model: ModelInfo,
+    template: PromptTemplate,
+    onProgress?: (progress: AnalysisProgress) => void,
+    onText?: (textSoFar: string) => void
+  ): Promise<AnalysisResult> {
+    const promptTemplate = { id: template.id, name: template.name, version: template.version };
+
+    if (articleText.length <= SINGLE_PASS_LIMIT) {
+      const result = groundInsightQuotes(
+        await this.requestAnalysis(model, this.buildAnalysisPrompt(articleText, projectContext, articleSource, template), [], onText),
+        articleText
+      );
+      onProgress?.({ stage: 'conflicts', completed: 1, total: 1 });
+      const conflicts = await this.detectConflicts(articleText, result, projectContext, model);
+      return { ...result, promptTemplate, ...this.conflictFields(conflicts) };
+    }
+
+    const chunks = splitArticle(articleText, CHUNK_SIZE);
+    const sections: SectionAnalysis[] = [];
+
+    for (const chunk of chunks) {
+      onProgress?.({ stage: 'map', completed: chunk.index, total: chunks.length, currentSection: chunk.title });
+      const result = await this.requestAnalysis(
+        model,
+        this.buildChunkAnalysisPrompt(chunk, chunks.length, projectContext, articleSource, template),
+        [],
+        onText
+      );
+      sections.push({
+        title: chunk.title,
+        recommendation: result.recommendation,
+        confidence: result.confidence,
+        insights: result.insights,
+        insightQuotes: result.insightQuotes,
+        explanation: result.explanation
+      });
+    }
+
+    onProgress?.({ stage: 'reduce', completed: chunks.length, total: chunks.length });
+    const merged = groundInsightQuotes(await this.requestAnalysis(
+      model,
+      this.buildReducePrompt(sections, projectContext, articleSource),
+      sections.map(section => section.title),
+      onText
+    ), articleText);
+
+    onProgress?.({ stage: 'conflicts', completed: chunks.length, total: chunks.length });
+    const conflicts = await this.detectConflicts(articleText, merged, projectContext, model);
+
+    return { ...merged, sections, promptTemplate, ...this.conflictFields(conflicts) };
+  }
+
+  private conflictFields(conflicts: AnalysisConflict[] | null | undefined): Pick<AnalysisResult, 'conflicts' | 'conflictCheckFailed'> {
+    return conflicts === null ? { conflictCheckFailed: true } : { conflicts };
+  }
+
+  /**
+   * Check the article against the project's decisions and saved findings.
+   * Undefined when there was nothing to check, null when the check failed; a
+   * failed check never costs the analysis itself.
+   */
+  private async detectConflicts(
+    articleText: string,
+    result: AnalysisResult,
+    projectContext: ProjectContext | null,
+    model: ModelInfo
+  ): Promise<AnalysisConflict[] | null | undefined> {
+    if (!projectContext) return undefined;
+
+    const references = collectConflictReferences([
+      { filename: 'decisions.md', markdown: projectContext.decisions_md || '', prefix: 'D' },
+      { filename: 'research-findings.md', markdown: projectContext.research_findings_md || '', prefix: 'F' }
+    ]);
+    if (references.length === 0) return undefined;
+
+    try {
+      const { conflicts } = await this.requestStructured(
+        model,
+        this.buildConflictPrompt(articleText, result, references),
+        content => parseConflicts(content, references),
+        buildConflictRepairPrompt,
+        'conflicts',
+        1500
+      );
+      return conflicts;
+    } catch (error) {
+      console.warn('Research Assistant: Conflict check failed:', error);
+      return null;
+    }
+  }
+
+  private buildConflictPrompt(articleText: string, result: AnalysisResult, references: ConflictReference[]): string {
+    return `You are checking a new article against decisions a project team has already made and research they have already saved.
+
+## Recorded Decisions and Findings
+
+${formatConflictReferences(references)}
+
+## Article
+
+${articleText.substring(0, CHUNK_SIZE)}${articleText.length > CHUNK_SIZE ? '\n\n[... article continues ...]' : ''}
+
+## Key Insights From the Analysis
+
+${result.insights.map(insight => `- ${insight}`).join('\n')}
+
+## Your Task
+
+List every claim or recommendation in the article that contradicts one of the decisions or findings above - for example it recommends an approach the team decided against, or disputes a finding. Ignore claims that merely add detail or agree. For each conflict, cite the reference it conflicts with and suggest how to resolve it (revisit the decision, note the disagreement, or disregard the claim and why).
+
+Respond in the following JSON format ONLY (no other text):
+{
+  "conflicts": [
+    {
+      "claim": "The article's claim, in one sentence",
+      "ref": "Reference ID, e.g. D2",
+      "resolution": "Suggested resolution, in one sentence"
+    }
+  ]
+}
+
+Use an empty array if nothing conflicts.`;
+  }
+
+  /**
+   * Cache key for an analysis: normalized article, project, project context version
+   * (AGENT.md, spec.md, decisions.md and research-findings.md, so edits to any of
+   * them invalidate it; conflicts and the novelty score depend on the findings),
+   * model, prompt version and prompt template version
+   */
+  private buildAnalysisCacheKey(articleText: string, projectContext: ProjectContext | null, model: ModelInfo, template: PromptTemplate): string {
+    const contextVersion = projectContext
+      ? hashString([
+        projectContext.agent_md || '',
+        projectContext.spec_md || '',
+        projectContext.decisions_md || '',
+        projectContext.research_findings_md || ''
+      ].join('\u0000'))
+      : 'none';
+
+    return hashString([
+      hashArticle(articleText),
+      projectContext?.project_slug || '',
+      contextVersion,
+      `${model.provider}/${model.serverId}/${model.name}`,
+      ANALYSIS_PROMPT_VERSION,
+      `${template.id}@${template.version}`
+    ].join('|'));
+  }
+
+  /**
+   * Run an analysis, returning a cached result when the same article was already
+   * analyzed against the same project context with the same model. The
+   * recommendation is derived from the rubric with the current thresholds, so
+   * cached results follow threshold changes.
+   */
+  private async runAnalysisCached(
+    articleText: string,
+    articleSource: ArticleSource | null,
+    projectContext: ProjectContext | null,
+    model: ModelInfo,
+    template: PromptTemplate,
+    bypassCache: boolean,
+    onProgress?: (progress: AnalysisProgress) => void,
+    onText?: (textSoFar: string) => void
+  ): Promise<{ result: AnalysisResult; cachedAt: string | null }> {
+    const cacheKey = this.buildAnalysisCacheKey(articleText, projectContext, model, template);
+    const thresholds = rubricThresholdsFromConfig(this.props.config);
+
+    if (!bypassCache) {
+      const cached = await this.analysisCache.get(cacheKey);
+      if (cached) {
+        // Quote positions are relative to the exact text, which may differ in whitespace
+        return { result: applyRubric(groundInsightQuotes(cached.result, articleText), thresholds), cachedAt: cached.cachedAt };
+      }
+    }
+
+    const result = await this.runAnalysis(articleText, articleSource, projectContext, model, template, onProgress, onText);
+    // A failed conflict check is retried on the next run rather than cached
+    if (!result.conflictCheckFailed) {
+      this.analysisCache.set(cacheKey, result);
+    }
+    return { result: applyRubric(result, thresholds), cachedAt: null };
+  }
+
+  private handleAnalyze = () => this.analyzeArticle(false);
+
+  private handleRerunAnalysis = () => this.analyzeArticle(true);
+
+  private async analyzeArticle(bypassCache: boolean): Promise<void> {
+    const { articleText, articleSource, selectedProject, selectedModel } = this.state;
+    const { services } = this.props;
+
+    if (!articleText.trim()) {
+      this.setState({ error: 'Please paste article text to analyze' });
+      return;
+    }
+
+    if (!services.api) {
+      this.setState({ error: 'API service not available' });
+      return;
+    }
+
+    if (this.state.triageMode === 'multi') {
+      await this.runMultiProjectTriage(bypassCache);
+      return;
+    }
+
+    if (this.state.compareModels) {
+      await this.runModelComparison(bypassCache);
+      return;
+    }
+
+    this.setState({ isLoading: true, error: '', analysisResult: null, analysisCachedAt: null, analysisProgress: null, streamingAnalysis: '', highlightedInsight: null, modelComparison: null });
+
+    try {
+      if (!selectedModel) {
+        throw new Error('No AI model selected. Please select a model from the dropdown.');
+      }
+
+      // Get project context if a project is selected
+      let projectContext: ProjectContext | null = null;
+      if (selectedProject) {
+        projectContext = await this.getProjectContext(selectedProject);
+      }
+
+      const { result: analysisResult, cachedAt } = await this.runAnalysisCached(
+        articleText,
+        articleSource,
+        projectContext,
+        selectedModel,
+        this.getPromptTemplate(selectedProject),
+        bypassCache,
+        analysisProgress => this.setState({ analysisProgress, streamingAnalysis: '' }),
+        streamingAnalysis => this.setState({ streamingAnalysis })
+      );
+
+      this.setState({
+        isLoading: false,
+        analysisProgress: null,
+        streamingAnalysis: '',
+        analysisResult,
+        analysisCachedAt: cachedAt,
+        chatMessages: [],
+        currentTriageId: this.recordTriage(analysisResult, selectedProject, selectedModel.name)
+      });
+
+    } catch (error: any) {
+      console.error('Analysis failed:', error);
+      this.setState({
+        isLoading: false,
+        analysisProgress: null,
+        streamingAnalysis: '',
+        error: error instanceof ValidationError
+          ? `Analysis failed: ${error.message}`
+          : `Analysis failed: ${error.message || 'Unknown error'}. Check that your AI provider is configured in BrainDrive.`
+      });
+    }
+  }
+
+  /**
+   * Analyze the article against every selected project (all projects when none
+   * are selected), one project at a time, filling in the ranked results table
+   */
+  private async runMultiProjectTriage(bypassCache: boolean): Promise<void> {
+    const { articleText, articleSource, selectedModel, multiProjectSlugs } = this.state;
+
+    if (!selectedModel) {
+      this.setState({ error: 'No AI model selected. Please select a model from the dropdown.' });
+      return;
+    }
+
+    const available = this.getTriageableProjects();
+    const targets = multiProjectSlugs.length > 0
+      ? available.filter(p => multiProjectSlugs.includes(p.slug))
+      : available;
+
+    if (targets.length === 0) {
+      this.setState({ error: 'No projects available to triage against.' });
+      return;
+    }
+
+    this.setState({
+      isLoading: true,
+      error: '',
+      analysisResult: null,
+      analysisProgress: null,
+      modelComparison: null,
+      multiProjectResults: targets.map(p => ({
+        projectSlug: p.slug,
+        projectName: p.name,
+        status: 'pending',
+        saveAction: null
+      }))
+    });
+
+    const updateRow = (slug: string, update: Partial<ProjectTriageResult>) => {
+      this.setState(prev => ({
+        multiProjectResults: prev.multiProjectResults.map(r => r.projectSlug === slug ? { ...r, ...update } : r)
+      }));
+    };
+
+    for (const project of targets) {
+      updateRow(project.slug, { status: 'running' });
+      try {
+        const projectContext = await this.getProjectContext(project.slug);
+        const { result, cachedAt } = await this.runAnalysisCached(
+          articleText,
+          articleSource,
+          projectContext,
+          selectedModel,
+          this.getPromptTemplate(project.slug),
+          bypassCache
+        );
+        updateRow(project.slug, {
+          status: 'done',
+          result,
+          cached: cachedAt !== null,
+          triageId: this.recordTriage(result, project.slug, selectedModel.name),
+          // Pre-select saving for projects where the article is worth keeping
+          saveAction: result.recommendation === 'skip' ? null : result.recommendation
+        });
+      } catch (error: any) {
+        console.error(`Analysis failed for ${project.slug}:`, error);
+        updateRow(project.slug, { status: 'error', error: error.message || 'Unknown error' });
+      }
+    }
+
+    this.setState({ isLoading: false });
+  }
+
+  /**
+   * Analyze the article with every model ticked for comparison, all at once,
+   * filling in one column per model. The consensus is merged from the models
+   * that finished.
+   */
+  private async runModelComparison(bypassCache: boolean): Promise<void> {
+    const { articleText, articleSource, selectedProject, models, compareModelKeys } = this.state;
+    const targets = models.filter(m => compareModelKeys.includes(this.getModelKey(m)));
+
+    if (targets.length < 2) {
+      this.setState({ error: 'Select at least two models to compare.' });
+      return;
+    }
+
+    this.setState({
+      isLoading: true,
+      error: '',
+      analysisResult: null,
+      highlightedInsight: null,
+      analysisProgress: null,
+      chatMessages: [],
+      currentTriageId: null,
+      modelComparison: {
+        projectSlug: selectedProject,
+        models: targets.map(m => ({ modelKey: this.getModelKey(m), modelName: m.name, status: 'running' })),
+        consensus: null
+      }
+    });
+
+    const updateModel = (key: string, update: Partial<ModelComparisonResult>) => {
+      this.setState(prev => prev.modelComparison ? {
+        modelComparison: {
+          ...prev.modelComparison,
+          models: prev.modelComparison.models.map(m => m.modelKey === key ? { ...m, ...update } : m)
+        }
+      } : null);
+    };
+
+    try {
+      const projectContext = selectedProject ? await this.getProjectContext(selectedProject) : null;
+      const template = this.getPromptTemplate(selectedProject);
+
+      await Promise.all(targets.map(async model => {
+        const key = this.getModelKey(model);
+        try {
+          const { result, cachedAt } = await this.runAnalysisCached(articleText, articleSource, projectContext, model, template, bypassCache);
+          updateModel(key, {
+            status: 'done',
+            result,
+            cached: cachedAt !== null,
+            triageId: this.recordTriage(result, selectedProject, model.name)
+          });
+        } catch (error: any) {
+          console.error(`Analysis failed for ${model.name}:`, error);
+          updateModel(key, { status: 'error', error: error.message || 'Unknown error' });
+        }
+      }));
+    } catch (error: any) {
+      console.error('Model comparison failed:', error);
+      this.setState({ error: `Analysis failed: ${error.message || 'Unknown error'}` });
+    }
+
+    this.setState(prev => {
+      const finished = prev.modelComparison ? prev.modelComparison.models.filter(m => m.result) : [];
+      return {
+        isLoading: false,
+        modelComparison: prev.modelComparison && {
+          ...prev.modelComparison,
+          consensus: finished.length >= 2
+            ? buildConsensus(finished.map(m => m.result as AnalysisResult), finished.map(m => m.modelName))
+            : null
+        }
+      };
+    });
+  }
+
+  /**
+   * Take one model's result (or the consensus) forward as the analysis to save
+   * and chat about
+   */
+  private handleUseComparisonResult = (choice: ModelComparisonResult | 'consensus') => {
+    const { modelComparison, models } = this.state;
+    if (!modelComparison) return;
+
+    if (choice === 'consensus') {
+      if (!modelComparison.consensus) return;
+      const names = modelComparison.models.filter(m => m.result).map(m => m.modelName).join(', ');
+      const consensusTriageId = modelComparison.consensusTriageId
+        || this.recordTriage(modelComparison.consensus, modelComparison.projectSlug, `Consensus (${names})`);
+      this.setState({
+        analysisResult: modelComparison.consensus,
+        analysisCachedAt: null,
+        highlightedInsight: null,
+        chatMessages: [],
+        currentTriageId: consensusTriageId,
+        modelComparison: { ...modelComparison, consensusTriageId }
+      });
+      return;
+    }
+
+    if (!choice.result) return;
+    this.setState({
+      analysisResult: choice.result,
+      analysisCachedAt: null,
+      highlightedInsight: null,
+      chatMessages: [],
+      currentTriageId: choice.triageId || null,
+      // Follow-up chat continues with the chosen model
+      selectedModel: models.find(m => this.getModelKey(m) === choice.modelKey) || this.state.selectedModel
+    });
+  };
+
+  private updateQueueItem(id: string, update: Partial<QueueItem>): void {
+    this.setState(prev => ({ queue: prev.queue.map(item => item.id === id ? { ...item, ...update } : item) }));
+  }
+
+  private addToQueue(items: QueueItem[]): void {
+    if (items.length === 0) return;
+    this.setState(prev => ({ queue: [...prev.queue, ...items], error: '' }));
+  }
+
+  private createQueueItem(article: ArticleInput | null, url?: string): QueueItem {
+    return {
+      id: generateId(),
+      title: article ? this.getArticleTitle(article) : url || '',
+      article,
+      url,
+      status: 'queued',
+      decision: null
+    };
+  }
+
+  private handleQueueAddText = (text: string, delimiter: string) => {
+    this.addToQueue(splitPastedArticles(text, delimiter).map(article => this.createQueueItem({ text: article, source: null })));
+  };
+
+  private handleQueueAddUrls = (text: string) => {
+    const { urls, invalid } = parseUrlList(text);
+    const queued = this.state.queue.map(item => item.url);
+    this.addToQueue(urls.filter(url => !queued.includes(url)).map(url => this.createQueueItem(null, url)));
+    if (invalid.length > 0) {
+      this.setState({ error: `Ignored ${invalid.length} line${invalid.length !== 1 ? 's' : ''} that aren't http(s) URLs: ${invalid.slice(0, 3).join(', ')}${invalid.length > 3 ? '...' : ''}` });
+    }
+  };
+
+  /**
+   * Queue dropped/selected files: PDFs are extracted, text files read as they
+   * are, and citation exports queue one item per entry
+   */
+  private handleQueueAddFiles = async (files: File[]) => {
+    const unsupported = files.filter(file => !isQueueableFile(file) && !isCitationFile(file)).map(file => file.name);
+    const failed: string[] = [];
+
+    for (const file of files.filter(isCitationFile)) {
+      try {
+        const { citations } = parseCitations(await file.text());
+        const skipped = this.queueCitations(citations);
+        if (citations.length === 0) {
+          throw new Error('no entries found');
+        }
+        if (skipped.length > 0) {
+          failed.push(`${skipped.length} entr${skipped.length !== 1 ? 'ies' : 'y'} of ${file.name} without an abstract, DOI or URL`);
+        }
+      } catch (error: any) {
+        console.error(`Could not import citations from ${file.name}:`, error);
+        failed.push(`${file.name} (${error.message || 'Unknown error'})`);
+      }
+    }
+
+    for (const file of files.filter(isQueueableFile)) {
+      try {
+        const article: ArticleInput = isTextFile(file)
+          ? { text: await file.text(), source: null }
+          : await extractPdfText(file);
+        if (!article.text.trim()) {
+          throw new Error('no text found');
+        }
+        this.addToQueue([this.createQueueItem(article)]);
+      } catch (error: any) {
+        console.error(`Could not queue ${file.name}:`, error);
+        failed.push(`${file.name} (${error.message || 'Unknown error'})`);
+      }
+    }
+
+    const problems = [
+      unsupported.length > 0 ? `Unsupported files skipped: ${unsupported.join(', ')}` : '',
+      failed.length > 0 ? `Could not read ${failed.join(', ')}` : ''
+    ].filter(Boolean);
+    if (problems.length > 0) {
+      this.setState({ error: problems.join('. ') });
+    }
+  };
+
+  /**
+   * Queue imported citations: the abstract is analyzed when there is one,
+   * else the page behind the DOI or URL is fetched. Returns the citations
+   * that have neither.
+   */
+  private queueCitations(citations: Citation[]): Citation[] {
+    const skipped: Citation[] = [];
+    const items: QueueItem[] = [];
+
+    citations.forEach(citation => {
+      const url = citationUrl(citation);
+      if (citation.abstract) {
+        items.push({
+          ...this.createQueueItem({ text: citation.abstract, source: { type: 'citation', citation, title: citation.title } }),
+          citation
+        });
+      } else if (url) {
+        items.push({ ...this.createQueueItem(null, url), title: citation.title, citation });
+      } else {
+        skipped.push(citation);
+      }
+    });
+
+    this.addToQueue(items);
+    return skipped;
+  }
+
+  private handleExportBibtex = (citation: Citation) => {
+    downloadFile(`${citationKey(citation)}.bib`, toBibtex(citation), 'application/x-bibtex');
+  };
+
+  /**
+   * Analyze every queued item against the selected project, with up to
+   * queueConcurrency analyses running at once. Stopping lets running items finish.
+   */
+  private handleQueueStart = async () => {
+    const { selectedProject, selectedModel, queueConcurrency } = this.state;
+
+    if (!selectedModel) {
+      this.setState({ error: 'No AI model selected. Please select a model from the dropdown.' });
+      return;
+    }
+
+    const token = generateId();
+    this.queueRunToken = token;
+    this.setState({ isQueueRunning: true, error: '' });
+
+    const projectContext = selectedProject ? await this.getProjectContext(selectedProject) : null;
+    const template = this.getPromptTemplate(selectedProject);
+
+    // Items taken by a worker; state updates are asynchronous, so status alone can't tell
+    const claimed: string[] = [];
+    const nextItem = () => this.state.queue.find(item => item.status === 'queued' && !claimed.includes(item.id));
+
+    const worker = async () => {
+      for (let item = nextItem(); item && this.queueRunToken === token; item = nextItem()) {
+        claimed.push(item.id);
+        await this.runQueueItem(item, selectedProject, projectContext, selectedModel, template);
+      }
+    };
+
+    await Promise.all(Array.from({ length: queueConcurrency }, worker));
+
+    if (this.queueRunToken === token) {
+      this.queueRunToken = null;
+      this.setState({ isQueueRunning: false });
+    }
+  };
+
+  private handleQueueStop = () => {
+    this.queueRunToken = null;
+    this.setState({ isQueueRunning: false });
+  };
+
+  private async runQueueItem(
+    item: QueueItem,
+    projectSlug: string,
+    projectContext: ProjectContext | null,
+    model: ModelInfo,
+    template: PromptTemplate
+  ): Promise<void> {
+    this.updateQueueItem(item.id, { status: 'running', projectSlug, error: undefined });
+
+    try {
+      let article = item.article;
+      if (!article) {
+        const page = await this.fetchArticle(item.url as string);
+        // Imported citations keep their metadata, noting where the text came from
+        article = item.citation
+          ? { text: page.text, source: { type: 'citation', citation: item.citation, title: item.citation.title, url: page.source.canonicalUrl } }
+          : page;
+        this.updateQueueItem(item.id, { article, title: this.getArticleTitle(article) });
+      }
+
+      const { result, cachedAt } = await this.runAnalysisCached(article.text, article.source, projectContext, model, template, false);
+      const routes = projectSlug ? this.getOutputRoutes(projectSlug) : null;
+      this.updateQueueItem(item.id, {
+        status: 'done',
+        result,
+        cached: cachedAt !== null,
+        triageId: this.recordTriage(result, projectSlug, model.name, article),
+        // Pre-select the recommendation where it can be applied
+        decision: routes && (result.recommendation === 'skip' || routes[result.recommendation].enabled) ? result.recommendation : null
+      });
+    } catch (error: any) {
+      console.error(`Queue analysis failed for ${item.title}:`, error);
+      this.updateQueueItem(item.id, { status: 'error', error: error.message || 'Unknown error' });
+    }
+  }
+
+  /**
+   * Load a queued item into the main view (to read it, chat or save it with the
+   * full preview). It is then left out of the bulk apply.
+   */
+  private handleQueueOpen = (item: QueueItem) => {
+    if (!item.result || !item.article) return;
+    this.updateQueueItem(item.id, { applied: 'Opened in the main view', decision: null });
+    this.setState({
+      ...this.getClearedArticleState(),
+      articleText: item.article.text,
+      articleSource: item.article.source,
+      articleUrl: item.article.source?.type === 'url' ? item.article.source.canonicalUrl : '',
+      selectedProject: item.projectSlug || '',
+      triageMode: 'single',
+      analysisResult: item.result,
+      currentTriageId: item.triageId || null
+    });
+  };
+
+  /**
+   * Apply every pending decision: integrate/save/skip entries are written through
+   * the project's output routes (one at a time, as several may append to the same
+   * file) and dismissals recorded. Items that already have an entry in the
+   * Library are left for review in the main view.
+   */
+  private handleQueueApply = async () => {
+    const items = this.state.queue.filter(item => item.status === 'done' && item.decision && !item.applied && item.result && item.article);
+
+    this.setState({ isSaving: true, error: '', saveSuccess: '' });
+
+    let saved = 0;
+    const failed: string[] = [];
+
+    for (const item of items) {
+      const decision = item.decision as RouteAction | 'dismiss';
+      const result = item.result as AnalysisResult;
+      const article = item.article as ArticleInput;
+      const projectSlug = item.projectSlug || '';
+
+      try {
+        if (decision === 'dismiss') {
+          this.updateTriageRecord(item.triageId, { action: 'dismiss' });
+          this.updateQueueItem(item.id, { applied: 'Dismissed' });
+          continue;
+        }
+
+        if (!projectSlug) {
+          throw new Error('no project was selected when it was analyzed');
+        }
+
+        if (!this.getOutputRoutes(projectSlug)[decision].enabled) {
+          if (decision !== 'skip') {
+            throw new Error(`saving "${decision}" results is turned off`);
+          }
+          // Nowhere to log it, so only the history records the skip
+          this.updateTriageRecord(item.triageId, { action: 'skip' });
+          this.updateQueueItem(item.id, { applied: 'Skipped' });
+          continue;
+        }
+
+        if (decision !== 'skip') {
+          const matches = await this.findLibraryDuplicates(projectSlug, article, result);
+          if (matches.length > 0) {
+            throw new Error(`already saved as "${matches[0].entry.heading}" in ${matches[0].entry.filename}; open it to merge or save anyway`);
+          }
+        }
+
+        const draft = this.createSaveDraft(decision, result, projectSlug, item.triageId, article);
+        const content = this.formatSaveContent(draft, result, article);
+        const location = await this.writeEntry(projectSlug, draft, content, result);
+        this.updateTriageRecord(item.triageId, { action: decision });
+        this.recordSave(draft, projectSlug, location, content, item.triageId, article.source);
+        this.updateQueueItem(item.id, { applied: `Saved to ${location.filename}` });
+        saved++;
+      } catch (error: any) {
+        console.error(`Applying the decision for ${item.title} failed:`, error);
+        failed.push(`"${item.title}" (${error.message || 'Unknown error'})`);
+      }
+    }
+
+    this.setState({
+      isSaving: false,
+      error: failed.length > 0 ? `Could not apply ${failed.length} decision${failed.length !== 1 ? 's' : ''}: ${failed.join('; ')}` : ''
+    });
+    if (saved > 0) {
+      this.showSaveSuccess(`Saved ${saved} queued article${saved !== 1 ? 's' : ''}`);
+    }
+  };
+
+  private handleQueueRemove = (id: string) => {
+    this.setState(prev => {
+      const queue = prev.queue.filter(item => item.id !== id);
+      return { queue, queueCursor: Math.max(0, Math.min(prev.queueCursor, queue.length - 1)) };
+    });
+  };
+
+  private handleQueueClearFinished = () => {
+    this.setState(prev => ({
+      queue: prev.queue.filter(item => !item.applied && item.status !== 'error'),
+      queueCursor: 0
+    }));
+  };
+
+  /**
+   * Refresh feeds on load and then periodically, analyzing new entries in the background
+   */
+  private startFeedRefresh(): void {
+    const minutes = this.props.config?.feedRefreshMinutes ?? DEFAULT_FEED_REFRESH_MINUTES;
+    this.refreshFeeds();
+    if (minutes > 0) {
+      this.feedTimer = setInterval(this.refreshFeeds, minutes * 60 * 1000);
+    }
+  }
+
+  /**
+   * Fetch every subscribed feed, add its new entries to the inbox and analyze them
+   */
+  private refreshFeeds = async () => {
+    if (this.state.isRefreshingFeeds) return;
+
+    const subscriptions = this.state.feedSubscriptions.filter(subscription => subscription.url);
+    if (subscriptions.length > 0) {
+      this.setState({ isRefreshingFeeds: true });
+      for (const subscription of subscriptions) {
+        try {
+          const { body } = await this.library.fetchUrl(subscription.url);
+          await this.addFeedEntries(subscription, parseFeed(body));
+        } catch (error: any) {
+          console.error(`Feed refresh failed for ${subscription.url}:`, error);
+          const data = await this.feedService.updateSubscription(subscription.id, {
+            lastFetchedAt: new Date().toISOString(),
+            lastError: error.message || 'Unknown error'
+          });
+          this.setState({ feedSubscriptions: data.subscriptions });
+        }
+      }
+      this.setState({ isRefreshingFeeds: false });
+    }
+
+    // Also picks up entries imported from files and analyses interrupted earlier
+    this.analyzeFeedItems();
+  };
+
+  private async addFeedEntries(subscription: FeedSubscription, feed: ParsedFeed, limit?: number): Promise<void> {
+    await this.feedService.addEntries(subscription, feed.entries, limit);
+    const data = await this.feedService.updateSubscription(subscription.id, {
+      lastFetchedAt: new Date().toISOString(),
+      lastError: undefined
+    });
+    this.setState({ feedSubscriptions: data.subscriptions, feedItems: data.items });
+  }
+
+  private getFeedInitialItems(): number {
+    return this.props.config?.feedInitialItems ?? DEFAULT_FEED_INITIAL_ITEMS;
+  }
+
+  /**
+   * Subscribe the selected project to a feed. Only the latest entries of a new
+   * feed are analyzed.
+   */
+  private handleAddFeed = async (input: string) => {
+    const { selectedProject, feedSubscriptions } = this.state;
+    const url = normalizeArticleUrl(input);
+
+    if (!url) {
+      this.setState({ error: 'Please enter a valid http(s) feed URL' });
+      return;
+    }
+    if (!selectedProject) {
+      this.setState({ error: 'Select a project to subscribe it to the feed' });
+      return;
+    }
+    if (feedSubscriptions.some(s => s.projectSlug === selectedProject && s.url === url)) {
+      this.setState({ error: 'This project is already subscribed to that feed' });
+      return;
+    }
+
+    this.setState({ isRefreshingFeeds: true, error: '' });
+
+    try {
+      const { body } = await this.library.fetchUrl(url);
+      const feed = parseFeed(body);
+      const subscription: FeedSubscription = {
+        id: generateId(),
+        projectSlug: selectedProject,
+        url,
+        title: feed.title,
+        siteUrl: feed.siteUrl,
+        addedAt: new Date().toISOString()
+      };
+      await this.feedService.addSubscription(subscription);
+      await this.addFeedEntries(subscription, feed, this.getFeedInitialItems());
+    } catch (error: any) {
+      console.error('Feed subscription failed:', error);
+      this.setState({ error: `Could not subscribe to ${url}: ${error.message || 'Unknown error'}` });
+    }
+
+    this.setState({ isRefreshingFeeds: false });
+    this.analyzeFeedItems();
+  };
+
+  /**
+   * Add the entries of a downloaded feed file, to the selected project's
+   * subscription for that feed if there is one
+   */
+  private handleImportFeedFile = async (file: File) => {
+    const { selectedProject, feedSubscriptions } = this.state;
+
+    if (!selectedProject) {
+      this.setState({ error: 'Select a project to import the feed into' });
+      return;
+    }
+
+    try {
+      const feed = parseFeed(await file.text());
+      const selfUrl = (feed.selfUrl && normalizeArticleUrl(feed.selfUrl)) || '';
+      const existing = feedSubscriptions.find(s =>
+        s.projectSlug === selectedProject && (selfUrl ? s.url === selfUrl : !s.url && s.title === feed.title)
+      );
+
+      const subscription: FeedSubscription = existing || {
+        id: generateId(),
+        projectSlug: selectedProject,
+        url: selfUrl,
+        title: feed.title,
+        siteUrl: feed.siteUrl,
+        addedAt: new Date().toISOString()
+      };
+      if (!existing) {
+        await this.feedService.addSubscription(subscription);
+      }
+      await this.addFeedEntries(subscription, feed, existing ? undefined : this.getFeedInitialItems());
+      this.setState({ error: '' });
+      this.analyzeFeedItems();
+    } catch (error: any) {
+      console.error('Feed import failed:', error);
+      this.setState({ error: `Could not import ${file.name}: ${error.message || 'Unknown error'}` });
+    }
+  };
+
+  private handleRemoveFeed = async (id: string) => {
+    const data = await this.feedService.removeSubscription(id);
+    this.setState({ feedSubscriptions: data.subscriptions, feedItems: data.items });
+  };
+
+  private async updateFeedItem(id: string, changes: Partial<FeedItem>, persist: boolean = true): Promise<void> {
+    const data = await this.feedService.updateItem(id, changes, persist);
+    this.setState({ feedItems: data.items });
+  }
+
+  /**
+   * Analyze pending inbox entries in the background with the selected model,
+   * each against its feed's project, a few at a time
+   */
+  private async analyzeFeedItems(): Promise<void> {
+    const model = this.state.selectedModel;
+    if (this.isAnalyzingFeeds || !model || !this.props.services.api) return;
+    this.isAnalyzingFeeds = true;
+
+    const contexts: Record<string, Promise<ProjectContext | null>> = {};
+    const claimed: string[] = [];
+    const nextItem = () => this.state.feedItems.find(item => item.status === 'pending' && !claimed.includes(item.id));
+
+    const worker = async () => {
+      for (let item = nextItem(); item; item = nextItem()) {
+        claimed.push(item.id);
+        contexts[item.projectSlug] = contexts[item.projectSlug] || this.getProjectContext(item.projectSlug);
+        await this.analyzeFeedItem(item, await contexts[item.projectSlug], model);
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: this.state.queueConcurrency }, worker));
+    } finally {
+      this.isAnalyzingFeeds = false;
+    }
+
+    // Entries added or retried after the workers finished
+    if (this.state.feedItems.some(item => item.status === 'pending' && !claimed.includes(item.id))) {
+      this.analyzeFeedItems();
+    }
+  }
+
+  private async analyzeFeedItem(item: FeedItem, projectContext: ProjectContext | null, model: ModelInfo): Promise<void> {
+    // Not persisted: items still analyzing when the plugin closes start over anyway
+    await this.updateFeedItem(item.id, { status: 'analyzing', error: undefined }, false);
+
+    try {
+      const article = await this.getFeedItemArticle(item);
+      const template = this.getPromptTemplate(item.projectSlug);
+      const { result } = await this.runAnalysisCached(article.text, article.source, projectContext, model, template, false);
+      const triageId = this.recordTriage(result, item.projectSlug, model.name, article);
+      await this.updateFeedItem(item.id, { status: 'done', result, triageId });
+    } catch (error: any) {
+      console.error(`Feed entry analysis failed for ${item.title}:`, error);
+      await this.updateFeedItem(item.id, { status: 'error', error: error.message || 'Unknown error' });
+    }
+  }
+
+  /**
+   * The article for a feed entry: the entry's own text for full-text feeds,
+   * else the linked page (falling back to the feed's summary)
+   */
+  private async getFeedItemArticle(item: FeedItem): Promise<ArticleInput> {
+    const content = this.feedService.getText(item);
+    if (item.link && content.length < FULL_TEXT_FEED_CHARS) {
+      try {
+        return await this.fetchArticle(item.link);
+      } catch (error) {
+        if (!content.trim()) throw error;
+        console.warn(`Could not fetch ${item.link}, analyzing the feed summary instead:`, error);
+      }
+    }
+    return this.getFeedItemText(item, content);
+  }
+
+  private getFeedItemText(item: FeedItem, content: string = this.feedService.getText(item)): ArticleInput {
+    if (!content.trim()) {
+      throw new Error('The entry has no text or link');
+    }
+    if (!item.link) {
+      return { text: `${item.title}\n\n${content}`, source: null };
+    }
+    return {
+      text: content,
+      source: {
+        type: 'url',
+        url: item.link,
+        canonicalUrl: item.link,
+        title: item.title,
+        author: item.author,
+        publishedDate: item.publishedAt,
+        siteName: this.state.feedSubscriptions.find(s => s.id === item.feedId)?.title
+      }
+    };
+  }
+
+  /**
+   * Open an analyzed entry in the main view from its triage record (or, when
+   * the record has been pruned from the history, from the feed's summary and
+   * the linked page)
+   */
+  private handleOpenFeedItem = (item: FeedItem) => {
+    const record = this.state.triageHistory.find(r => r.id === item.triageId);
+    this.updateFeedItem(item.id, { opened: true });
+
+    if (record) {
+      this.handleOpenHistoryRecord(record);
+      return;
+    }
+
+    try {
+      const article = this.getFeedItemText(item);
+      this.setState({
+        ...this.getClearedArticleState(),
+        articleText: article.text,
+        articleSource: article.source,
+        articleUrl: item.link || '',
+        selectedProject: item.projectSlug,
+        triageMode: 'single',
+        analysisResult: item.result || null,
+        currentTriageId: null
+      });
+      // Only a summary is stored for linked pages and long entries
+      if (!this.feedService.hasFullText(item) && (item.link || item.contentTruncated)) {
+        this.restoreFullArticle(article.text, item.link, 'the feed inbox');
+      }
+    } catch (error: any) {
+      this.setState({ error: `Could not open ${item.title}: ${error.message}` });
+    }
+  };
+
+  private handleDismissFeedItem = async (item: FeedItem) => {
+    this.updateTriageRecord(item.triageId, { action: 'dismiss' });
+    const data = await this.feedService.removeItem(item.id);
+    this.setState({ feedItems: data.items });
+  };
+
+  private handleRetryFeedItem = async (item: FeedItem) => {
+    await this.updateFeedItem(item.id, { status: 'pending', error: undefined });
+    this.analyzeFeedItems();
+  };
+
+  /**
+   * Multi-project results ranked by recommendation, then confidence
+   */
+  private getRankedTriageResults(): ProjectTriageResult[] {
+    return [...this.state.multiProjectResults].sort((a, b) => {
+      if (!a.result || !b.result) return (a.result ? -1 : 0) + (b.result ? 1 : 0);
+      return (RECOMMENDATION_RANK[a.result.recommendation] - RECOMMENDATION_RANK[b.result.recommendation])
+        || (b.result.confidence - a.result.confidence);
+    });
+  }
+
+  /**
+   * The article in the input form
+   */
+  private getCurrentArticle(): ArticleInput {
+    return { text: this.state.articleText, source: this.state.articleSource };
+  }
+
+  /**
+   * Title for an article (the current one by default): source metadata, else
+   * its first line (truncated)
+   */
+  private getArticleTitle(article: ArticleInput = this.getCurrentArticle()): string {
+    const firstLine = (article.source?.title || article.text.split('\n')[0]).trim();
+    return firstLine.length > 80 ? firstLine.substring(0, 77) + '...' : firstLine;
+  }
+
+  /**
+   * Default save draft for an analysis: the article title and all insights, no notes or tags
+   */
+  private createSaveDraft(
+    action: RouteAction,
+    analysisResult: AnalysisResult | null = this.state.analysisResult,
+    projectSlug: string = this.state.selectedProject,
+    triageId: string | null | undefined = this.state.currentTriageId,
+    article: ArticleInput = this.getCurrentArticle()
+  ): SaveDraft {
+    const record = this.state.triageHistory.find(r => r.id === triageId);
+    const savedAt = new Date().toISOString();
+    return {
+      entryId: createEntryId(),
+      action,
+      projectSlug,
+      route: this.getOutputRoutes(projectSlug)[action],
+      title: this.getArticleTitle(article),
+      insights: (analysisResult?.insights || []).map((text, i) => ({
+        text,
+        sections: analysisResult?.insightSections?.[i] || []
+      })),
+      notes: '',
+      tags: [],
+      savedAt,
+      model: record?.model || this.state.selectedModel?.name || '',
+      analyzedAt: record?.timestamp || savedAt,
+      includeChat: false
+    };
+  }
+
+  /**
+   * Link to where the article came from: the fetched page, or a citation's DOI/URL
+   */
+  private getSourceUrl(source: ArticleSource | null): string | undefined {
+    if (source?.type === 'url') return source.canonicalUrl;
+    if (source?.type === 'citation') return source.url || citationUrl(source.citation);
+    return undefined;
+  }
+
+  /**
+   * Opening of the article saved with an entry, labelled with its pages for PDFs
+   */
+  private getArticleExcerpt(article: ArticleInput): { label: string; text: string } {
+    const { text: articleText, source: articleSource } = article;
+    const text = articleText.length > 500
+      ? articleText.substring(0, 500) + '...'
+      : articleText;
+    const label = articleSource?.type === 'pdf'
+      ? `Excerpt from ${articleSource.filename}, ${formatPageRange(getPageRange(articleSource, 0, Math.min(500, articleText.length)))}`
+      : articleSource?.type === 'citation' && !articleSource.url ? 'Abstract' : 'Article Excerpt';
+    return { label, text };
+  }
+
+  /**
+   * Format content for saving to Library files
+   */
+  private formatSaveContent(
+    draft: SaveDraft,
+    analysisResult: AnalysisResult | null = this.state.analysisResult,
+    article: ArticleInput = this.getCurrentArticle()
+  ): string {
+    if (draft.route.mode === 'note') {
+      return this.formatNoteContent(draft, analysisResult, article);
+    }
+
+    const articleSource = article.source;
+    const savedAt = new Date(draft.savedAt);
+    const timestamp = savedAt.toISOString().split('T')[0];
+    const time = savedAt.toLocaleTimeString();
+
+    const title = draft.title.trim();
+    const sourceUrl = this.getSourceUrl(articleSource);
+
+    // Link the heading back to the source page (or a paper's DOI) when there is one
+    const heading = sourceUrl
+      ? `[${(title || sourceUrl).replace(/[[\]]/g, '')}](${sourceUrl})`
+      : title || 'Untitled Research';
+
+    // Entries filed under a route heading sit one level below it
+    const level = '#'.repeat(entryHeadingLevel(draft.route));
+    let content = `\n\n${level} ${timestamp} ${time} - ${heading}\n${formatEntryMarker(draft.entryId)}\n\n`;
+
+    if (articleSource?.type === 'pdf') {
+      content += `**Source:** ${articleSource.filename} (${articleSource.pageCount} page${articleSource.pageCount !== 1 ? 's' : ''})\n\n`;
+    } else if (articleSource?.type === 'url') {
+      const details = [
+        articleSource.author && `by ${articleSource.author}`,
+        articleSource.publishedDate && `published ${articleSource.publishedDate}`
+      ].filter(Boolean).join(', ');
+      content += `**Source:** <${articleSource.canonicalUrl}>${articleSource.siteName ? ` (${articleSource.siteName})` : ''}${details ? ` — ${details}` : ''}\n\n`;
+    } else if (articleSource?.type === 'citation') {
+      content += `**Citation:** ${formatCitation(articleSource.citation)}\n\n`;
+    }
+
+    if (analysisResult) {
+      content += `**Recommendation:** ${analysisResult.recommendation} (${Math.round(analysisResult.confidence * 100)}% confidence)\n\n`;
+
+      if (draft.insights.length > 0) {
+        content += `**Key Insights:**\n`;
+        draft.insights.forEach(insight => {
+          content += `- ${insight.text}${insight.sections.length > 0 ? ` _(${insight.sections.join('; ')})_` : ''}\n`;
+        });
+        content += '\n';
+      }
+
+      content += `**Analysis:** ${analysisResult.explanation}\n\n`;
+
+      if (analysisResult.rubric) {
+        content += `**Rubric:** ${rubricScore(analysisResult.rubric)}/5 overall\n${formatRubric(analysisResult.rubric)}\n\n`;
+      }
+
+      if (analysisResult.conflicts && analysisResult.conflicts.length > 0) {
+        content += `**Conflicts:**\n${formatConflictList(analysisResult.conflicts, this.resolveSavePath(draft.projectSlug, draft))}\n\n`;
+      }
+    }
+
+    if (draft.notes.trim()) {
+      content += `**Notes:** ${draft.notes.trim()}\n\n`;
+    }
+
+    if (draft.tags.length > 0) {
+      content += `**Tags:** ${draft.tags.map(tag => `#${tag}`).join(' ')}\n\n`;
+    }
+
+    // Add article excerpt for context
+    const excerpt = this.getArticleExcerpt(article);
+    content += `<details>\n<summary>${excerpt.label}</summary>\n\n${excerpt.text}\n\n</details>\n`;
+
+    content += `\n---\n`;
+
+    return content;
+  }
+
+  /**
+   * Standalone note for one article: YAML frontmatter, then the insights,
+   * analysis, notes, excerpt and (optionally) the follow-up chat
+   */
+  private formatNoteContent(draft: SaveDraft, analysisResult: AnalysisResult | null, article: ArticleInput): string {
+    const { chatMessages } = this.state;
+    const articleSource = article.source;
+    const title = draft.title.trim() || 'Untitled Research';
+
+    const citation = articleSource?.type === 'citation' ? articleSource.citation : undefined;
+
+    let content = formatFrontmatter({
+      title,
+      source: this.getSourceUrl(articleSource) || (articleSource?.type === 'pdf' ? articleSource.filename : undefined),
+      author: articleSource?.type === 'url' ? articleSource.author : citation?.authors,
+      published: articleSource?.type === 'url' ? articleSource.publishedDate : citation?.year,
+      venue: citation?.venue,
+      doi: citation?.doi,
+      citation_key: citation ? citationKey(citation) : undefined,
+      analyzed: draft.analyzedAt.split('T')[0],
+      model: draft.model,
+      recommendation: analysisResult?.recommendation,
+      confidence: analysisResult ? Math.round(analysisResult.confidence * 100) / 100 : undefined,
+      rubric_score: analysisResult?.rubric ? rubricScore(analysisResult.rubric) : undefined,
+      tags: draft.tags,
+      project: draft.projectSlug
+    });
+    content += `${formatEntryMarker(draft.entryId)}\n\n# ${title}\n\n`;
+
+    if (articleSource?.type === 'url') {
+      content += `**Source:** <${articleSource.canonicalUrl}>${articleSource.siteName ? ` (${articleSource.siteName})` : ''}\n\n`;
+    } else if (articleSource?.type === 'pdf') {
+      content += `**Source:** ${articleSource.filename} (${articleSource.pageCount} page${articleSource.pageCount !== 1 ? 's' : ''})\n\n`;
+    } else if (citation) {
+      content += `**Citation:** ${formatCitation(citation)}\n\n`;
+    }
+
+    if (analysisResult) {
+      content += `**Recommendation:** ${analysisResult.recommendation} (${Math.round(analysisResult.confidence * 100)}% confidence)\n\n`;
+
+      if (draft.insights.length > 0) {
+        content += `## Key Insights\n\n`;
+        draft.insights.forEach(insight => {
+          content += `- ${insight.text}${insight.sections.length > 0 ? ` _(${insight.sections.join('; ')})_` : ''}\n`;
+        });
+        content += '\n';
+      }
+
+      content += `## Analysis\n\n${analysisResult.explanation}\n\n`;
+
+      if (analysisResult.rubric) {
+        content += `## Rubric\n\n${rubricScore(analysisResult.rubric)}/5 overall\n\n${formatRubric(analysisResult.rubric)}\n\n`;
+      }
+
+      if (analysisResult.conflicts && analysisResult.conflicts.length > 0) {
+        content += `## Conflicts\n\n${formatConflictList(analysisResult.conflicts, this.resolveSavePath(draft.projectSlug, draft))}\n\n`;
+      }
+    }
+
+    if (draft.notes.trim()) {
+      content += `## Notes\n\n${draft.notes.trim()}\n\n`;
+    }
+
+    const excerpt = this.getArticleExcerpt(article);
+    content += `## ${excerpt.label}\n\n${excerpt.text.split('\n').map(line => `> ${line}`.trimEnd()).join('\n')}\n`;
+
+    if (draft.includeChat && chatMessages.length > 0) {
+      content += `\n## Follow-Up Chat\n\n`;
+      content += chatMessages
+        .map(msg => `**${msg.role === 'user' ? 'You' : 'Assistant'}:** ${msg.content.trim()}`)
+        .join('\n\n');
+      content += '\n';
+    }
+
+    return content;
+  }
+
+  /**
+   * Line linking a note from its route's index file
+   */
+  private formatNoteIndexLine(draft: SaveDraft, notePath: string, indexPath: string, analysisResult: AnalysisResult | null): string {
+    const title = (draft.title.trim() || 'Untitled Research').replace(/[[\]]/g, '');
+    const link = encodeLinkPath(relativePath(indexPath, notePath));
+    const recommendation = analysisResult
+      ? ` · ${analysisResult.recommendation} (${Math.round(analysisResult.confidence * 100)}%)`
+      : '';
+    return `\n- ${draft.savedAt.split('T')[0]} - [${title}](${link})${recommendation} ${formatEntryMarker(draft.entryId)}\n`;
+  }
+
+  /**
+   * File path a draft will be written to, with {date}, {slug} and {project} filled in
+   */
+  private resolveSavePath(projectSlug: string, draft: SaveDraft): string {
+    return resolveRoutePath(draft.route.path, {
+      date: draft.savedAt.split('T')[0],
+      title: draft.title,
+      project: projectSlug
+    });
+  }
+
+  /**
+   * Write an entry where its route says: appended to a file (under the route's
+   * heading, if any), as a new file, or as a note linked from the route's index
+   * file. Returns where it was written.
+   */
+  private async writeEntry(
+    projectSlug: string,
+    draft: SaveDraft,
+    content: string,
+    analysisResult: AnalysisResult | null = this.state.analysisResult
+  ): Promise<Pick<SavedEntry, 'filename' | 'indexFile' | 'indexContent'>> {
+    const path = this.resolveSavePath(projectSlug, draft);
+    const filename = await this.writeToRoute(projectSlug, draft.route, path, content);
+
+    const indexFile = noteIndexPath(draft.route);
+    if (!indexFile) {
+      return { filename };
+    }
+
+    const indexContent = this.formatNoteIndexLine(draft, filename, indexFile, analysisResult);
+    await this.appendToProjectFile(projectSlug, indexFile, indexContent);
+    return { filename, indexFile, indexContent };
+  }
+
+  private async writeToRoute(projectSlug: string, route: OutputRoute, path: string, content: string): Promise<string> {
+    if (route.mode !== 'append') {
+      const available = await this.findAvailablePath(projectSlug, path);
+      await this.library.writeFile(projectSlug, available, content.replace(/^\s+/, ''));
+      return available;
+    }
+
+    if (route.heading) {
+      const current = await this.library.readFile(projectSlug, path);
+      await this.library.writeFile(projectSlug, path, insertUnderHeading(current || '', route.heading, content));
+      return path;
+    }
+
+    await this.library.appendFile(projectSlug, path, content);
+    return path;
+  }
+
+  /**
+   * Append content to a file in a project, honouring the heading of any append
+   * route that targets the same file
+   */
+  private async appendToProjectFile(projectSlug: string, path: string, content: string): Promise<void> {
+    const routes = this.getOutputRoutes(projectSlug);
+    const route = (Object.keys(routes) as RouteAction[])
+      .map(action => routes[action])
+      .find(r => r.mode === 'append' && r.heading && r.path === path);
+
+    await this.writeToRoute(projectSlug, route || { enabled: true, mode: 'append', path }, path, content);
+  }
+
+  /**
+   * Human-readable target of a draft for the save preview
+   */
+  private describeSaveTarget(projectSlug: string, draft: SaveDraft): string {
+    const path = `${projectSlug}/${this.resolveSavePath(projectSlug, draft)}`;
+    if (draft.route.mode === 'new-file') return `${path} (new file)`;
+    if (draft.route.mode === 'note') {
+      const indexFile = noteIndexPath(draft.route);
+      return indexFile ? `${path} (new note, linked from ${indexFile})` : `${path} (new note)`;
+    }
+    return draft.route.heading ? `${path} under "${draft.route.heading}"` : path;
+  }
+
+  /**
+   * For new-file and note routes (and saved reports): the path itself if free, else
+   * the first "-2", "-3"... variant
+   */
+  private async findAvailablePath(projectSlug: string, path: string): Promise<string> {
+    const extension = path.match(/\.[^./]+$/)?.[0] || '';
+    const base = path.slice(0, path.length - extension.length);
+
+    for (let n = 1; n <= 20; n++) {
+      const candidate = n === 1 ? path : `${base}-${n}${extension}`;
+      if (await this.library.readFile(projectSlug, candidate) === null) {
+        return candidate;
+      }
+    }
+    throw new Error(`${path} and its numbered variants already exist`);
+  }
+
+  /**
+   * Files an entry can be moved to in a project: the append targets of its routes
+   */
+  private getMoveTargets(projectSlug: string): string[] {
+    const routes = this.getOutputRoutes(projectSlug);
+    const paths = (Object.keys(routes) as RouteAction[])
+      .filter(action => routes[action].enabled && routes[action].mode === 'append')
+      .map(action => routes[action].path);
+    return Array.from(new Set(paths));
+  }
+
+  /**
+   * Existing entries in the project's findings/ideas files that already cover
+   * the current article (same URL, similar text, or overlapping insights)
+   */
+  private async findLibraryDuplicates(
+    projectSlug: string,
+    article: ArticleInput = this.getCurrentArticle(),
+    analysisResult: AnalysisResult | null = this.state.analysisResult
+  ): Promise<DuplicateMatch[]> {
+    const { text: articleText, source: articleSource } = article;
+    // New-file routes can't be listed, so only the files entries are appended to
+    // and the notes linked from index files are checked
+    const routes = this.getOutputRoutes(projectSlug);
+    const enabled = [routes.integrate, routes.save].filter(route => route.enabled);
+    const paths = enabled.filter(route => route.mode === 'append').map(route => route.path);
+    const files = await this.library.readFiles(projectSlug, Array.from(new Set(paths)));
+    const notes = await this.readLinkedNotes(projectSlug, enabled, '');
+
+    const entries = Object.keys(files)
+      .reduce<ReturnType<typeof parseLibraryEntries>>(
+        (all, filename) => all.concat(parseLibraryEntries(files[filename] || '', filename)),
+        []
+      )
+      .concat(notes.map(note => parseNoteEntry(note.markdown, note.link.path)));
+
+    return findDuplicates({
+      articleText,
+      sourceUrl: this.getSourceUrl(articleSource),
+      insights: analysisResult?.insights || []
+    }, entries);
+  }
+
+  /**
+   * Notes listed since a date (yyyy-mm-dd, '' for all) in the index files of
+   * the given note routes, once per note. Notes that no longer exist are left out.
+   */
+  private async readLinkedNotes(
+    projectSlug: string,
+    routes: OutputRoute[],
+    since: string
+  ): Promise<{ link: NoteLink; markdown: string }[]> {
+    const indexPaths = Array.from(new Set(routes.map(noteIndexPath).filter((path): path is string => !!path)));
+    if (indexPaths.length === 0) return [];
+
+    const indexes = await this.library.readFiles(projectSlug, indexPaths);
+    const links = indexPaths.reduce<NoteLink[]>(
+      (all, indexPath) => all.concat(
+        collectNoteLinks(indexes[indexPath] || '', indexPath, since).filter(link => !all.some(l => l.path === link.path))
+      ),
+      []
+    );
+    if (links.length === 0) return [];
+
+    const notes = await this.library.readFiles(projectSlug, links.map(link => link.path));
+    return links
+      .filter(link => notes[link.path] !== null)
+      .map(link => ({ link, markdown: notes[link.path] as string }));
+  }
+
+  /**
+   * State that resets the form for a new article
+   */
+  private getClearedArticleState() {
+    return {
+      articleText: '',
+      articleSource: null,
+      articleUrl: '',
+      analysisResult: null,
+      highlightedInsight: null,
+      analysisCachedAt: null,
+      multiProjectResults: [],
+      modelComparison: null,
+      chatMessages: [],
+      currentTriageId: null,
+      duplicateWarning: null,
+      saveDraft: null
+    };
+  }
+
+  private showSaveSuccess(message: string, duration: number = 5000): void {
+    this.setState({ saveSuccess: message });
+
+    // Clear success message after 5 seconds (or the given duration); an earlier
+    // message's timer must not cut this one short
+    if (this.successTimer) clearTimeout(this.successTimer);
+    this.successTimer = setTimeout(() => {
+      this.successTimer = null;
+      this.setState({ saveSuccess: '' });
+    }, duration);
+  }
+
+  /**
+   * Remember an appended entry in the recently saved list
+   */
+  private recordSave(
+    draft: SaveDraft,
+    projectSlug: string,
+    location: Pick<SavedEntry, 'filename' | 'indexFile' | 'indexContent'>,
+    content: string,
+    triageId: string | null | undefined,
+    articleSource: ArticleSource | null = this.state.articleSource
+  ): SavedEntry {
+    const entry: SavedEntry = {
+      id: draft.entryId,
+      projectSlug,
+      ...location,
+      action: draft.action,
+      title: draft.title.trim() || 'Untitled Research',
+      content,
+      triageId: triageId || null,
+      citation: articleSource?.type === 'citation' ? articleSource.citation : undefined,
+      savedAt: draft.savedAt
+    };
+
+    // Shown (and undoable) right away; persisting happens in the background
+    this.setState(prev => ({ recentSaves: [entry, ...prev.recentSaves.filter(e => e.id !== entry.id)] }));
+    this.recentSavesService.add(entry).then(recentSaves => this.setState({ recentSaves }));
+    return entry;
+  }
+
+  /**
+   * Delete a saved entry's block from its Library file, located by its entry ID
+   */
+  private async removeLibraryEntry(entry: SavedEntry): Promise<void> {
+    const current = await this.library.readFile(entry.projectSlug, entry.filename);
+    // A note is its whole file, so it goes as long as it is still the same note
+    const updated = current === null
+      ? null
+      : entry.indexFile ? (readEntryId(current) === entry.id ? '' : null) : removeEntryBlock(current, entry.id, entry.content);
+    if (updated === null) {
+      throw new Error(`Entry "${entry.title}" was not found in ${entry.projectSlug}/${entry.filename}`);
+    }
+
+    if (updated.trim()) {
+      await this.library.writeFile(entry.projectSlug, entry.filename, updated);
+    } else {
+      await this.library.deleteFile(entry.projectSlug, entry.filename);
+    }
+
+    if (entry.indexFile) {
+      const index = await this.library.readFile(entry.projectSlug, entry.indexFile);
+      const updatedIndex = index === null ? null : removeMarkedLine(index, entry.id, entry.indexContent);
+      if (updatedIndex !== null) {
+        await this.library.writeFile(entry.projectSlug, entry.indexFile, updatedIndex);
+      }
+    }
+  }
+
+  private handleAction = async (action: RouteAction | 'dismiss', skipDuplicateCheck: boolean = false) => {
+    const { selectedProject } = this.state;
+    const { services } = this.props;
+
+    // Handle dismiss
+    if (action === 'dismiss') {
+      // Record the dismissal on every analysis of this article that wasn't saved
+      const { currentTriageId, chatMessages, multiProjectResults, modelComparison, triageHistory } = this.state;
+      const ids = [
+        currentTriageId,
+        ...multiProjectResults.map(r => r.triageId),
+        ...(modelComparison ? [...modelComparison.models.map(m => m.triageId), modelComparison.consensusTriageId] : [])
+      ];
+      triageHistory
+        .filter(r => ids.includes(r.id) && r.action === 'pending')
+        .forEach(r => this.updateTriageRecord(r.id, {
+          action: 'dismiss',
+          chatMessages: r.id === currentTriageId ? chatMessages : r.chatMessages
+        }));
+
+      this.setState({
+        ...this.getClearedArticleState(),
+        saveSuccess: ''
+      });
+      return;
+    }
+
+    // For integrate/save/skip, we need a project selected
+    if (!selectedProject) {
+      this.setState({ error: 'Please select a project to save findings to.' });
+      return;
+    }
+
+    if (!this.getOutputRoutes(selectedProject)[action].enabled) {
+      this.setState({ error: `Saving "${action}" results is turned off for this project. Enable it in Output Routing.` });
+      return;
+    }
+
+    if (!services.api) {
+      this.setState({ error: 'API service not available' });
+      return;
+    }
+
+    this.setState({ isSaving: true, error: '', saveSuccess: '', duplicateWarning: null });
+
+    // Skipped articles are only logged, so there's nothing to de-duplicate
+    if (!skipDuplicateCheck && action !== 'skip') {
+      try {
+        const matches = await this.findLibraryDuplicates(selectedProject);
+        if (matches.length > 0) {
+          this.setState({ isSaving: false, duplicateWarning: { action, matches } });
+          return;
+        }
+      } catch (error) {
+        // Not being able to check shouldn't block saving
+        console.warn('Research Assistant: Duplicate check failed:', error);
+      }
+    }
+
+    // Review the entry before anything is written
+    this.setState({ isSaving: false, saveDraft: this.createSaveDraft(action) });
+  };
+
+  /**
+   * Append the reviewed entry from the save preview to the Library
+   */
+  private handleConfirmSave = async (draft: SaveDraft) => {
+    const { selectedProject } = this.state;
+
+    this.setState({ isSaving: true, error: '', saveSuccess: '' });
+
+    try {
+      const content = this.formatSaveContent(draft);
+      const location = await this.writeEntry(selectedProject, draft, content);
+      const filename = location.filename;
+
+      const { currentTriageId } = this.state;
+      this.updateTriageRecord(currentTriageId, { action: draft.action, chatMessages: this.state.chatMessages });
+      this.recordSave(draft, selectedProject, location, content, currentTriageId);
+
+      // Offer to undo for a short while (e.g. after clicking the wrong button)
+      if (this.undoTimer) clearTimeout(this.undoTimer);
+      this.undoTimer = setTimeout(() => this.setState({ undoEntryId: null }), UNDO_WINDOW_MS);
+
+      this.setState({
+        isSaving: false,
+        undoEntryId: draft.entryId,
+        // Clear the form after successful save
+        ...this.getClearedArticleState()
+      });
+      this.showSaveSuccess(`Saved to ${selectedProject}/${filename}`, UNDO_WINDOW_MS);
+
+    } catch (error: any) {
+      console.error('Save failed:', error);
+      this.setState({
+        isSaving: false,
+        error: `Failed to save: ${error.message || 'Unknown error'}`
+      });
+    }
+  };
+
+  /**
+   * Undo the last save: remove the appended block and reopen the analysis so it
+   * can be saved again (e.g. to the other file)
+   */
+  private handleUndoSave = async () => {
+    const entry = this.state.recentSaves.find(e => e.id === this.state.undoEntryId);
+    if (!entry) return;
+
+    if (this.undoTimer) clearTimeout(this.undoTimer);
+    this.setState({ isSaving: true, error: '', saveSuccess: '', undoEntryId: null });
+
+    try {
+      await this.removeLibraryEntry(entry);
+      const recentSaves = await this.recentSavesService.remove(entry.id);
+      this.updateTriageRecord(entry.triageId, { action: 'pending' });
+
+      const record = this.state.triageHistory.find(r => r.id === entry.triageId);
+      if (record) {
+        this.handleOpenHistoryRecord(record);
+      }
+      this.setState({ isSaving: false, recentSaves });
+      this.showSaveSuccess(`Removed the entry from ${entry.projectSlug}/${entry.filename}`);
+
+    } catch (error: any) {
+      console.error('Undo failed:', error);
+      this.setState({
+        isSaving: false,
+        error: `Failed to undo: ${error.message || 'Unknown error'}`
+      });
+    }
+  };
+
+  /**
+   * Remove a recently saved entry from its Library file
+   */
+  private handleRemoveSavedEntry = async (entry: SavedEntry) => {
+    this.setState({ isSaving: true, error: '', saveSuccess: '' });
+
+    try {
+      await this.removeLibraryEntry(entry);
+      const recentSaves = await this.recentSavesService.remove(entry.id);
+      this.updateTriageRecord(entry.triageId, { action: 'pending' });
+      this.setState({
+        isSaving: false,
+        recentSaves,
+        undoEntryId: this.state.undoEntryId === entry.id ? null : this.state.undoEntryId
+      });
+      this.showSaveSuccess(`Removed the entry from ${entry.projectSlug}/${entry.filename}`);
+
+    } catch (error: any) {
+      console.error('Remove failed:', error);
+      this.setState({
+        isSaving: false,
+        error: `Failed to remove: ${error.message || 'Unknown error'}`
+      });
+    }
+  };
+
+  /**
+   * Move a recently saved entry to another file and/or project. The entry is
+   * appended to the target before it is removed from the source, so a failure
+   * never loses it.
+   */
+  private handleMoveSavedEntry = async (entry: SavedEntry, projectSlug: string, filename: string) => {
+    if (projectSlug === entry.projectSlug && filename === entry.filename) return;
+    // Notes have their own file and index line; they're removed and saved again instead
+    if (entry.indexFile) return;
+
+    this.setState({ isSaving: true, error: '', saveSuccess: '' });
+
+    try {
+      const source = await this.library.readFile(entry.projectSlug, entry.filename);
+      const block = source === null ? null : findEntryBlock(source, entry.id, entry.content);
+      if (source === null || !block) {
+        throw new Error(`Entry "${entry.title}" was not found in ${entry.projectSlug}/${entry.filename}`);
+      }
+
+      // Move the entry as it currently reads in the file, including any edits
+      const content = `\n\n${source.slice(block.start, block.end).replace(/^\n+/, '')}`;
+      await this.appendToProjectFile(projectSlug, filename, content);
+      await this.library.writeFile(entry.projectSlug, entry.filename, source.slice(0, block.start) + source.slice(block.end));
+
+      // Record the new action when the target file is where one of the project's routes writes
+      const routes = this.getOutputRoutes(projectSlug);
+      const action = (Object.keys(routes) as RouteAction[]).find(a => routes[a].mode === 'append' && routes[a].path === filename);
+      if (action) {
+        this.updateTriageRecord(entry.triageId, { action });
+      }
+
+      const recentSaves = await this.recentSavesService.update(entry.id, { projectSlug, filename, content, action: action || entry.action });
+
+      this.setState({ isSaving: false, recentSaves });
+      this.showSaveSuccess(`Moved "${entry.title}" to ${projectSlug}/${filename}`);
+
+    } catch (error: any) {
+      console.error('Move failed:', error);
+      this.setState({
+        isSaving: false,
+        error: `Failed to move: ${error.message || 'Unknown error'}`
+      });
+    }
+  };
+
+  /**
+   * Merge the current analysis into an existing entry instead of appending a new one:
+   * new insights are added to its list and a note records that the article was seen again
+   */
+  private handleMergeDuplicate = async (match: DuplicateMatch) => {
+    const { selectedProject, analysisResult } = this.state;
+    const { filename } = match.entry;
+
+    this.setState({ isSaving: true, error: '', saveSuccess: '' });
+
+    try {
+      // Re-read the file so the rewrite is based on its current content. A note
+      // (no anchor) is the whole file.
+      const current = await this.library.readFile(selectedProject, filename);
+      const entry = current === null ? undefined
+        : !match.entry.anchor ? parseNoteEntry(current, filename)
+        : parseLibraryEntries(current, filename).find(e => e.heading === match.entry.heading);
+      if (current === null || !entry) {
+        throw new Error(`Entry "${match.entry.heading}" no longer exists in ${filename}`);
+      }
+
+      const date = new Date().toISOString().split('T')[0];
+      const note = analysisResult
+        ? `**Seen again:** ${date} — ${analysisResult.recommendation} (${Math.round(analysisResult.confidence * 100)}% confidence)`
+        : `**Seen again:** ${date}`;
+      const merged = mergeIntoEntry(entry, analysisResult?.insights || [], note);
+
+      await this.library.writeFile(selectedProject, filename, current.slice(0, entry.start) + merged + current.slice(entry.end));
+
+      this.updateTriageRecord(this.state.currentTriageId, {
+        action: this.state.duplicateWarning?.action || 'save',
+        chatMessages: this.state.chatMessages
+      });
+      this.setState({
+        isSaving: false,
+        ...this.getClearedArticleState()
+      });
+      this.showSaveSuccess(`Merged into ${selectedProject}/${filename}${entry.anchor ? `#${entry.anchor}` : ''}`);
+
+    } catch (error: any) {
+      console.error('Merge failed:', error);
+      this.setState({
+        isSaving: false,
+        error: `Failed to merge: ${error.message || 'Unknown error'}`
+      });
+    }
+  };
+
+  /**
+   * Save each multi-project row that has a save action, using that project's own analysis
+   */
+  private handleMultiProjectSave = async () => {
+    const rows = this.state.multiProjectResults.filter(r => r.result && r.saveAction);
+
+    if (rows.length === 0) {
+      this.setState({ error: 'Select at least one project to save to.' });
+      return;
+    }
+
+    this.setState({ isSaving: true, error: '', saveSuccess: '' });
+
+    const saved: string[] = [];
+    const savedSlugs: string[] = [];
+    const failed: string[] = [];
+
+    for (const row of rows) {
+      const action = row.saveAction as 'integrate' | 'save';
+      try {
+        if (!this.getOutputRoutes(row.projectSlug)[action].enabled) {
+          throw new Error(`saving "${action}" results is turned off`);
+        }
+        const draft = this.createSaveDraft(action, row.result, row.projectSlug, row.triageId);
+        const content = this.formatSaveContent(draft, row.result);
+        const location = await this.writeEntry(row.projectSlug, draft, content, row.result);
+        saved.push(`${row.projectSlug}/${location.filename}`);
+        savedSlugs.push(row.projectSlug);
+        this.updateTriageRecord(row.triageId, { action });
+        this.recordSave(draft, row.projectSlug, location, content, row.triageId);
+      } catch (error: any) {
+        console.error(`Save failed for ${row.projectSlug}:`, error);
+        failed.push(`${row.projectSlug} (${error.message || 'Unknown error'})`);
+      }
+    }
+
+    if (failed.length === 0) {
+      this.setState({ isSaving: false, ...this.getClearedArticleState() });
+    } else {
+      // Keep the table so failed rows can be retried, but don't save the successful ones twice
+      this.setState(prev => ({
+        isSaving: false,
+        error: `Failed to save to ${failed.join(', ')}`,
+        multiProjectResults: prev.multiProjectResults.map(r =>
+          savedSlugs.includes(r.projectSlug) ? { ...r, saveAction: null } : r
+        )
+      }));
+    }
+
+    if (saved.length > 0) {
+      this.showSaveSuccess(`Saved to ${saved.join(', ')}`);
+    }
+  };
+
+  /**
+   * Open one project's result from the multi-project table in the single-project view
+   */
+  private openProjectResult(row: ProjectTriageResult): void {
+    if (!row.result) return;
+    this.setState({
+      triageMode: 'single',
+      selectedProject: row.projectSlug,
+      analysisResult: row.result,
+      analysisCachedAt: null,
+      chatMessages: [],
+      currentTriageId: row.triageId || null
+    });
+  }
+
+  /**
+   * Ask the model for build-plan.md tasks that put an integrated finding into practice
+   */
+  private handleProposeTasks = async (entry: SavedEntry) => {
+    const { selectedModel } = this.state;
+
+    if (!selectedModel) {
+      this.setState({ error: 'Please select a model to propose tasks with.' });
+      return;
+    }
+
+    this.setState({ taskProposal: { entry, phases: [], tasks: null }, error: '' });
+
+    // The dialog may have been closed, or opened for another entry, while waiting
+    const isCurrent = () => this.state.taskProposal?.entry.id === entry.id;
+
+    try {
+      const files = await this.library.readFiles(entry.projectSlug, ['build-plan.md', 'AGENT.md']);
+      const sections = parseBuildPlan(files['build-plan.md'] || '');
+      const phases = sections.map(section => section.heading);
+      if (!isCurrent()) return;
+      this.setState({ taskProposal: { entry, phases, tasks: null } });
+
+      const { tasks } = await this.requestStructured(
+        selectedModel,
+        this.buildTaskPrompt(entry, sections, files['AGENT.md']),
+        content => parseTaskProposals(content, sections),
+        buildTaskRepairPrompt,
+        'taskProposals',
+        1500
+      );
+      if (!isCurrent()) return;
+      this.setState({ taskProposal: { entry, phases, tasks } });
+
+    } catch (error: any) {
+      console.error('Task proposal failed:', error);
+      if (!isCurrent()) return;
+      this.setState(prev => ({
+        taskProposal: prev.taskProposal ? { ...prev.taskProposal, tasks: [] } : null,
+        error: `Failed to propose tasks: ${error.message || 'Unknown error'}`
+      }));
+    }
+  };
+
+  /**
+   * Prompt for build-plan tasks: the project overview, the plan's phases with
+   * their existing tasks, and the finding itself
+   */
+  private buildTaskPrompt(entry: SavedEntry, sections: BuildPlanSection[], agentMd: string | null): string {
+    // The finding as saved, minus the entry marker, frontmatter and collapsed excerpt
+    const finding = entry.content
+      .replace(/^---\n[\s\S]*?\n---\n/, '')
+      .replace(/<!--.*?-->/g, '')
+      .replace(/<details>[\s\S]*?<\/details>/g, '')
+      .trim()
+      .substring(0, FINDING_PROMPT_LIMIT);
+
+    return `You are helping plan the work on a project. A research finding was marked "integrate now"; turn it into concrete tasks for the project's build plan.
+
+## Project Overview (from AGENT.md):
+${agentMd ? agentMd.substring(0, SPEC_PROMPT_LIMIT) : 'No AGENT.md found'}
+
+## Current Build Plan (build-plan.md):
+${sections.length > 0 ? formatPlanOutline(sections) : 'No build-plan.md sections yet'}
+
+## Finding
+${finding}
+
+## Your Task
+
+Propose 1-5 concrete, actionable tasks that apply this finding to the project. Each task should be small enough to check off, should not repeat a task already in the build plan, and should fit the plan's existing structure. For each task, name the build-plan section it belongs in using the exact heading text above (or "" if no section fits).
+
+Respond in the following JSON format ONLY (no other text):
+{
+  "tasks": [
+    {
+      "title": "Short imperative task, e.g. Add hybrid search to the retrieval endpoint",
+      "detail": "One sentence on what to do and why, referring to the finding",
+      "phase": "Exact section heading text from the build plan"
+    }
+  ]
+}`;
+  }
+
+  /**
+   * Show the digest of the week containing `date`, if one was written
+   */
+  private handleLoadDigest = async (projectSlug: string, date: Date) => {
+    const path = digestPath(date);
+    const token = `${projectSlug}/${path}`;
+    this.digestRequestToken = token;
+
+    try {
+      const content = await this.library.readFile(projectSlug, path);
+      // Another week or project may have been chosen while reading
+      if (this.digestRequestToken !== token) return;
+      this.setState({ digest: { projectSlug, path, content } });
+    } catch (error: any) {
+      console.error('Digest load failed:', error);
+      this.setState({ error: `Could not read ${path}: ${error.message || 'Unknown error'}` });
+    }
+  };
+
+  /**
+   * Synthesize the entries saved to the project since a date into this week's
+   * digest and write it to digests/<yyyy-ww>.md
+   */
+  private handleGenerateDigest = async (projectSlug: string, since: string) => {
+    const { selectedModel } = this.state;
+    const project = this.state.projects.find(p => p.slug === projectSlug);
+
+    if (!project) {
+      this.setState({ error: 'Please select a project to write a digest for.' });
+      return;
+    }
+    if (!selectedModel) {
+      this.setState({ error: 'Please select a model to write the digest with.' });
+      return;
+    }
+
+    this.setState({ isGeneratingDigest: true, error: '' });
+
+    try {
+      // Entries are found by their dated headings in the files they are appended
+      // to, and notes by their dated lines in the index files that link them.
+      // Files written by new-file routes (or notes without an index) can't be listed.
+      const routes = this.getOutputRoutes(projectSlug);
+      const enabled = [routes.integrate, routes.save].filter(route => route.enabled);
+      const appendPaths = Array.from(new Set(enabled.filter(route => route.mode === 'append').map(route => route.path)));
+      const unlisted = enabled.some(route => route.mode === 'new-file' || (route.mode === 'note' && !noteIndexPath(route)));
+
+      const files = await this.library.readFiles(projectSlug, appendPaths.concat('AGENT.md'));
+      const agentMd = files['AGENT.md'];
+      delete files['AGENT.md'];
+      const notes = await this.readLinkedNotes(projectSlug, enabled, since);
+
+      const entries = collectEntriesSince(files, since)
+        .concat(notes.map(note => noteDigestEntry(note.markdown, note.link)))
+        .sort((a, b) => a.date.localeCompare(b.date));
+      const unlistedNote = unlisted ? ' Files written by new-file routes (or notes without an index file) are not included.' : '';
+
+      if (entries.length === 0) {
+        this.setState({ isGeneratingDigest: false, error: `No entries were saved to ${project.name} since ${since}.${unlistedNote}` });
+        return;
+      }
+
+      const synthesis = await this.requestStructured(
+        selectedModel,
+        this.buildDigestPrompt(entries, agentMd),
+        content => parseDigestResponse(content, entries.length),
+        buildDigestRepairPrompt,
+        'digest',
+        2000
+      );
+
+      const generatedAt = new Date();
+      const path = digestPath(generatedAt);
+      const content = formatDigest(synthesis, entries, {
+        projectName: project.name,
+        path,
+        since,
+        generatedAt,
+        model: selectedModel.name
+      });
+      await this.library.writeFile(projectSlug, path, content);
+
+      this.digestRequestToken = null;
+      this.setState({ isGeneratingDigest: false, digest: { projectSlug, path, content } });
+      this.showSaveSuccess(`Digest saved to ${path}.${unlistedNote}`);
+    } catch (error: any) {
+      console.error('Digest generation failed:', error);
+      this.setState({ isGeneratingDigest: false, error: `Failed to write the digest: ${error.message || 'Unknown error'}` });
+    }
+  };
+
+  /**
+   * Prompt for a digest: the project overview and the numbered entries, each
+   * trimmed so that all of them fit
+   */
+  private buildDigestPrompt(entries: DigestEntry[], agentMd: string | null): string {
+    const entryLimit = Math.min(DIGEST_ENTRY_LIMIT, Math.floor(DIGEST_PROMPT_LIMIT / entries.length));
+    const numbered = entries
+      .map((entry, i) => {
+        const content = entry.content.length > entryLimit ? `${entry.content.substring(0, entryLimit)}...` : entry.content;
+        return `### [${i + 1}] ${entry.title} (${entry.date}, ${entry.filename})\n${content}`;
+      })
+      .join('\n\n');
+
+    return `You are helping a researcher keep track of their reading. Below are the findings and ideas they saved to a project recently; write a digest of them.
+
+## Project Overview (from AGENT.md):
+${agentMd ? agentMd.substring(0, SPEC_PROMPT_LIMIT) : 'No AGENT.md found'}
+
+## Saved Entries
+${numbered}
+
+## Your Task
+
+Synthesize the entries rather than summarizing them one by one:
+1. A short summary (2-4 sentences) of what was learned in this period and what it means for the project
+2. 1-6 themes that run through several entries, each with the numbers of the entries it draws on
+3. Open questions the entries raise but don't answer
+4. Concrete next steps for the project (reading, experiments, or changes to make)
+
+Respond in the following JSON format ONLY (no other text):
+{
+  "summary": "What this period's reading adds up to",
+  "themes": [
+    {
+      "title": "Short theme name",
+      "detail": "1-3 sentences on the theme and how the entries relate to it",
+      "entries": [1, 3]
+    }
+  ],
+  "openQuestions": ["A question the entries leave open"],
+  "nextSteps": ["An actionable next step"]
+}`;
+  }
+
+  /**
+   * Request a JSON reply other than an analysis (tasks, spec edits...), re-prompting
+   * the model when its reply can't be used
+   */
+  private async requestStructured<T extends { errors: string[] }>(
+    model: ModelInfo,
+    prompt: string,
+    parse: (content: string) => T,
+    buildRepair: (errors: string[]) => string,
+    field: string,
+    maxTokens: number
+  ): Promise<T> {
+    const maxRepairAttempts = Math.max(0, this.props.config?.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS);
+    const messages: LlmMessage[] = [{ role: 'user', content: prompt }];
+
+    for (let attempt = 0; ; attempt++) {
+      const content = await this.callLlm(model, messages, { temperature: 0.3, max_tokens: maxTokens });
+      if (!content) {
+        throw new Error('No response content from LLM');
+      }
+
+      const parsed = parse(content);
+      if (parsed.errors.length === 0) {
+        return parsed;
+      }
+
+      console.warn(`Research Assistant: Invalid ${field} response (attempt ${attempt + 1}):`, parsed.errors);
+      if (attempt >= maxRepairAttempts) {
+        throw new ValidationError(
+          `LLM response did not match the expected format after ${attempt + 1} attempt${attempt > 0 ? 's' : ''} (${parsed.errors.join('; ')})`,
+          field,
+          parsed.errors,
+          'STRUCTURED_VALIDATION_FAILED'
+        );
+      }
+
+      messages.push(
+        { role: 'assistant', content: stripReasoning(content) || content },
+        { role: 'user', content: buildRepair(parsed.errors) }
+      );
+    }
+  }
+
+  /**
+   * Link from build-plan.md to a saved finding: its heading in the findings
+   * file, or the note itself
+   */
+  private getFindingLink(entry: SavedEntry): string {
+    const link = encodeLinkPath(relativePath('build-plan.md', entry.filename));
+    const heading = entry.indexFile ? null : entry.content.match(/^#{2,3} (.+)$/m);
+    return heading ? `${link}#${headingAnchor(heading[1].trim())}` : link;
+  }
+
+  /**
+   * Insert the accepted tasks into their phase sections of build-plan.md
+   */
+  private handleConfirmTasks = async (tasks: ProposedTask[]) => {
+    const proposal = this.state.taskProposal;
+    if (!proposal) return;
+    const { entry } = proposal;
+
+    this.setState({ isSaving: true, error: '', saveSuccess: '' });
+
+    try {
+      const current = await this.library.readFile(entry.projectSlug, 'build-plan.md');
+      const updated = insertTasks(current || '', tasks, entry.title, this.getFindingLink(entry));
+      await this.library.writeFile(entry.projectSlug, 'build-plan.md', updated);
+
+      this.setState({ isSaving: false, taskProposal: null });
+      this.showSaveSuccess(`Added ${tasks.length} task${tasks.length !== 1 ? 's' : ''} to ${entry.projectSlug}/build-plan.md`);
+
+    } catch (error: any) {
+      console.error('Adding tasks failed:', error);
+      this.setState({
+        isSaving: false,
+        error: `Failed to update build-plan.md: ${error.message || 'Unknown error'}`
+      });
+    }
+  };
+
+  /**
+   * Ask the model for targeted spec.md edits based on the current article
+   */
+  private handleProposeSpecChanges = async () => {
+    const { selectedProject, selectedModel, articleText, articleSource, analysisResult } = this.state;
+
+    if (!selectedProject || !selectedModel || !analysisResult) {
+      this.setState({ error: 'Select a project and a model, and analyze an article first.' });
+      return;
+    }
 
-      const analysisResult = this.parseAnalysisResponse(content);
+    const token = generateId();
+    this.specRequestToken = token;
+    this.setState({
+      specProposal: { projectSlug: selectedProject, baseSpec: '', summary: '', hunks: null, unmatched: [] },
+      error: ''
+    });
+    // The dialog may have been closed, or the request repeated, while waiting
+    const isCurrent = () => this.specRequestToken === token && this.state.specProposal !== null;
 
-      if (!analysisResult) {
-        throw new Error('Failed to parse LLM response');
+    try {
+      const spec = await this.library.readFile(selectedProject, 'spec.md');
+      if (!spec || !spec.trim()) {
+        throw new Error(`${selectedProject} has no spec.md to change`);
       }
 
-      this.setState({
-        isLoading: false,
-        analysisResult
-      });
+      const { edits, summary } = await this.requestStructured(
+        selectedModel,
+        this.buildSpecPrompt(spec, articleText, articleSource, analysisResult),
+        parseSpecEdits,
+        buildSpecRepairPrompt,
+        'specEdits',
+        4000
+      );
+      if (!isCurrent()) return;
+
+      const { hunks, unmatched } = locateEdits(spec, edits);
+      this.setState({ specProposal: { projectSlug: selectedProject, baseSpec: spec, summary, hunks, unmatched } });
 
     } catch (error: any) {
-      console.error('Analysis failed:', error);
-      this.setState({
-        isLoading: false,
-        error: `Analysis failed: ${error.message || 'Unknown error'}. Check that your AI provider is configured in BrainDrive.`
-      });
+      console.error('Spec proposal failed:', error);
+      if (!isCurrent()) return;
+      this.setState(prev => ({
+        specProposal: prev.specProposal ? { ...prev.specProposal, hunks: [] } : null,
+        error: `Failed to propose spec changes: ${error.message || 'Unknown error'}`
+      }));
     }
   };
 
   /**
-   * Format content for saving to Library files
+   * Prompt for spec edits: the full spec.md, the article and its analysis
    */
-  private formatSaveContent(action: 'integrate' | 'save'): string {
-    const { articleText, analysisResult, selectedProject } = this.state;
-    const timestamp = new Date().toISOString().split('T')[0];
-    const time = new Date().toLocaleTimeString();
-
-    // Extract a title from the first line of the article (truncated)
-    const firstLine = articleText.split('\n')[0].trim();
-    const title = firstLine.length > 80 ? firstLine.substring(0, 77) + '...' : firstLine;
+  private buildSpecPrompt(spec: string, articleText: string, articleSource: ArticleSource | null, analysisResult: AnalysisResult): string {
+    return `You are helping maintain a project's specification. Decide whether the article below should change the project's spec.md (for example a new protocol version, a better algorithm, or a corrected assumption), and if so propose targeted edits.
 
-    let content = `\n\n## ${timestamp} ${time} - ${title || 'Untitled Research'}\n\n`;
+## Current spec.md
 
-    if (analysisResult) {
-      content += `**Recommendation:** ${analysisResult.recommendation} (${Math.round(analysisResult.confidence * 100)}% confidence)\n\n`;
+${spec}
 
-      content += `**Key Insights:**\n`;
-      analysisResult.insights.forEach(insight => {
-        content += `- ${insight}\n`;
-      });
-      content += '\n';
+${this.formatSourceMetadata(articleSource)}
+## Article
 
-      content += `**Analysis:** ${analysisResult.explanation}\n\n`;
-    }
+${articleText.substring(0, SINGLE_PASS_LIMIT)}
 
-    // Add article excerpt for context
-    const articleExcerpt = articleText.length > 500
-      ? articleText.substring(0, 500) + '...'
-      : articleText;
-    content += `<details>\n<summary>Article Excerpt</summary>\n\n${articleExcerpt}\n\n</details>\n`;
+## Key Insights From the Analysis
 
-    content += `\n---\n`;
+${analysisResult.insights.map(insight => `- ${insight}`).join('\n')}
 
-    return content;
-  }
+${analysisResult.explanation}
 
-  private handleAction = async (action: 'integrate' | 'save' | 'dismiss') => {
-    const { selectedProject } = this.state;
-    const { services } = this.props;
+## Your Task
 
-    // Handle dismiss
-    if (action === 'dismiss') {
-      this.setState({
-        articleText: '',
-        analysisResult: null,
-        chatMessages: [],
-        saveSuccess: ''
-      });
-      return;
-    }
+Propose the smallest set of edits to spec.md that the article justifies. Do not rewrite sections that are still correct, and propose no edits if nothing should change. Each edit replaces one exact passage of spec.md:
+- "find": text copied exactly from spec.md (a sentence, line or short paragraph, unique in the file)
+- "replace": the new text for that passage (include the original text too when adding something after it)
+- "rationale": one sentence on why, referring to the article
 
-    // For integrate/save, we need a project selected
-    if (!selectedProject) {
-      this.setState({ error: 'Please select a project to save findings to.' });
-      return;
-    }
+Respond in the following JSON format ONLY (no other text):
+{
+  "summary": "One or two sentences on what should change in the spec and why",
+  "edits": [
+    { "find": "exact text from spec.md", "replace": "new text", "rationale": "why" }
+  ]
+}`;
+  }
 
-    if (!services.api) {
-      this.setState({ error: 'API service not available' });
-      return;
-    }
+  /**
+   * Write the accepted hunks to spec.md and record why in decisions.md
+   */
+  private handleConfirmSpecChanges = async (hunks: SpecHunk[]) => {
+    const proposal = this.state.specProposal;
+    if (!proposal) return;
+    const accepted = hunks.filter(hunk => hunk.accepted);
+    const { projectSlug } = proposal;
 
     this.setState({ isSaving: true, error: '', saveSuccess: '' });
 
     try {
-      const filename = action === 'integrate' ? 'research-findings.md' : 'ideas.md';
-      const content = this.formatSaveContent(action);
-
-      const response = await services.api.post('/api/v1/plugin-api/braindrive-library/library/append-file', {
-        project_slug: selectedProject,
-        filename,
-        content
-      });
-
-      const success = response?.success ?? (response as any)?.data?.success;
-
-      if (success) {
-        const actionLabel = action === 'integrate' ? 'research-findings.md' : 'ideas.md';
-        this.setState({
-          isSaving: false,
-          saveSuccess: `Saved to ${selectedProject}/${actionLabel}`,
-          // Clear the form after successful save
-          articleText: '',
-          analysisResult: null,
-          chatMessages: []
-        });
-
-        // Clear success message after 5 seconds
-        setTimeout(() => {
-          this.setState({ saveSuccess: '' });
-        }, 5000);
-      } else {
-        throw new Error('Save operation returned unsuccessful');
+      const current = await this.library.readFile(projectSlug, 'spec.md');
+      if (current !== proposal.baseSpec) {
+        throw new Error('spec.md changed since these edits were proposed. Propose again to get edits against the current version');
       }
+      await this.library.writeFile(projectSlug, 'spec.md', applyHunks(proposal.baseSpec, accepted));
+    } catch (error: any) {
+      console.error('Spec update failed:', error);
+      this.setState({ isSaving: false, error: `Failed to update spec.md: ${error.message || 'Unknown error'}` });
+      return;
+    }
 
+    try {
+      await this.appendToProjectFile(projectSlug, 'decisions.md', this.formatSpecDecision(proposal, accepted));
+      this.setState({ isSaving: false, specProposal: null });
+      this.showSaveSuccess(`Applied ${accepted.length} change${accepted.length !== 1 ? 's' : ''} to ${projectSlug}/spec.md and logged the decision in decisions.md`);
     } catch (error: any) {
-      console.error('Save failed:', error);
+      console.error('Decision log failed:', error);
       this.setState({
         isSaving: false,
-        error: `Failed to save: ${error.message || 'Unknown error'}`
+        specProposal: null,
+        error: `spec.md was updated, but the decisions.md entry could not be added: ${error.message || 'Unknown error'}`
       });
     }
   };
 
+  /**
+   * decisions.md entry for accepted spec changes: the source article, the overall
+   * decision and each change's rationale
+   */
+  private formatSpecDecision(proposal: SpecProposal, accepted: SpecHunk[]): string {
+    const { articleSource } = this.state;
+    const title = this.getArticleTitle();
+    const date = new Date().toISOString().split('T')[0];
+
+    const source = articleSource?.type === 'url'
+      ? `[${title.replace(/[[\]]/g, '')}](${articleSource.canonicalUrl})`
+      : articleSource?.type === 'pdf' ? `${title} (${articleSource.filename})` : title;
+
+    const changes = accepted.map(hunk => {
+      const firstLine = hunk.newText.split('\n').find(line => line.trim()) || hunk.oldText.split('\n')[0];
+      return `- ${hunk.rationale || `Changed "${firstLine.trim().substring(0, 80)}"`}`;
+    });
+
+    return `\n\n## ${date} - Spec update: ${title}\n\n**Source:** ${source}\n\n**Decision:** ${proposal.summary || `Updated spec.md based on "${title}".`}\n\n**Changes to spec.md:**\n${changes.join('\n')}\n\n---\n`;
+  }
+
   /**
    * Build the chat system prompt with article and analysis context
    */
-  private buildChatSystemPrompt(): string {
-    const { articleText, analysisResult, selectedProject } = this.state;
+  private buildChatSystemPrompt(projectContext: ProjectContext | null): string {
+    const { articleText, articleSource, analysisResult, selectedProject } = this.state;
 
-    let systemPrompt = `You are a helpful research assistant. The user has been analyzing an article and may have questions about it.
+    let article: string;
+    if (articleText.length <= SINGLE_PASS_LIMIT || !analysisResult?.sections) {
+      article = articleText.substring(0, SINGLE_PASS_LIMIT);
+    } else {
+      // Long article: the opening verbatim plus per-section summaries for the rest
+      article = `${articleText.substring(0, CHAT_ARTICLE_LIMIT)}
 
-## Article Being Analyzed
+[... article continues; section-by-section summaries follow ...]
 
-${articleText.substring(0, 10000)}
+## Section Summaries
 
-`;
+${analysisResult.sections.map(section => `### ${section.title}
+${section.explanation}
+${section.insights.map(i => `- ${i}`).join('\n')}`).join('\n\n')}`;
+    }
 
-    if (analysisResult) {
-      systemPrompt += `## Previous Analysis
+    const analysis = analysisResult ? `## Previous Analysis
 
 **Recommendation:** ${analysisResult.recommendation}
 **Confidence:** ${Math.round(analysisResult.confidence * 100)}%
 **Insights:**
 ${analysisResult.insights.map(i => `- ${i}`).join('\n')}
-**Explanation:** ${analysisResult.explanation}
-
-`;
-    }
-
-    if (selectedProject) {
-      systemPrompt += `**Project Context:** ${selectedProject}\n\n`;
-    }
-
-    systemPrompt += `Answer the user's questions about this article concisely and helpfully. Reference specific parts of the article when relevant.`;
-
-    return systemPrompt;
+**Explanation:** ${analysisResult.explanation}` : '';
+
+    return renderTemplate(this.getPromptTemplate(selectedProject).chatPrompt, {
+      ...this.buildTemplateVariables(projectContext, articleSource),
+      project: selectedProject,
+      // Without the project's files, still tell the model which project this is about
+      context: projectContext ? this.buildContextSection(projectContext) : (selectedProject ? `**Project Context:** ${selectedProject}` : ''),
+      article,
+      analysis
+    });
   }
 
   private handleChatSubmit = async (e: React.SyntheticEvent) => {
@@ -571,12 +3519,19 @@ ${analysisResult.insights.map(i => `- ${i}`).join('\n')}
     this.setState({
       chatMessages: updatedMessages,
       chatInput: '',
-      isChatLoading: true
+      isChatLoading: true,
+      streamingChatReply: ''
     });
 
     try {
+      // Only fetch the project's files when the chat template uses them
+      const { selectedProject } = this.state;
+      const projectContext = selectedProject && usesProjectContext(this.getPromptTemplate(selectedProject).chatPrompt)
+        ? await this.getProjectContext(selectedProject)
+        : null;
+
       // Build messages for LLM
-      const systemPrompt = this.buildChatSystemPrompt();
+      const systemPrompt = this.buildChatSystemPrompt(projectContext);
 
       // Convert chat history to LLM format
       const llmMessages = [
@@ -588,30 +3543,19 @@ ${analysisResult.insights.map(i => `- ${i}`).join('\n')}
       ];
 
       // Call LLM
-      const response = await services.api.post('/api/v1/ai/providers/chat', {
-        provider: selectedModel.provider,
-        settings_id: selectedModel.providerId,
-        server_id: selectedModel.serverId,
-        model: selectedModel.name,
-        messages: llmMessages,
-        user_id: this.currentUserId || 'current',
-        stream: false,
-        params: {
-          temperature: 0.5,
-          max_tokens: 500
-        }
-      });
-
-      // Extract response
-      const content = response?.choices?.[0]?.message?.content
-        || response?.data?.choices?.[0]?.message?.content
-        || 'Sorry, I could not generate a response.';
+      const content = await this.callLlm(selectedModel, llmMessages, {
+        temperature: 0.5,
+        max_tokens: 500
+      }, streamingChatReply => this.setState({ streamingChatReply })) || 'Sorry, I could not generate a response.';
 
       // Add assistant message
+      const chatMessages = [...updatedMessages, { role: 'assistant' as const, content }];
       this.setState({
-        chatMessages: [...updatedMessages, { role: 'assistant' as const, content }],
-        isChatLoading: false
+        chatMessages,
+        isChatLoading: false,
+        streamingChatReply: ''
       });
+      this.updateTriageRecord(this.state.currentTriageId, { chatMessages });
 
     } catch (error: any) {
       console.error('Chat failed:', error);
@@ -620,54 +3564,233 @@ ${analysisResult.insights.map(i => `- ${i}`).join('\n')}
           ...updatedMessages,
           { role: 'assistant' as const, content: `Error: ${error.message || 'Failed to get response'}` }
         ],
-        isChatLoading: false
+        isChatLoading: false,
+        streamingChatReply: ''
       });
     }
   };
 
   private renderArticleInput(): JSX.Element {
-    const { articleText } = this.state;
+    const { articleText, articleSource, articleUrl, isFetchingUrl, isExtractingFile, isDraggingFile, highlightedInsight, analysisResult } = this.state;
     const charCount = articleText.length;
 
     return (
-      <div className="ra-section ra-article-input">
+      <div
+        className={`ra-section ra-article-input ${isDraggingFile ? 'ra-dragging' : ''}`}
+        onDragOver={this.handleFileDragOver}
+        onDragLeave={this.handleFileDragLeave}
+        onDrop={this.handleFileDrop}
+      >
         <h4>Article Text</h4>
-        <textarea
-          value={articleText}
-          onChange={this.handleArticleChange}
-          placeholder="Paste article text here..."
-          rows={10}
-        />
+        <div className="ra-url-input">
+          <input
+            type="url"
+            value={articleUrl}
+            onChange={(e) => this.setState({ articleUrl: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                this.handleFetchUrl();
+              }
+            }}
+            placeholder="https://example.com/article"
+            disabled={isFetchingUrl}
+          />
+          <button
+            type="button"
+            className="ra-button ra-button-secondary"
+            onClick={this.handleFetchUrl}
+            disabled={isFetchingUrl || !articleUrl.trim()}
+          >
+            {isFetchingUrl ? 'Fetching...' : 'Fetch URL'}
+          </button>
+        </div>
+        <div className="ra-file-upload">
+          <input
+            ref={this.fileInputRef}
+            type="file"
+            accept="application/pdf,.pdf"
+            onChange={this.handleFileSelect}
+            hidden
+          />
+          <button
+            type="button"
+            className="ra-button ra-button-secondary"
+            onClick={() => this.fileInputRef.current?.click()}
+            disabled={isExtractingFile}
+          >
+            {isExtractingFile ? 'Extracting text...' : 'Upload PDF'}
+          </button>
+          <span className="ra-file-hint">or drop a PDF anywhere in this section</span>
+        </div>
+        {articleSource && (
+          <div className="ra-source-info">
+            {articleSource.type === 'pdf' ? (
+              <span>{articleSource.filename} · {articleSource.pageCount} page{articleSource.pageCount !== 1 ? 's' : ''}</span>
+            ) : articleSource.type === 'citation' ? (
+              <span>
+                {formatCitation(articleSource.citation)}
+                {' · '}
+                <button onClick={() => this.handleExportBibtex(articleSource.citation)}>Export BibTeX</button>
+              </span>
+            ) : (
+              <span>
+                <a href={articleSource.canonicalUrl} target="_blank" rel="noopener noreferrer">
+                  {articleSource.title || articleSource.canonicalUrl}
+                </a>
+                {articleSource.author && ` · ${articleSource.author}`}
+                {articleSource.publishedDate && ` · ${articleSource.publishedDate}`}
+              </span>
+            )}
+            <button onClick={() => this.setState({ articleSource: null })}>Forget source</button>
+          </div>
+        )}
+        {highlightedInsight && analysisResult ? (
+          this.renderArticleView(highlightedInsight.spans)
+        ) : (
+          <textarea
+            value={articleText}
+            onChange={this.handleArticleChange}
+            placeholder="Paste article text here, fetch a URL, or upload a PDF..."
+            rows={10}
+            disabled={isExtractingFile || isFetchingUrl}
+          />
+        )}
         <div className="ra-char-count">
           {charCount.toLocaleString()} characters
-          {charCount > 50000 && <span className="ra-warning"> (large article - may be truncated)</span>}
+          {charCount > SINGLE_PASS_LIMIT && <span className="ra-warning"> (long article - will be analyzed section by section)</span>}
+        </div>
+      </div>
+    );
+  }
+
+  /**
+   * Read-only article text with the highlighted insight's quotes marked
+   */
+  private renderArticleView(spans: QuoteSpan[]): JSX.Element {
+    const { articleText, highlightedInsight, analysisResult } = this.state;
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+
+    spans.forEach((span, i) => {
+      // Overlapping quotes are merged into the earlier mark
+      if (span.end <= position) return;
+      const start = Math.max(span.start, position);
+      parts.push(articleText.slice(position, start));
+      parts.push(
+        <mark
+          key={i}
+          ref={i === 0 ? this.highlightRef : undefined}
+          className={span.fuzzy ? 'ra-quote-fuzzy' : undefined}
+          title={span.fuzzy ? 'Closest match - the quote differs slightly from the article text' : undefined}
+        >
+          {articleText.slice(start, span.end)}
+        </mark>
+      );
+      position = span.end;
+    });
+    parts.push(articleText.slice(position));
+
+    return (
+      <div className="ra-article-view-wrapper">
+        <div className="ra-article-view-header">
+          <span>
+            Quotes for insight {(highlightedInsight?.index ?? 0) + 1}
+            {analysisResult && highlightedInsight ? `: ${analysisResult.insights[highlightedInsight.index]}` : ''}
+          </span>
+          <button className="ra-link-button" onClick={() => this.setState({ highlightedInsight: null })}>
+            Edit text
+          </button>
         </div>
+        <div className="ra-article-view">{parts}</div>
       </div>
     );
   }
 
   private renderProjectSelector(): JSX.Element {
-    const { selectedProject, projects } = this.state;
+    const { selectedProject, projects, triageMode, multiProjectSlugs, isLoading, promptTemplates } = this.state;
 
     return (
       <div className="ra-section ra-project-selector">
         <h4>Project Context (Optional)</h4>
-        <select value={selectedProject} onChange={this.handleProjectChange}>
-          <option value="">-- No project selected --</option>
-          {projects.map(p => (
-            <option key={p.slug} value={p.slug}>{p.name}</option>
-          ))}
-        </select>
+        <div className="ra-mode-toggle">
+          <label>
+            <input
+              type="radio"
+              checked={triageMode === 'single'}
+              onChange={() => this.setState({ triageMode: 'single' })}
+              disabled={isLoading}
+            />
+            One project
+          </label>
+          <label>
+            <input
+              type="radio"
+              checked={triageMode === 'multi'}
+              onChange={() => this.setState({ triageMode: 'multi', analysisResult: null, chatMessages: [] })}
+              disabled={isLoading}
+            />
+            Rank across projects
+          </label>
+        </div>
+        {triageMode === 'single' ? (
+          <>
+            <select value={selectedProject} onChange={this.handleProjectChange}>
+              <option value="">-- No project selected --</option>
+              {projects.map(p => (
+                <option key={p.slug} value={p.slug}>{p.name}</option>
+              ))}
+            </select>
+            {selectedProject && (
+              <button
+                className="ra-link-button ra-routes-link"
+                onClick={() => this.setState(prev => ({ showRoutes: !prev.showRoutes }))}
+              >
+                {this.state.showRoutes ? 'Hide output routing' : 'Output routing...'}
+              </button>
+            )}
+            {selectedProject && promptTemplates.length > 1 && (
+              <div className="ra-template-select">
+                <label htmlFor="ra-project-template">Prompt template:</label>
+                <select
+                  id="ra-project-template"
+                  value={this.getPromptTemplate(selectedProject).id}
+                  onChange={(e) => this.handleSetProjectTemplate(selectedProject, e.target.value)}
+                  disabled={isLoading}
+                >
+                  {promptTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="ra-project-checklist">
+            {this.getTriageableProjects().map(p => (
+              <label key={p.slug}>
+                <input
+                  type="checkbox"
+                  checked={multiProjectSlugs.includes(p.slug)}
+                  onChange={() => this.handleMultiProjectToggle(p.slug)}
+                  disabled={isLoading}
+                />
+                {p.name}
+              </label>
+            ))}
+            <div className="ra-checklist-hint">
+              {multiProjectSlugs.length === 0
+                ? 'No projects ticked - the article will be scored against all active projects'
+                : `Scoring against ${multiProjectSlugs.length} selected project${multiProjectSlugs.length !== 1 ? 's' : ''}`}
+            </div>
+          </div>
+        )}
       </div>
     );
   }
 
   private renderModelSelector(): JSX.Element {
-    const { models, selectedModel, isLoadingModels } = this.state;
+    const { models, selectedModel, isLoadingModels, compareModels, compareModelKeys, triageMode, isLoading } = this.state;
 
-    const selectedValue = selectedModel
-      ? `${selectedModel.provider}_${selectedModel.serverId}_${selectedModel.name}`
-      : '';
+    const selectedValue = selectedModel ? this.getModelKey(selectedModel) : '';
 
     return (
       <div className="ra-section ra-model-selector">
@@ -683,7 +3806,7 @@ ${analysisResult.insights.map(i => `- ${i}`).join('\n')}
         ) : (
           <select value={selectedValue} onChange={this.handleModelChange}>
             {models.map(m => {
-              const value = `${m.provider}_${m.serverId}_${m.name}`;
+              const value = this.getModelKey(m);
               const label = `${m.name} (${m.serverName})`;
               return (
                 <option key={value} value={value}>{label}</option>
@@ -691,28 +3814,108 @@ ${analysisResult.insights.map(i => `- ${i}`).join('\n')}
             })}
           </select>
         )}
+        {models.length > 1 && (
+          <label className="ra-compare-toggle">
+            <input
+              type="checkbox"
+              checked={compareModels && triageMode === 'single'}
+              onChange={(e) => this.setState({ compareModels: e.target.checked })}
+              disabled={isLoading || triageMode !== 'single'}
+            />
+            Compare models side by side{triageMode !== 'single' ? ' (one project only)' : ''}
+          </label>
+        )}
+        {compareModels && triageMode === 'single' && models.length > 1 && (
+          <div className="ra-project-checklist">
+            {models.map(m => {
+              const key = this.getModelKey(m);
+              return (
+                <label key={key}>
+                  <input
+                    type="checkbox"
+                    checked={compareModelKeys.includes(key)}
+                    onChange={() => this.handleCompareModelToggle(key)}
+                    disabled={isLoading}
+                  />
+                  {m.name} ({m.serverName})
+                </label>
+              );
+            })}
+            <div className="ra-checklist-hint">
+              {compareModelKeys.length < 2
+                ? 'Tick at least two models - the same prompt is sent to each of them at once'
+                : `Comparing ${compareModelKeys.length} models; pick one result (or the consensus) to save and chat about`}
+            </div>
+          </div>
+        )}
       </div>
     );
   }
 
   private renderAnalyzeButton(): JSX.Element {
-    const { isLoading, articleText } = this.state;
+    const { isLoading, articleText, analysisProgress, streamingAnalysis } = this.state;
+    const partialExplanation = isLoading ? readPartialJsonString(streamingAnalysis, 'explanation') : null;
+    const partialRecommendation = isLoading ? readPartialJsonString(streamingAnalysis, 'recommendation') : null;
+
+    let label = isLoading ? 'Analyzing...' : 'Analyze Article';
+    const comparing = this.state.triageMode === 'single' && this.state.compareModels;
+    if (comparing) {
+      const running = this.state.modelComparison?.models.filter(m => m.status === 'running').length || 0;
+      label = isLoading ? `Waiting for ${running} model${running !== 1 ? 's' : ''}...` : 'Compare Models';
+    } else if (this.state.triageMode === 'multi') {
+      const done = this.state.multiProjectResults.filter(r => r.status === 'done' || r.status === 'error').length;
+      label = isLoading ? `Analyzing project ${Math.min(done + 1, this.state.multiProjectResults.length)} of ${this.state.multiProjectResults.length}...` : 'Analyze Against Projects';
+    } else if (isLoading && analysisProgress) {
+      label = analysisProgress.stage === 'map'
+        ? `Analyzing section ${analysisProgress.completed + 1} of ${analysisProgress.total}...`
+        : analysisProgress.stage === 'reduce' ? 'Merging section results...' : 'Checking for conflicts...';
+    }
 
     return (
       <div className="ra-section ra-analyze">
         <button
           onClick={this.handleAnalyze}
-          disabled={isLoading || !articleText.trim()}
+          disabled={isLoading || !articleText.trim() || (comparing && this.state.compareModelKeys.length < 2)}
           className="ra-button ra-button-primary"
         >
-          {isLoading ? 'Analyzing...' : 'Analyze Article'}
+          {label}
         </button>
+        {isLoading && analysisProgress && (
+          <div className="ra-progress">
+            <div className="ra-progress-bar">
+              <div
+                className="ra-progress-fill"
+                style={{ width: `${Math.round((analysisProgress.completed / (analysisProgress.total + 1)) * 100)}%` }}
+              />
+            </div>
+            <div className="ra-progress-label">
+              {analysisProgress.stage === 'map'
+                ? `Section: ${analysisProgress.currentSection}`
+                : analysisProgress.stage === 'reduce'
+                  ? `Combining ${analysisProgress.total} sections into one recommendation`
+                  : 'Comparing with decisions.md and research-findings.md'}
+            </div>
+          </div>
+        )}
+        {isLoading && (streamingAnalysis || this.state.repairAttempt > 0) && (
+          <div className="ra-stream-preview">
+            {partialRecommendation && ['integrate', 'save', 'skip'].includes(partialRecommendation) && (
+              <div className="ra-stream-recommendation">Leaning: {partialRecommendation}</div>
+            )}
+            {this.state.repairAttempt > 0 && (
+              <div className="ra-stream-recommendation">
+                Fixing malformed response (attempt {this.state.repairAttempt} of {Math.max(0, this.props.config?.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS)})
+              </div>
+            )}
+            <p>{partialExplanation || 'Receiving response...'}</p>
+          </div>
+        )}
       </div>
     );
   }
 
   private renderAnalysisResult(): JSX.Element | null {
-    const { analysisResult } = this.state;
+    const { analysisResult, analysisCachedAt, isLoading, highlightedInsight } = this.state;
     if (!analysisResult) return null;
 
     const recommendationLabels = {
@@ -729,7 +3932,19 @@ ${analysisResult.insights.map(i => `- ${i}`).join('\n')}
 
     return (
       <div className="ra-section ra-analysis-result">
-        <h4>Analysis Result</h4>
+        <div className="ra-result-header">
+          <h4>Analysis Result</h4>
+          {analysisCachedAt && (
+            <div className="ra-cache-info">
+              <span className="ra-cache-badge" title={`Analyzed ${new Date(analysisCachedAt).toLocaleString()}`}>
+                Cached · {formatRelativeTime(analysisCachedAt)}
+              </span>
+              <button className="ra-link-button" onClick={this.handleRerunAnalysis} disabled={isLoading}>
+                Re-run
+              </button>
+            </div>
+          )}
+        </div>
 
         <div className={`ra-recommendation ${recommendationColors[analysisResult.recommendation]}`}>
           <span className="ra-rec-label">Recommendation:</span>
@@ -737,20 +3952,111 @@ ${analysisResult.insights.map(i => `- ${i}`).join('\n')}
           <span className="ra-rec-confidence">({Math.round(analysisResult.confidence * 100)}% confidence)</span>
         </div>
 
+        {analysisResult.rubric && this.renderScorecard(analysisResult)}
+
+        {analysisResult.promptTemplate && analysisResult.promptTemplate.id !== DEFAULT_TEMPLATE_ID && (
+          <div className="ra-template-info">
+            Template: {analysisResult.promptTemplate.name} · v{analysisResult.promptTemplate.version}
+          </div>
+        )}
+
         <div className="ra-insights">
           <h5>Key Insights:</h5>
           <ul>
-            {analysisResult.insights.map((insight, i) => (
-              <li key={i}>{insight}</li>
-            ))}
+            {analysisResult.insights.map((insight, i) => {
+              const supported = isInsightSupported(analysisResult, i);
+              const quotes = analysisResult.insightQuotes?.[i] || [];
+              return (
+                <li
+                  key={i}
+                  className={`${supported && quotes.length > 0 ? 'ra-insight-grounded' : ''} ${highlightedInsight?.index === i ? 'ra-insight-active' : ''}`}
+                  onClick={supported && quotes.length > 0 ? () => this.handleHighlightInsight(i) : undefined}
+                  title={supported && quotes.length > 0 ? 'Show the supporting quotes in the article' : undefined}
+                >
+                  {insight}
+                  {analysisResult.insightSections?.[i]?.length ? (
+                    <span className="ra-insight-sections"> ({analysisResult.insightSections[i].join('; ')})</span>
+                  ) : null}
+                  {!supported && (
+                    <span
+                      className="ra-insight-unsupported"
+                      title={quotes.length > 0
+                        ? `None of the quotes were found in the article: ${quotes.map(quote => `"${quote.text}"`).join(' ')}`
+                        : 'The model gave no supporting quote'}
+                    >
+                      Unsupported
+                    </span>
+                  )}
+                </li>
+              );
+            })}
           </ul>
         </div>
 
+        {analysisResult.sections && (
+          <details className="ra-section-breakdown">
+            <summary>Section breakdown ({analysisResult.sections.length} sections)</summary>
+            {analysisResult.sections.map((section, i) => (
+              <div key={i} className="ra-section-item">
+                <div className="ra-section-item-header">
+                  <span className="ra-section-item-title">{i + 1}. {section.title}</span>
+                  <span className={`ra-section-item-rec ${recommendationColors[section.recommendation]}`}>
+                    {section.recommendation} · {Math.round(section.confidence * 100)}%
+                  </span>
+                </div>
+                <p>{section.explanation}</p>
+                {section.insights.length > 0 && (
+                  <ul>
+                    {section.insights.map((insight, j) => <li key={j}>{insight}</li>)}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </details>
+        )}
+
         <div className="ra-explanation">
           <h5>Explanation:</h5>
           <p>{analysisResult.explanation}</p>
         </div>
 
+        {analysisResult.conflicts && analysisResult.conflicts.length > 0 && (
+          <div className="ra-conflicts">
+            <h5>Conflicts ({analysisResult.conflicts.length}):</h5>
+            <ul>
+              {analysisResult.conflicts.map((conflict, i) => (
+                <li key={i}>
+                  <div className="ra-conflict-claim">"{conflict.claim}"</div>
+                  <div className="ra-conflict-ref">
+                    Conflicts with <code>{conflict.file}</code> &rsaquo; {conflict.heading}
+                  </div>
+                  {conflict.resolution && (
+                    <div className="ra-conflict-resolution">Suggested resolution: {conflict.resolution}</div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {analysisResult.conflicts && analysisResult.conflicts.length === 0 && (
+          <div className="ra-template-info">No conflicts with the project's decisions or saved findings.</div>
+        )}
+        {analysisResult.conflictCheckFailed && (
+          <div className="ra-template-info">The conflict check failed; re-analyze to check again.</div>
+        )}
+
+        {this.state.selectedProject && (
+          <div className="ra-result-tools">
+            <button
+              className="ra-link-button"
+              onClick={this.handleProposeSpecChanges}
+              disabled={this.state.isSaving || this.state.specProposal !== null}
+            >
+              Propose spec changes...
+            </button>
+          </div>
+        )}
+
         <div className="ra-actions">
           <button
             className="ra-button ra-button-success"
@@ -766,6 +4072,15 @@ ${analysisResult.insights.map(i => `- ${i}`).join('\n')}
           >
             {this.state.isSaving ? 'Saving...' : 'Save for Future'}
           </button>
+          {this.state.selectedProject && this.getOutputRoutes(this.state.selectedProject).skip.enabled && (
+            <button
+              className="ra-button ra-button-muted"
+              onClick={() => this.handleAction('skip')}
+              disabled={this.state.isSaving}
+            >
+              Log as Skipped
+            </button>
+          )}
           <button
             className="ra-button ra-button-muted"
             onClick={() => this.handleAction('dismiss')}
@@ -774,12 +4089,297 @@ ${analysisResult.insights.map(i => `- ${i}`).join('\n')}
             Dismiss
           </button>
         </div>
+
+        {this.renderDuplicateWarning()}
+      </div>
+    );
+  }
+
+  /**
+   * Matches found before saving, with the choice to merge, append anyway or cancel
+   */
+  private renderDuplicateWarning(): JSX.Element | null {
+    const { duplicateWarning, selectedProject, isSaving } = this.state;
+    if (!duplicateWarning) return null;
+
+    return (
+      <div className="ra-duplicate-warning">
+        <h5>Possibly already saved</h5>
+        <p>This article looks like it is already covered in {selectedProject}:</p>
+        {duplicateWarning.matches.map((match, i) => {
+          const anchor = match.entry.anchor ? `#${match.entry.anchor}` : '';
+          return (
+            <div key={`${match.entry.filename}-${match.entry.start}`} className="ra-duplicate-match">
+              <div className="ra-duplicate-match-header">
+                {/* Same target as the links in saved markdown; the host doesn't serve Library
+                    files, so following it opens the entry below */}
+                <a
+                  href={`${encodeLinkPath(match.entry.filename)}${anchor}`}
+                  title={`${selectedProject}/${match.entry.filename}${anchor}`}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    const details = document.getElementById(`ra-duplicate-entry-${i}`) as HTMLDetailsElement | null;
+                    if (details) {
+                      details.open = true;
+                      details.scrollIntoView({ block: 'nearest' });
+                    }
+                  }}
+                >
+                  <code>{match.entry.filename}{anchor}</code>
+                </a>
+                <span className="ra-duplicate-match-heading">{match.entry.heading}</span>
+              </div>
+              <ul className="ra-duplicate-reasons">
+                {match.reasons.map((reason, j) => <li key={j}>{reason}</li>)}
+              </ul>
+              <details id={`ra-duplicate-entry-${i}`}>
+                <summary>View entry</summary>
+                <pre className="ra-duplicate-entry">{match.entry.content.trim()}</pre>
+              </details>
+              <button
+                className="ra-button ra-button-secondary ra-duplicate-merge"
+                onClick={() => this.handleMergeDuplicate(match)}
+                disabled={isSaving}
+              >
+                Merge into this entry
+              </button>
+            </div>
+          );
+        })}
+        <div className="ra-actions">
+          <button
+            className="ra-button ra-button-success"
+            onClick={() => this.handleAction(duplicateWarning.action, true)}
+            disabled={isSaving}
+          >
+            Append anyway
+          </button>
+          <button
+            className="ra-button ra-button-muted"
+            onClick={() => this.setState({ duplicateWarning: null })}
+            disabled={isSaving}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  /**
+   * Compact rubric scorecard: a bar per dimension with its justification, and
+   * the overall score the recommendation was derived from
+   */
+  private renderScorecard(analysisResult: AnalysisResult): JSX.Element | null {
+    const { rubric, modelRecommendation, recommendation } = analysisResult;
+    if (!rubric) return null;
+    const thresholds = rubricThresholdsFromConfig(this.props.config);
+
+    return (
+      <div className="ra-scorecard">
+        <table>
+          <tbody>
+            {RUBRIC_DIMENSIONS.map(({ key, label }) => (
+              <tr key={key}>
+                <th>{label}</th>
+                <td className="ra-scorecard-score">{rubric[key].score}</td>
+                <td className="ra-scorecard-bar-cell">
+                  <div className="ra-scorecard-bar">
+                    <div
+                      className={`ra-scorecard-fill ${key === 'effort' ? 'ra-scorecard-fill-inverse' : ''}`}
+                      style={{ width: `${(rubric[key].score / 5) * 100}%` }}
+                    />
+                  </div>
+                </td>
+                <td className="ra-scorecard-justification">{rubric[key].justification}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="ra-scorecard-summary">
+          Overall {rubricScore(rubric)}/5 (effort counts inversely) · integrate at {thresholds.integrate}, save at {thresholds.save}, skip below relevance {thresholds.minRelevance}
+          {modelRecommendation && modelRecommendation !== recommendation && (
+            <span className="ra-warning"> · the model itself suggested "{modelRecommendation}"</span>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  private renderModelComparison(): JSX.Element | null {
+    const { modelComparison, analysisResult, isLoading } = this.state;
+    if (!modelComparison) return null;
+
+    const finished = modelComparison.models.filter(m => m.result);
+    const results = finished.map(m => m.result as AnalysisResult);
+    const agreement = results.length >= 2 ? measureAgreement(results) : null;
+    const shared = findSharedInsights(results);
+
+    return (
+      <div className="ra-section ra-model-comparison">
+        <h4>Model Comparison</h4>
+
+        {agreement && (
+          <div className={`ra-agreement ra-agreement-${agreement.level}`}>
+            <span className="ra-agreement-label">
+              {agreement.level === 'full' ? 'Models agree' : agreement.level === 'majority' ? 'Models mostly agree' : 'Models disagree'}
+            </span>
+            <span>
+              {agreement.agreeing} of {agreement.total} recommend <strong>{agreement.recommendation}</strong>
+              {' · '}confidence spread {Math.round(agreement.confidenceSpread * 100)} points
+              {' · '}{agreement.sharedInsights} shared insight{agreement.sharedInsights !== 1 ? 's' : ''}
+            </span>
+          </div>
+        )}
+
+        <div className="ra-comparison-grid">
+          {modelComparison.models.map(row => {
+            const index = finished.indexOf(row);
+            const chosen = !!row.result && row.result === analysisResult;
+            return (
+              <div key={row.modelKey} className={`ra-comparison-column ${chosen ? 'ra-comparison-chosen' : ''}`}>
+                <div className="ra-comparison-model">{row.modelName}</div>
+                {row.result ? (
+                  <>
+                    <div>
+                      <span className={`ra-rec-badge ra-rec-${row.result.recommendation}`}>{row.result.recommendation}</span>
+                      <span className="ra-comparison-confidence">{Math.round(row.result.confidence * 100)}%</span>
+                      {row.cached && <span className="ra-cache-badge">Cached</span>}
+                    </div>
+                    <ul>
+                      {row.result.insights.map((insight, i) => (
+                        <li key={i} className={shared[index]?.[i] ? 'ra-comparison-shared' : undefined}>
+                          {insight}
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="ra-comparison-explanation">{row.result.explanation}</p>
+                    <button
+                      className="ra-button ra-button-secondary"
+                      onClick={() => this.handleUseComparisonResult(row)}
+                      disabled={isLoading || chosen}
+                    >
+                      {chosen ? 'Selected' : 'Use This Result'}
+                    </button>
+                  </>
+                ) : row.error ? (
+                  <div className="ra-table-error">{row.error}</div>
+                ) : (
+                  <span className="ra-table-status">{row.status === 'running' ? 'Analyzing...' : row.status}</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {modelComparison.consensus && (
+          <div className="ra-actions">
+            <button
+              className="ra-button ra-button-primary"
+              onClick={() => this.handleUseComparisonResult('consensus')}
+              disabled={isLoading || analysisResult === modelComparison.consensus}
+            >
+              {analysisResult === modelComparison.consensus ? 'Consensus Selected' : 'Use Merged Consensus'}
+            </button>
+            <span className="ra-checklist-hint">
+              Highlighted insights were given by more than one model. Pick a result to save it or ask about it.
+            </span>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  private renderMultiProjectResults(): JSX.Element | null {
+    const { triageMode, multiProjectResults, isSaving, isLoading } = this.state;
+    if (triageMode !== 'multi' || multiProjectResults.length === 0) return null;
+
+    const saveCount = multiProjectResults.filter(r => r.result && r.saveAction).length;
+
+    return (
+      <div className="ra-section ra-multi-results">
+        <h4>Project Ranking</h4>
+        <table className="ra-table">
+          <thead>
+            <tr>
+              <th>Project</th>
+              <th>Recommendation</th>
+              <th>Confidence</th>
+              <th>Save to</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {this.getRankedTriageResults().map(row => (
+              <tr key={row.projectSlug}>
+                <td>
+                  <div className="ra-table-project">{row.projectName}</div>
+                  {row.result?.insights[0] && <div className="ra-table-insight">{row.result.insights[0]}</div>}
+                  {row.error && <div className="ra-table-error">{row.error}</div>}
+                </td>
+                <td>
+                  {row.result ? (
+                    <>
+                      <span className={`ra-rec-badge ra-rec-${row.result.recommendation}`}>{row.result.recommendation}</span>
+                      {row.cached && <span className="ra-cache-badge">Cached</span>}
+                    </>
+                  ) : (
+                    <span className="ra-table-status">{row.status === 'running' ? 'Analyzing...' : row.status}</span>
+                  )}
+                </td>
+                <td>{row.result ? `${Math.round(row.result.confidence * 100)}%` : '–'}</td>
+                <td>
+                  <select
+                    value={row.saveAction || ''}
+                    disabled={!row.result || isSaving || isLoading}
+                    onChange={(e) => {
+                      const saveAction = (e.target.value || null) as ProjectTriageResult['saveAction'];
+                      this.setState(prev => ({
+                        multiProjectResults: prev.multiProjectResults.map(r => r.projectSlug === row.projectSlug ? { ...r, saveAction } : r)
+                      }));
+                    }}
+                  >
+                    <option value="">Don't save</option>
+                    <option value="integrate">{this.getOutputRoutes(row.projectSlug).integrate.path}</option>
+                    <option value="save">{this.getOutputRoutes(row.projectSlug).save.path}</option>
+                  </select>
+                </td>
+                <td>
+                  <button
+                    className="ra-link-button"
+                    onClick={() => this.openProjectResult(row)}
+                    disabled={!row.result || isLoading}
+                  >
+                    Details
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="ra-actions">
+          <button
+            className="ra-button ra-button-success"
+            onClick={this.handleMultiProjectSave}
+            disabled={isSaving || isLoading || saveCount === 0}
+          >
+            {isSaving ? 'Saving...' : `Save to ${saveCount} project${saveCount !== 1 ? 's' : ''}`}
+          </button>
+          <button
+            className="ra-button ra-button-muted"
+            onClick={() => this.handleAction('dismiss')}
+            disabled={isSaving || isLoading}
+          >
+            Dismiss
+          </button>
+        </div>
       </div>
     );
   }
 
   private renderChat(): JSX.Element | null {
-    const { analysisResult, chatMessages, chatInput, isChatLoading } = this.state;
+    const { analysisResult, chatMessages, chatInput, isChatLoading, streamingChatReply } = this.state;
     if (!analysisResult) return null;
 
     return (
@@ -799,7 +4399,11 @@ ${analysisResult.insights.map(i => `- ${i}`).join('\n')}
           {isChatLoading && (
             <div className="ra-chat-message ra-chat-assistant">
               <span className="ra-chat-role">Assistant:</span>
-              <span className="ra-chat-content ra-chat-loading">Thinking...</span>
+              {streamingChatReply ? (
+                <span className="ra-chat-content">{streamingChatReply}</span>
+              ) : (
+                <span className="ra-chat-content ra-chat-loading">Thinking...</span>
+              )}
             </div>
           )}
         </div>
@@ -834,13 +4438,58 @@ ${analysisResult.insights.map(i => `- ${i}`).join('\n')}
 
   render(): JSX.Element {
     const { currentTheme, error } = this.state;
+    const lastSave = this.state.undoEntryId ? this.state.recentSaves.find(e => e.id === this.state.undoEntryId) : undefined;
 
     return (
       <ErrorBoundary>
         <div className={`research-assistant ${currentTheme === 'dark' ? 'dark-theme' : ''}`}>
           <div className="ra-header">
-            <h3>Research Assistant</h3>
-            <p>Analyze articles for relevance to your projects</p>
+            <div className="ra-header-row">
+              <div>
+                <h3>Research Assistant</h3>
+                <p>Analyze articles for relevance to your projects</p>
+              </div>
+              <div className="ra-header-actions">
+                <button
+                  className="ra-button ra-button-muted"
+                  onClick={() => this.setState(prev => ({ showFeeds: !prev.showFeeds }))}
+                >
+                  {this.state.showFeeds
+                    ? 'Hide Feeds'
+                    : `Feeds (${this.state.feedItems.filter(item => item.status === 'done' && !item.opened).length})`}
+                </button>
+                <button
+                  className="ra-button ra-button-muted"
+                  onClick={() => this.setState(prev => ({ showDigest: !prev.showDigest }))}
+                >
+                  {this.state.showDigest ? 'Hide Digest' : 'Digest'}
+                </button>
+                <button
+                  className="ra-button ra-button-muted"
+                  onClick={() => this.setState(prev => ({ showQueue: !prev.showQueue }))}
+                >
+                  {this.state.showQueue ? 'Hide Queue' : `Queue (${this.state.queue.length})`}
+                </button>
+                <button
+                  className="ra-button ra-button-muted"
+                  onClick={() => this.setState(prev => ({ showTemplates: !prev.showTemplates }))}
+                >
+                  {this.state.showTemplates ? 'Hide Templates' : 'Templates'}
+                </button>
+                <button
+                  className="ra-button ra-button-muted"
+                  onClick={() => this.setState(prev => ({ showRecentSaves: !prev.showRecentSaves }))}
+                >
+                  {this.state.showRecentSaves ? 'Hide Recent Saves' : `Recent Saves (${this.state.recentSaves.length})`}
+                </button>
+                <button
+                  className="ra-button ra-button-muted"
+                  onClick={() => this.setState(prev => ({ showHistory: !prev.showHistory }))}
+                >
+                  {this.state.showHistory ? 'Hide History' : `History (${this.state.triageHistory.length})`}
+                </button>
+              </div>
+            </div>
           </div>
 
           {error && (
@@ -853,15 +4502,189 @@ ${analysisResult.insights.map(i => `- ${i}`).join('\n')}
           {this.state.saveSuccess && (
             <div className="ra-success">
               {this.state.saveSuccess}
-              <button onClick={() => this.setState({ saveSuccess: '' })}>Dismiss</button>
+              <div className="ra-success-actions">
+                {this.state.undoEntryId && (
+                  <button onClick={this.handleUndoSave} disabled={this.state.isSaving}>Undo</button>
+                )}
+                {lastSave?.action === 'integrate' && (
+                  <button onClick={() => this.handleProposeTasks(lastSave)} disabled={this.state.isSaving}>
+                    Plan Tasks
+                  </button>
+                )}
+                <button onClick={() => this.setState({ saveSuccess: '' })}>Dismiss</button>
+              </div>
             </div>
           )}
 
+          {this.state.showTemplates && (
+            <PromptTemplatesPanel
+              templates={this.state.promptTemplates}
+              projects={this.state.projects}
+              projectTemplateIds={this.state.projectTemplateIds}
+              onSave={this.handleSaveTemplate}
+              onDelete={this.handleDeleteTemplate}
+              onSetProjectDefault={this.handleSetProjectTemplate}
+              onClose={() => this.setState({ showTemplates: false })}
+            />
+          )}
+
+          {this.state.showRoutes && (
+            <OutputRoutesPanel
+              projects={this.state.projects}
+              initialProject={this.state.selectedProject}
+              defaults={routesFromConfig(this.props.config)}
+              projectRoutes={this.state.projectRoutes}
+              onSave={this.handleSaveProjectRoutes}
+              onReset={this.handleResetProjectRoutes}
+              onClose={() => this.setState({ showRoutes: false })}
+            />
+          )}
+
+          {this.state.showRecentSaves && (
+            <RecentSavesPanel
+              entries={this.state.recentSaves}
+              projects={this.state.projects}
+              getMoveTargets={(projectSlug) => this.getMoveTargets(projectSlug)}
+              isSaving={this.state.isSaving}
+              onMove={this.handleMoveSavedEntry}
+              onRemove={this.handleRemoveSavedEntry}
+              onPlanTasks={this.handleProposeTasks}
+              onExportBibtex={(entry) => entry.citation && this.handleExportBibtex(entry.citation)}
+              onClose={() => this.setState({ showRecentSaves: false })}
+            />
+          )}
+
+          {this.state.showReportExport && (
+            <ReportExportDialog
+              records={this.state.triageHistory}
+              isHistoryFull={this.historyService.isFull()}
+              projects={this.state.projects}
+              initialProject={this.state.selectedProject}
+              isSaving={this.state.isSaving}
+              error={error}
+              onDownload={this.handleDownloadReport}
+              onSaveToProject={this.handleSaveReport}
+              onCancel={() => this.setState({ showReportExport: false, error: '' })}
+            />
+          )}
+
+          {this.state.specProposal && (
+            <SpecDiffDialog
+              proposal={this.state.specProposal}
+              isSaving={this.state.isSaving}
+              error={error}
+              onConfirm={this.handleConfirmSpecChanges}
+              onRetry={this.handleProposeSpecChanges}
+              onCancel={() => {
+                this.specRequestToken = null;
+                this.setState({ specProposal: null, error: '' });
+              }}
+            />
+          )}
+
+          {this.state.taskProposal && (
+            <BuildPlanTasksDialog
+              sourceTitle={this.state.taskProposal.entry.title}
+              targetPath={`${this.state.taskProposal.entry.projectSlug}/build-plan.md`}
+              phases={this.state.taskProposal.phases}
+              tasks={this.state.taskProposal.tasks}
+              isSaving={this.state.isSaving}
+              error={error}
+              onConfirm={this.handleConfirmTasks}
+              onRetry={() => this.state.taskProposal && this.handleProposeTasks(this.state.taskProposal.entry)}
+              onCancel={() => this.setState({ taskProposal: null, error: '' })}
+            />
+          )}
+
+          {this.state.saveDraft && (
+            <SavePreviewDialog
+              draft={this.state.saveDraft}
+              getTargetPath={(draft) => this.describeSaveTarget(this.state.selectedProject, draft)}
+              formatContent={(draft) => this.formatSaveContent(draft)}
+              chatMessageCount={this.state.chatMessages.length}
+              isSaving={this.state.isSaving}
+              error={error}
+              onConfirm={this.handleConfirmSave}
+              onCancel={() => this.setState({ saveDraft: null, error: '' })}
+            />
+          )}
+
+          {this.state.showFeeds && (
+            <FeedInboxPanel
+              subscriptions={this.state.feedSubscriptions}
+              items={this.state.feedItems}
+              projects={this.state.projects}
+              selectedProject={this.state.selectedProject}
+              isRefreshing={this.state.isRefreshingFeeds}
+              onAddFeed={this.handleAddFeed}
+              onImportFile={this.handleImportFeedFile}
+              onRemoveFeed={this.handleRemoveFeed}
+              onRefresh={this.refreshFeeds}
+              onOpen={this.handleOpenFeedItem}
+              onDismiss={this.handleDismissFeedItem}
+              onRetry={this.handleRetryFeedItem}
+              onClose={() => this.setState({ showFeeds: false })}
+            />
+          )}
+
+          {this.state.showDigest && (
+            <DigestPanel
+              projects={this.state.projects}
+              selectedProject={this.state.selectedProject}
+              digest={this.state.digest}
+              isGenerating={this.state.isGeneratingDigest}
+              hasModel={!!this.state.selectedModel}
+              onLoad={this.handleLoadDigest}
+              onGenerate={this.handleGenerateDigest}
+              onClose={() => this.setState({ showDigest: false })}
+            />
+          )}
+
+          {this.state.showQueue && (
+            <TriageQueuePanel
+              items={this.state.queue}
+              cursor={this.state.queueCursor}
+              concurrency={this.state.queueConcurrency}
+              isRunning={this.state.isQueueRunning}
+              isSaving={this.state.isSaving}
+              projectName={this.state.projects.find(p => p.slug === this.state.selectedProject)?.name || ''}
+              modelName={this.state.selectedModel?.name || ''}
+              enabledActions={(projectSlug) => (['integrate', 'save', 'skip'] as RouteAction[])
+                .filter(action => this.getOutputRoutes(projectSlug)[action].enabled)}
+              onAddText={this.handleQueueAddText}
+              onAddFiles={this.handleQueueAddFiles}
+              onAddUrls={this.handleQueueAddUrls}
+              onStart={this.handleQueueStart}
+              onStop={this.handleQueueStop}
+              onConcurrencyChange={(queueConcurrency) => this.setState({ queueConcurrency })}
+              onCursorChange={(queueCursor) => this.setState({ queueCursor })}
+              onDecision={(id, decision) => this.updateQueueItem(id, { decision })}
+              onOpen={this.handleQueueOpen}
+              onRemove={this.handleQueueRemove}
+              onClearFinished={this.handleQueueClearFinished}
+              onApply={this.handleQueueApply}
+              onClose={() => this.setState({ showQueue: false })}
+            />
+          )}
+
+          {this.state.showHistory && (
+            <TriageHistoryPanel
+              records={this.state.triageHistory}
+              projects={this.state.projects}
+              onOpen={this.handleOpenHistoryRecord}
+              onDelete={this.handleDeleteHistoryRecord}
+              onExport={() => this.setState({ showReportExport: true, error: '' })}
+              onClose={() => this.setState({ showHistory: false })}
+            />
+          )}
+
           {this.renderArticleInput()}
           {this.renderProjectSelector()}
           {this.renderModelSelector()}
           {this.renderAnalyzeButton()}
+          {this.renderModelComparison()}
           {this.renderAnalysisResult()}
+          {this.renderMultiProjectResults()}
           {this.renderChat()}
         </div>
       </ErrorBoundary>
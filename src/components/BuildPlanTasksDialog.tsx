@@ -0,0 +1,123 @@
+import React from 'react';
+import { ProposedTask } from '../types';
+import { FALLBACK_SECTION } from '../utils/buildPlan';
+
+interface BuildPlanTasksDialogProps {
+  sourceTitle: string;
+  targetPath: string;                // e.g. "my-project/build-plan.md"
+  phases: string[];                  // Section heading lines of build-plan.md
+  tasks: ProposedTask[] | null;      // null while the proposals are loading
+  isSaving: boolean;
+  error: string;
+  onConfirm: (tasks: ProposedTask[]) => void;
+  onRetry: () => void;
+  onCancel: () => void;
+}
+
+const headingText = (heading: string) => heading.replace(/^#+\s*/, '');
+
+/**
+ * Review the tasks proposed for an integrated finding: tick the ones to keep,
+ * edit them and pick the build-plan phase each goes under
+ */
+const BuildPlanTasksDialog: React.FC<BuildPlanTasksDialogProps> = ({
+  sourceTitle,
+  targetPath,
+  phases,
+  tasks: proposedTasks,
+  isSaving,
+  error,
+  onConfirm,
+  onRetry,
+  onCancel
+}) => {
+  const [tasks, setTasks] = React.useState<ProposedTask[]>(proposedTasks || []);
+
+  React.useEffect(() => {
+    setTasks(proposedTasks || []);
+  }, [proposedTasks]);
+
+  const updateTask = (id: string, changes: Partial<ProposedTask>) => {
+    setTasks(prev => prev.map(task => (task.id === id ? { ...task, ...changes } : task)));
+  };
+
+  const accepted = tasks.filter(task => task.accepted && task.title.trim());
+
+  return (
+    <div className="ra-dialog-backdrop">
+      <div className="ra-dialog ra-plan-tasks" role="dialog" aria-modal="true" aria-labelledby="ra-plan-tasks-title">
+        <div className="ra-dialog-header">
+          <h4 id="ra-plan-tasks-title">Build-plan tasks</h4>
+          <span className="ra-save-preview-target">
+            From "{sourceTitle}" into <code>{targetPath}</code>
+          </span>
+        </div>
+
+        {proposedTasks === null ? (
+          <p className="ra-save-preview-empty">Proposing tasks from the finding and the current build plan...</p>
+        ) : tasks.length === 0 ? (
+          <p className="ra-save-preview-empty">No tasks were proposed.</p>
+        ) : (
+          <ul className="ra-plan-tasks-list">
+            {tasks.map(task => (
+              <li key={task.id} className={`ra-plan-task ${task.accepted ? '' : 'ra-plan-task-rejected'}`}>
+                <input
+                  type="checkbox"
+                  checked={task.accepted}
+                  onChange={(e) => updateTask(task.id, { accepted: e.target.checked })}
+                  disabled={isSaving}
+                  aria-label={`Accept "${task.title}"`}
+                />
+                <div className="ra-plan-task-fields">
+                  <input
+                    type="text"
+                    value={task.title}
+                    onChange={(e) => updateTask(task.id, { title: e.target.value })}
+                    disabled={isSaving || !task.accepted}
+                  />
+                  <textarea
+                    value={task.detail}
+                    onChange={(e) => updateTask(task.id, { detail: e.target.value })}
+                    rows={2}
+                    placeholder="Details (optional)"
+                    disabled={isSaving || !task.accepted}
+                  />
+                  <select
+                    value={task.phase}
+                    onChange={(e) => updateTask(task.id, { phase: e.target.value })}
+                    disabled={isSaving || !task.accepted}
+                  >
+                    {phases.map(phase => <option key={phase} value={phase}>{headingText(phase)}</option>)}
+                    <option value="">New section: {headingText(FALLBACK_SECTION)}</option>
+                  </select>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {error && <div className="ra-error">{error}</div>}
+
+        <div className="ra-actions">
+          <button
+            className="ra-button ra-button-success"
+            onClick={() => onConfirm(accepted.map(task => ({ ...task, title: task.title.trim(), detail: task.detail.trim() })))}
+            disabled={isSaving || accepted.length === 0}
+          >
+            {isSaving ? 'Adding...' : `Add ${accepted.length} Task${accepted.length !== 1 ? 's' : ''}`}
+          </button>
+          {proposedTasks !== null && (
+            <button className="ra-button ra-button-secondary" onClick={onRetry} disabled={isSaving}>
+              Propose Again
+            </button>
+          )}
+          <button className="ra-button ra-button-muted" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BuildPlanTasksDialog;
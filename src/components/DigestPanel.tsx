@@ -0,0 +1,101 @@
+import React from 'react';
+import { Project, ProjectDigest } from '../types';
+import { formatWeek } from '../utils/digest';
+import { localDate } from '../utils/reports';
+
+interface DigestPanelProps {
+  projects: Project[];
+  selectedProject: string;
+  digest: ProjectDigest | null;
+  isGenerating: boolean;
+  hasModel: boolean;
+  onLoad: (projectSlug: string, date: Date) => void;
+  onGenerate: (projectSlug: string, since: string) => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Weekly digests of a project: browse the digests/ files week by week and
+ * write this week's from the entries saved since a date
+ */
+const DigestPanel: React.FC<DigestPanelProps> = ({
+  projects,
+  selectedProject,
+  digest,
+  isGenerating,
+  hasModel,
+  onLoad,
+  onGenerate,
+  onClose
+}) => {
+  const [projectSlug, setProjectSlug] = React.useState(selectedProject);
+  const [weekOffset, setWeekOffset] = React.useState(0);
+  const [since, setSince] = React.useState(() => localDate(new Date(Date.now() - 7 * DAY_MS).toISOString()));
+
+  const weekDate = new Date(Date.now() + weekOffset * 7 * DAY_MS);
+  const isShown = digest?.projectSlug === projectSlug && digest.path === `digests/${formatWeek(weekDate)}.md`;
+
+  React.useEffect(() => {
+    if (projectSlug) onLoad(projectSlug, weekDate);
+  }, [projectSlug, weekOffset]);
+
+  const handleGenerate = () => {
+    // The digest is written for the current week
+    setWeekOffset(0);
+    onGenerate(projectSlug, since);
+  };
+
+  return (
+    <div className="ra-section ra-history ra-digest">
+      <div className="ra-history-header">
+        <h4>Research Digest</h4>
+        <button className="ra-link-button" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="ra-history-filters">
+        <select value={projectSlug} onChange={(e) => setProjectSlug(e.target.value)}>
+          <option value="">Choose a project...</option>
+          {projects.map(project => (
+            <option key={project.slug} value={project.slug}>{project.name}</option>
+          ))}
+        </select>
+        <label className="ra-digest-since">
+          Entries since
+          <input type="date" value={since} onChange={(e) => setSince(e.target.value)} />
+        </label>
+        <button
+          className="ra-button ra-button-secondary"
+          onClick={handleGenerate}
+          disabled={!projectSlug || !since || !hasModel || isGenerating}
+          title={hasModel ? `Write digests/${formatWeek(new Date())}.md` : 'Select a model to write the digest with'}
+        >
+          {isGenerating ? 'Writing digest...' : 'Generate Digest'}
+        </button>
+      </div>
+
+      {projectSlug && (
+        <div className="ra-digest-nav">
+          <button className="ra-link-button" onClick={() => setWeekOffset(weekOffset - 1)}>Previous week</button>
+          <code>digests/{formatWeek(weekDate)}.md</code>
+          <button className="ra-link-button" onClick={() => setWeekOffset(weekOffset + 1)} disabled={weekOffset >= 0}>
+            Next week
+          </button>
+        </div>
+      )}
+
+      {!projectSlug ? (
+        <p className="ra-history-empty">Choose a project to see its digests.</p>
+      ) : isShown && digest?.content ? (
+        <pre className="ra-digest-content">{digest.content}</pre>
+      ) : (
+        <p className="ra-history-empty">
+          {isShown ? 'No digest was written for this week.' : 'Loading...'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DigestPanel;
@@ -0,0 +1,204 @@
+import React from 'react';
+import { FeedSubscription, FeedItem, Project } from '../types';
+import { formatDate } from '../utils';
+import { sortFeedInbox } from '../utils/feeds';
+
+interface FeedInboxPanelProps {
+  subscriptions: FeedSubscription[];
+  items: FeedItem[];
+  projects: Project[];
+  selectedProject: string;           // Project new feeds are added to
+  isRefreshing: boolean;
+  onAddFeed: (url: string) => void;
+  onImportFile: (file: File) => void;
+  onRemoveFeed: (id: string) => void;
+  onRefresh: () => void;
+  onOpen: (item: FeedItem) => void;
+  onDismiss: (item: FeedItem) => void;
+  onRetry: (item: FeedItem) => void;
+  onClose: () => void;
+}
+
+/**
+ * Feed subscriptions per project and the inbox of their entries, analyzed in
+ * the background and ranked by recommendation and confidence
+ */
+const FeedInboxPanel: React.FC<FeedInboxPanelProps> = ({
+  subscriptions,
+  items,
+  projects,
+  selectedProject,
+  isRefreshing,
+  onAddFeed,
+  onImportFile,
+  onRemoveFeed,
+  onRefresh,
+  onOpen,
+  onDismiss,
+  onRetry,
+  onClose
+}) => {
+  const [feedUrl, setFeedUrl] = React.useState('');
+  const [projectFilter, setProjectFilter] = React.useState(selectedProject);
+  const [showSubscriptions, setShowSubscriptions] = React.useState(subscriptions.length === 0);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const projectName = (slug: string) => projects.find(p => p.slug === slug)?.name || slug;
+  const feedTitle = (id: string) => subscriptions.find(s => s.id === id)?.title || 'Removed feed';
+
+  const inbox = sortFeedInbox(items.filter(item => !projectFilter || item.projectSlug === projectFilter));
+  const projectSubscriptions = subscriptions.filter(s => !projectFilter || s.projectSlug === projectFilter);
+  const pending = items.filter(item => item.status === 'pending' || item.status === 'analyzing').length;
+
+  const handleAdd = () => {
+    onAddFeed(feedUrl.trim());
+    setFeedUrl('');
+  };
+
+  return (
+    <div className="ra-section ra-history ra-feeds">
+      <div className="ra-history-header">
+        <h4>Feed Inbox</h4>
+        <button className="ra-link-button" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="ra-history-filters">
+        <select value={projectFilter} onChange={(e) => setProjectFilter(e.target.value)}>
+          <option value="">All projects</option>
+          {projects.map(project => (
+            <option key={project.slug} value={project.slug}>{project.name}</option>
+          ))}
+        </select>
+        <button className="ra-link-button" onClick={() => setShowSubscriptions(!showSubscriptions)}>
+          {showSubscriptions ? 'Hide feeds' : `Feeds (${projectSubscriptions.length})`}
+        </button>
+        <button
+          className="ra-button ra-button-secondary"
+          onClick={onRefresh}
+          disabled={isRefreshing || !subscriptions.some(s => s.url)}
+        >
+          {isRefreshing ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {showSubscriptions && (
+        <div className="ra-feed-subscriptions">
+          {projectSubscriptions.length === 0 ? (
+            <p className="ra-history-empty">No feeds yet.</p>
+          ) : (
+            <ul className="ra-history-list">
+              {projectSubscriptions.map(subscription => (
+                <li key={subscription.id} className="ra-history-item">
+                  <div className="ra-history-item-main">
+                    <div className="ra-queue-title">{subscription.title}</div>
+                    <div className="ra-history-meta">
+                      {projectName(subscription.projectSlug)} · {subscription.url || 'Imported from a file'}
+                      {subscription.lastFetchedAt && ` · checked ${formatDate(subscription.lastFetchedAt)}`}
+                    </div>
+                    {subscription.lastError && (
+                      <div className="ra-history-meta ra-table-error">{subscription.lastError}</div>
+                    )}
+                  </div>
+                  <div className="ra-history-item-side">
+                    <button className="ra-link-button" onClick={() => onRemoveFeed(subscription.id)}>
+                      Unsubscribe
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="ra-feed-add">
+            <input
+              type="url"
+              value={feedUrl}
+              onChange={(e) => setFeedUrl(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && feedUrl.trim() && selectedProject) handleAdd();
+              }}
+              placeholder="RSS or Atom feed URL"
+              disabled={!selectedProject}
+            />
+            <button className="ra-button ra-button-secondary" onClick={handleAdd} disabled={!feedUrl.trim() || !selectedProject}>
+              Subscribe
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".xml,.rss,.atom,application/xml,application/rss+xml,application/atom+xml,text/xml"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) onImportFile(file);
+              }}
+              hidden
+            />
+            <button className="ra-link-button" onClick={() => fileInputRef.current?.click()} disabled={!selectedProject}>
+              Import XML file...
+            </button>
+          </div>
+          <p className="ra-checklist-hint">
+            {selectedProject
+              ? `New feeds are added to ${projectName(selectedProject)}; their entries are analyzed against it.`
+              : 'Select a project to add feeds to it.'}
+          </p>
+        </div>
+      )}
+
+      {pending > 0 && (
+        <p className="ra-history-meta">{pending} entr{pending !== 1 ? 'ies' : 'y'} waiting for analysis...</p>
+      )}
+
+      {inbox.length === 0 ? (
+        <p className="ra-history-empty">
+          {subscriptions.length === 0 ? 'Subscribe to a feed to fill the inbox.' : 'No new entries.'}
+        </p>
+      ) : (
+        <ul className="ra-history-list ra-feed-inbox">
+          {inbox.map(item => (
+            <li key={item.id} className={`ra-history-item ${item.opened ? 'ra-feed-opened' : ''}`}>
+              <div className="ra-history-item-main">
+                <button className="ra-history-title" onClick={() => onOpen(item)} disabled={item.status !== 'done'}>
+                  {item.title}
+                </button>
+                <div className="ra-history-meta">
+                  {feedTitle(item.feedId)}
+                  {!projectFilter && ` · ${projectName(item.projectSlug)}`}
+                  {item.publishedAt && ` · ${formatDate(item.publishedAt)}`}
+                  {item.link && (
+                    <>
+                      {' · '}
+                      <a href={item.link} target="_blank" rel="noopener noreferrer">link</a>
+                    </>
+                  )}
+                </div>
+                {item.result && <div className="ra-history-meta">{item.result.insights[0]}</div>}
+                {item.status === 'error' && <div className="ra-history-meta ra-table-error">{item.error}</div>}
+              </div>
+              <div className="ra-history-item-side">
+                {item.result ? (
+                  <span className={`ra-rec-badge ra-rec-${item.result.recommendation}`}>
+                    {item.result.recommendation} · {Math.round(item.result.confidence * 100)}%
+                  </span>
+                ) : (
+                  <span className="ra-history-action">
+                    {item.status === 'analyzing' ? 'Analyzing...' : item.status === 'error' ? 'Failed' : 'Waiting'}
+                  </span>
+                )}
+                {item.status === 'error' && (
+                  <button className="ra-link-button" onClick={() => onRetry(item)}>Retry</button>
+                )}
+                {item.status !== 'analyzing' && (
+                  <button className="ra-link-button" onClick={() => onDismiss(item)}>Dismiss</button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FeedInboxPanel;
@@ -0,0 +1,161 @@
+import React from 'react';
+import { OutputRoute, OutputRoutes, Project, RouteAction } from '../types';
+import { ROUTE_ACTIONS, DEFAULT_NOTE_INDEX_PATH, mergeRoutes, resolveRoutePath, validateRoute } from '../utils/outputRouting';
+
+interface OutputRoutesPanelProps {
+  projects: Project[];
+  initialProject: string;
+  defaults: OutputRoutes;                                   // Module-wide routes from the plugin config
+  projectRoutes: Record<string, Partial<OutputRoutes>>;
+  onSave: (projectSlug: string, routes: OutputRoutes) => void;
+  onReset: (projectSlug: string) => void;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<RouteAction, string> = {
+  integrate: 'Integrate Now',
+  save: 'Save for Future',
+  skip: 'Skipped'
+};
+
+/**
+ * Edit where each recommendation's entry is written, per project
+ */
+const OutputRoutesPanel: React.FC<OutputRoutesPanelProps> = ({
+  projects,
+  initialProject,
+  defaults,
+  projectRoutes,
+  onSave,
+  onReset,
+  onClose
+}) => {
+  const [projectSlug, setProjectSlug] = React.useState(initialProject || projects[0]?.slug || '');
+  const [draft, setDraft] = React.useState<OutputRoutes>(() => mergeRoutes(defaults, projectRoutes[projectSlug]));
+
+  const selectProject = (slug: string) => {
+    setProjectSlug(slug);
+    setDraft(mergeRoutes(defaults, projectRoutes[slug]));
+  };
+
+  const updateRoute = (action: RouteAction, changes: Partial<OutputRoute>) => {
+    setDraft(prev => ({ ...prev, [action]: { ...prev[action], ...changes } }));
+  };
+
+  const errors = ROUTE_ACTIONS.map(action => validateRoute(draft[action])).filter(Boolean);
+  const isCustomized = Boolean(projectRoutes[projectSlug]);
+  const today = new Date().toISOString().split('T')[0];
+
+  if (projects.length === 0) {
+    return (
+      <div className="ra-section ra-history ra-routes">
+        <div className="ra-history-header">
+          <h4>Output Routing</h4>
+          <button className="ra-link-button" onClick={onClose}>Close</button>
+        </div>
+        <p className="ra-history-empty">No projects available.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="ra-section ra-history ra-routes">
+      <div className="ra-history-header">
+        <h4>Output Routing</h4>
+        <button className="ra-link-button" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="ra-routes-project">
+        <select value={projectSlug} onChange={(e) => selectProject(e.target.value)}>
+          {projects.map(p => <option key={p.slug} value={p.slug}>{p.name}</option>)}
+        </select>
+        <span className="ra-routes-hint">{isCustomized ? 'Custom rules' : 'Using the default rules'}</span>
+      </div>
+
+      {ROUTE_ACTIONS.map(action => {
+        const route = draft[action];
+        const error = validateRoute(route);
+        const example = resolveRoutePath(route.path, { date: today, title: 'Example Article Title', project: projectSlug });
+
+        return (
+          <div key={action} className={`ra-route ${route.enabled ? '' : 'ra-route-disabled'}`}>
+            <label className="ra-route-toggle">
+              <input
+                type="checkbox"
+                checked={route.enabled}
+                onChange={(e) => updateRoute(action, { enabled: e.target.checked })}
+              />
+              {ACTION_LABELS[action]}
+            </label>
+
+            {route.enabled && (
+              <div className="ra-route-fields">
+                <select
+                  value={route.mode}
+                  onChange={(e) => updateRoute(action, { mode: e.target.value as OutputRoute['mode'] })}
+                >
+                  <option value="append">Append to file</option>
+                  <option value="new-file">New file per article</option>
+                  <option value="note">Note per article (frontmatter + index line)</option>
+                </select>
+                <input
+                  type="text"
+                  value={route.path}
+                  onChange={(e) => updateRoute(action, { path: e.target.value })}
+                  placeholder={route.mode === 'append' ? 'research-findings.md' : 'research/{date}-{slug}.md'}
+                />
+                {route.mode === 'append' && (
+                  <input
+                    type="text"
+                    value={route.heading || ''}
+                    onChange={(e) => updateRoute(action, { heading: e.target.value || undefined })}
+                    placeholder='Under heading (optional), e.g. "## Reading list"'
+                  />
+                )}
+                {route.mode === 'note' && (
+                  <input
+                    type="text"
+                    value={route.indexPath ?? DEFAULT_NOTE_INDEX_PATH}
+                    onChange={(e) => updateRoute(action, { indexPath: e.target.value })}
+                    placeholder="Index file (leave empty for no index line)"
+                    title="File that gets a line linking to each note"
+                  />
+                )}
+                <div className="ra-routes-hint">
+                  {error ? <span className="ra-warning">{error}</span> : <>e.g. <code>{example}</code></>}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <p className="ra-routes-hint">
+        Paths are relative to the project folder and can use <code>{'{date}'}</code>, <code>{'{slug}'}</code> (from the entry title) and <code>{'{project}'}</code>.
+      </p>
+
+      <div className="ra-actions">
+        <button
+          className="ra-button ra-button-success"
+          onClick={() => onSave(projectSlug, draft)}
+          disabled={errors.length > 0}
+        >
+          Save Rules
+        </button>
+        {isCustomized && (
+          <button
+            className="ra-button ra-button-muted"
+            onClick={() => {
+              onReset(projectSlug);
+              setDraft(defaults);
+            }}
+          >
+            Reset to Defaults
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OutputRoutesPanel;
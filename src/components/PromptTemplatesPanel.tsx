@@ -0,0 +1,184 @@
+import React from 'react';
+import { PromptTemplate, Project } from '../types';
+import { generateId, formatDate } from '../utils';
+import { PROMPT_VARIABLES, DEFAULT_TEMPLATE_ID, findUnknownVariables } from '../utils/promptTemplates';
+
+interface PromptTemplatesPanelProps {
+  templates: PromptTemplate[];
+  projects: Project[];
+  projectTemplateIds: Record<string, string>;
+  onSave: (template: PromptTemplate) => void;
+  onDelete: (id: string) => void;
+  onSetProjectDefault: (projectSlug: string, templateId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Create, edit and delete prompt templates, and choose each project's default
+ */
+const PromptTemplatesPanel: React.FC<PromptTemplatesPanelProps> = ({
+  templates,
+  projects,
+  projectTemplateIds,
+  onSave,
+  onDelete,
+  onSetProjectDefault,
+  onClose
+}) => {
+  const [selectedId, setSelectedId] = React.useState(templates[0]?.id || DEFAULT_TEMPLATE_ID);
+  const [draft, setDraft] = React.useState<PromptTemplate | null>(null);
+
+  const selected = templates.find(t => t.id === selectedId) || templates[0];
+  // The draft is either an edit of the selected template or a new (unsaved) one
+  const editing = draft && (draft.id === selected?.id || !templates.some(t => t.id === draft.id)) ? draft : null;
+  const current = editing || selected;
+  const readOnly = !editing && Boolean(current?.builtIn);
+
+  const update = (changes: Partial<PromptTemplate>) => {
+    setDraft({ ...current, ...changes });
+  };
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setDraft(null);
+  };
+
+  const handleDuplicate = () => {
+    setDraft({
+      ...current,
+      id: generateId(),
+      name: `${current.name} (copy)`,
+      builtIn: false,
+      version: 0,
+      updatedAt: ''
+    });
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    onSave({ ...editing, name: editing.name.trim() || 'Untitled template' });
+    setSelectedId(editing.id);
+    setDraft(null);
+  };
+
+  const handleDelete = () => {
+    if (!current || current.builtIn) return;
+    const usedBy = projects.filter(p => projectTemplateIds[p.slug] === current.id).map(p => p.name);
+    const message = usedBy.length > 0
+      ? `Delete "${current.name}"? ${usedBy.join(', ')} will go back to the default template.`
+      : `Delete "${current.name}"?`;
+    if (!window.confirm(message)) return;
+    onDelete(current.id);
+    handleSelect(DEFAULT_TEMPLATE_ID);
+  };
+
+  if (!current) return null;
+
+  const unknownAnalysis = findUnknownVariables(current.analysisPrompt, false);
+  const unknownChat = findUnknownVariables(current.chatPrompt, true);
+  const isNew = editing !== null && !templates.some(t => t.id === editing.id);
+
+  return (
+    <div className="ra-section ra-history ra-templates">
+      <div className="ra-history-header">
+        <h4>Prompt Templates</h4>
+        <button className="ra-link-button" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="ra-templates-toolbar">
+        <select value={isNew ? '' : current.id} onChange={(e) => handleSelect(e.target.value)}>
+          {isNew && <option value="">{editing?.name} (unsaved)</option>}
+          {templates.map(t => (
+            <option key={t.id} value={t.id}>{t.name}{t.builtIn ? ' (built-in)' : ''} · v{t.version}</option>
+          ))}
+        </select>
+        <button className="ra-link-button" onClick={handleDuplicate}>Duplicate</button>
+        {!current.builtIn && !isNew && (
+          <button className="ra-link-button" onClick={handleDelete}>Delete</button>
+        )}
+      </div>
+
+      {readOnly && (
+        <p className="ra-templates-hint">The built-in template can't be edited. Duplicate it to make your own.</p>
+      )}
+      {!readOnly && !isNew && current.updatedAt && (
+        <p className="ra-templates-hint">Version {current.version}, last edited {formatDate(current.updatedAt)}</p>
+      )}
+
+      <label htmlFor="ra-template-name">Name</label>
+      <input
+        id="ra-template-name"
+        type="text"
+        value={current.name}
+        onChange={(e) => update({ name: e.target.value })}
+        disabled={readOnly}
+      />
+
+      <label htmlFor="ra-template-analysis">Analysis prompt</label>
+      <textarea
+        id="ra-template-analysis"
+        value={current.analysisPrompt}
+        onChange={(e) => update({ analysisPrompt: e.target.value })}
+        rows={10}
+        disabled={readOnly}
+      />
+      <p className="ra-templates-hint">The JSON response format is added after this prompt automatically.</p>
+      {unknownAnalysis.length > 0 && (
+        <p className="ra-warning">Unknown variables: {unknownAnalysis.map(v => `{{${v}}}`).join(', ')}</p>
+      )}
+
+      <label htmlFor="ra-template-chat">Chat prompt</label>
+      <textarea
+        id="ra-template-chat"
+        value={current.chatPrompt}
+        onChange={(e) => update({ chatPrompt: e.target.value })}
+        rows={6}
+        disabled={readOnly}
+      />
+      {unknownChat.length > 0 && (
+        <p className="ra-warning">Unknown variables: {unknownChat.map(v => `{{${v}}}`).join(', ')}</p>
+      )}
+
+      <details className="ra-templates-variables">
+        <summary>Available variables</summary>
+        <ul>
+          {PROMPT_VARIABLES.map(v => (
+            <li key={v.name}>
+              <code>{`{{${v.name}}}`}</code> - {v.description}{v.chatOnly ? ' (chat only)' : ''}
+            </li>
+          ))}
+        </ul>
+      </details>
+
+      {editing && (
+        <div className="ra-actions">
+          <button className="ra-button ra-button-success" onClick={handleSave}>
+            {isNew ? 'Create Template' : 'Save Changes'}
+          </button>
+          <button className="ra-button ra-button-muted" onClick={() => setDraft(null)}>
+            Discard
+          </button>
+        </div>
+      )}
+
+      {projects.length > 0 && (
+        <div className="ra-templates-projects">
+          <h5>Project defaults</h5>
+          {projects.map(p => (
+            <div key={p.slug} className="ra-templates-project">
+              <span>{p.name}</span>
+              <select
+                value={projectTemplateIds[p.slug] || DEFAULT_TEMPLATE_ID}
+                onChange={(e) => onSetProjectDefault(p.slug, e.target.value)}
+              >
+                {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplatesPanel;
@@ -0,0 +1,142 @@
+import React from 'react';
+import { SavedEntry, Project } from '../types';
+import { formatDate } from '../utils';
+
+interface RecentSavesPanelProps {
+  entries: SavedEntry[];
+  projects: Project[];
+  getMoveTargets: (projectSlug: string) => string[];   // Files an entry can be moved to in a project
+  isSaving: boolean;
+  onMove: (entry: SavedEntry, projectSlug: string, filename: string) => void;
+  onRemove: (entry: SavedEntry) => void;
+  onPlanTasks: (entry: SavedEntry) => void;     // Propose build-plan tasks from an integrated finding
+  onExportBibtex: (entry: SavedEntry) => void;  // Entries of imported citations only
+  onClose: () => void;
+}
+
+/**
+ * Entries recently saved to the Library, each of which can be removed or (except
+ * for notes, which have their own file) moved to another file or project
+ */
+const RecentSavesPanel: React.FC<RecentSavesPanelProps> = ({
+  entries,
+  projects,
+  getMoveTargets,
+  isSaving,
+  onMove,
+  onRemove,
+  onPlanTasks,
+  onExportBibtex,
+  onClose
+}) => {
+  const [movingId, setMovingId] = React.useState<string | null>(null);
+  const [targetProject, setTargetProject] = React.useState('');
+  const [targetFile, setTargetFile] = React.useState('');
+
+  const projectName = (slug: string) => projects.find(p => p.slug === slug)?.name || slug;
+
+  // The entry's own file stays selectable in its own project
+  const fileOptions = (entry: SavedEntry, projectSlug: string) => {
+    const files = getMoveTargets(projectSlug);
+    return projectSlug === entry.projectSlug && !files.includes(entry.filename) ? [entry.filename, ...files] : files;
+  };
+
+  const startMove = (entry: SavedEntry) => {
+    setMovingId(entry.id);
+    setTargetProject(entry.projectSlug);
+    // Default to another file in the same project, the usual fix for a mis-click
+    const files = fileOptions(entry, entry.projectSlug);
+    setTargetFile(files.find(f => f !== entry.filename) || entry.filename);
+  };
+
+  const changeTargetProject = (entry: SavedEntry, projectSlug: string) => {
+    setTargetProject(projectSlug);
+    const files = fileOptions(entry, projectSlug);
+    if (!files.includes(targetFile)) setTargetFile(files[0] || '');
+  };
+
+  const confirmMove = (entry: SavedEntry) => {
+    setMovingId(null);
+    onMove(entry, targetProject, targetFile);
+  };
+
+  // The entry's own project stays selectable even if it's no longer active
+  const projectOptions = (entry: SavedEntry) => {
+    const slugs = projects.map(p => p.slug);
+    return slugs.includes(entry.projectSlug) ? slugs : [entry.projectSlug, ...slugs];
+  };
+
+  return (
+    <div className="ra-section ra-history ra-recent-saves">
+      <div className="ra-history-header">
+        <h4>Recently Saved</h4>
+        <button className="ra-link-button" onClick={onClose}>Close</button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="ra-history-empty">Nothing saved yet.</p>
+      ) : (
+        <ul className="ra-history-list">
+          {entries.map(entry => (
+            <li key={entry.id} className="ra-history-item ra-recent-item">
+              <div className="ra-recent-row">
+                <div className="ra-history-item-main">
+                  <div className="ra-recent-title">{entry.title}</div>
+                  <div className="ra-history-meta">
+                    {formatDate(entry.savedAt)} · {projectName(entry.projectSlug)}/{entry.filename}
+                  </div>
+                </div>
+                <div className="ra-history-item-side">
+                  {!entry.indexFile && (
+                    <button
+                      className="ra-link-button"
+                      onClick={() => (movingId === entry.id ? setMovingId(null) : startMove(entry))}
+                      disabled={isSaving}
+                    >
+                      {movingId === entry.id ? 'Cancel' : 'Move'}
+                    </button>
+                  )}
+                  {entry.action === 'integrate' && (
+                    <button className="ra-link-button" onClick={() => onPlanTasks(entry)} disabled={isSaving}>
+                      Plan tasks
+                    </button>
+                  )}
+                  {entry.citation && (
+                    <button className="ra-link-button" onClick={() => onExportBibtex(entry)}>
+                      BibTeX
+                    </button>
+                  )}
+                  <button className="ra-link-button" onClick={() => onRemove(entry)} disabled={isSaving}>
+                    Remove
+                  </button>
+                </div>
+              </div>
+
+              {movingId === entry.id && (
+                <div className="ra-recent-move">
+                  <select value={targetProject} onChange={(e) => changeTargetProject(entry, e.target.value)}>
+                    {projectOptions(entry).map(slug => (
+                      <option key={slug} value={slug}>{projectName(slug)}</option>
+                    ))}
+                  </select>
+                  <select value={targetFile} onChange={(e) => setTargetFile(e.target.value)}>
+                    {fileOptions(entry, targetProject).map(file => <option key={file} value={file}>{file}</option>)}
+                  </select>
+                  <button
+                    className="ra-button ra-button-secondary"
+                    onClick={() => confirmMove(entry)}
+                    disabled={isSaving || !targetFile || (targetProject === entry.projectSlug && targetFile === entry.filename)}
+                  >
+                    Move here
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RecentSavesPanel;
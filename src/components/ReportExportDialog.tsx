@@ -0,0 +1,140 @@
+import React from 'react';
+import { TriageRecord, Project, AnalysisResult } from '../types';
+import { buildReport, oldestRecordDate, ReportFilter, ReportFormat, Report, REPORT_FORMATS } from '../utils/reports';
+
+interface ReportExportDialogProps {
+  records: TriageRecord[];
+  isHistoryFull: boolean;            // Older records have been dropped from the history
+  projects: Project[];
+  initialProject: string;
+  isSaving: boolean;
+  error: string;
+  onDownload: (report: Report) => void;
+  onSaveToProject: (report: Report, projectSlug: string) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_CHARS = 4000;
+
+/**
+ * Export the triage history of a project and period as a report, downloaded
+ * or written to the project folder
+ */
+const ReportExportDialog: React.FC<ReportExportDialogProps> = ({
+  records,
+  isHistoryFull,
+  projects,
+  initialProject,
+  isSaving,
+  error,
+  onDownload,
+  onSaveToProject,
+  onCancel
+}) => {
+  const [filter, setFilter] = React.useState<ReportFilter>({
+    projectSlug: initialProject,
+    from: '',
+    to: '',
+    recommendation: ''
+  });
+  const [format, setFormat] = React.useState<ReportFormat>('markdown');
+
+  const projectName = (slug: string) => projects.find(p => p.slug === slug)?.name || slug;
+  const report = buildReport(records, filter, format, projectName);
+  const oldest = oldestRecordDate(records);
+  const isIncomplete = isHistoryFull && !!oldest && (!filter.from || filter.from < oldest);
+
+  const update = (changes: Partial<ReportFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+  return (
+    <div className="ra-dialog-backdrop">
+      <div className="ra-dialog ra-report-export" role="dialog" aria-modal="true" aria-labelledby="ra-report-title">
+        <div className="ra-dialog-header">
+          <h4 id="ra-report-title">Export triage report</h4>
+          <span className="ra-save-preview-target">
+            <code>{report.filename}</code>
+          </span>
+        </div>
+
+        <div className="ra-dialog-body">
+          <div className="ra-save-preview-form">
+            <label htmlFor="ra-report-project">Project</label>
+            <select id="ra-report-project" value={filter.projectSlug} onChange={(e) => update({ projectSlug: e.target.value })}>
+              <option value="">All projects</option>
+              {projects.map(project => (
+                <option key={project.slug} value={project.slug}>{project.name}</option>
+              ))}
+            </select>
+
+            <label>Analyzed between</label>
+            <div className="ra-report-dates">
+              <input type="date" value={filter.from} onChange={(e) => update({ from: e.target.value })} aria-label="From" />
+              <span>and</span>
+              <input type="date" value={filter.to} onChange={(e) => update({ to: e.target.value })} aria-label="To" />
+            </div>
+
+            <label htmlFor="ra-report-recommendation">Recommendation</label>
+            <select
+              id="ra-report-recommendation"
+              value={filter.recommendation}
+              onChange={(e) => update({ recommendation: e.target.value as '' | AnalysisResult['recommendation'] })}
+            >
+              <option value="">All recommendations</option>
+              <option value="integrate">Integrate</option>
+              <option value="save">Save</option>
+              <option value="skip">Skip</option>
+            </select>
+
+            <label htmlFor="ra-report-format">Format</label>
+            <select id="ra-report-format" value={format} onChange={(e) => setFormat(e.target.value as ReportFormat)}>
+              {REPORT_FORMATS.map(f => (
+                <option key={f.format} value={f.format}>{f.label}</option>
+              ))}
+            </select>
+
+            <p className="ra-save-preview-empty">
+              {report.count === 0
+                ? format === 'bibtex' ? 'No analyses of imported citations match.' : 'No analyses match.'
+                : format === 'bibtex'
+                  ? `${report.count} citation${report.count !== 1 ? 's' : ''} in the report.`
+                  : `${report.count} ${report.count !== 1 ? 'analyses' : 'analysis'} in the report.`}
+            </p>
+            {isIncomplete && (
+              <p className="ra-save-preview-empty ra-warning">
+                The history keeps only the latest {records.length} analyses, the oldest from {oldest}; earlier ones are not in the report.
+              </p>
+            )}
+          </div>
+
+          <div className="ra-save-preview-output">
+            <label>Preview</label>
+            <pre>
+              {report.content.length > PREVIEW_CHARS ? `${report.content.substring(0, PREVIEW_CHARS)}\n...` : report.content}
+            </pre>
+          </div>
+        </div>
+
+        {error && <div className="ra-error">{error}</div>}
+
+        <div className="ra-actions">
+          <button className="ra-button ra-button-primary" onClick={() => onDownload(report)} disabled={report.count === 0}>
+            Download
+          </button>
+          <button
+            className="ra-button ra-button-success"
+            onClick={() => onSaveToProject(report, filter.projectSlug)}
+            disabled={isSaving || report.count === 0 || !filter.projectSlug}
+            title={filter.projectSlug ? `Write to ${projectName(filter.projectSlug)}/reports/` : 'Choose a project to save the report into'}
+          >
+            {isSaving ? 'Saving...' : 'Save to Project'}
+          </button>
+          <button className="ra-button ra-button-muted" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportExportDialog;
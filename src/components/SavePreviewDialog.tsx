@@ -0,0 +1,165 @@
+import React from 'react';
+import { SaveDraft } from '../types';
+
+interface SavePreviewDialogProps {
+  draft: SaveDraft;
+  getTargetPath: (draft: SaveDraft) => string; // e.g. "my-project/research-findings.md"
+  formatContent: (draft: SaveDraft) => string; // Markdown that will be appended for a draft
+  chatMessageCount: number;                    // Follow-up chat that a note can include
+  isSaving: boolean;
+  error: string;
+  onConfirm: (draft: SaveDraft) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Split a free-text tag field ("ml, rag #search") into clean tags
+ */
+const parseTags = (input: string): string[] => {
+  const tags = input
+    .split(/[,\s]+/)
+    .map(tag => tag.replace(/^#+/, '').trim())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+};
+
+/**
+ * Review and edit a Library entry before it is appended: title, insights,
+ * notes and tags, with a live preview of the exact markdown to be written
+ */
+const SavePreviewDialog: React.FC<SavePreviewDialogProps> = ({
+  draft: initialDraft,
+  getTargetPath,
+  formatContent,
+  chatMessageCount,
+  isSaving,
+  error,
+  onConfirm,
+  onCancel
+}) => {
+  const [draft, setDraft] = React.useState<SaveDraft>(initialDraft);
+  const [tagInput, setTagInput] = React.useState(initialDraft.tags.join(', '));
+
+  const update = (changes: Partial<SaveDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateInsight = (index: number, text: string) => {
+    update({ insights: draft.insights.map((insight, i) => (i === index ? { ...insight, text } : insight)) });
+  };
+
+  const removeInsight = (index: number) => {
+    update({ insights: draft.insights.filter((_, i) => i !== index) });
+  };
+
+  const handleTagsChange = (value: string) => {
+    setTagInput(value);
+    update({ tags: parseTags(value) });
+  };
+
+  // Insights emptied while editing are dropped, in the preview and when saving
+  const cleanedDraft: SaveDraft = {
+    ...draft,
+    insights: draft.insights
+      .map(insight => ({ ...insight, text: insight.text.trim() }))
+      .filter(insight => insight.text)
+  };
+
+  return (
+    <div className="ra-dialog-backdrop">
+      <div className="ra-dialog ra-save-preview" role="dialog" aria-modal="true" aria-labelledby="ra-save-preview-title">
+        <div className="ra-dialog-header">
+          <h4 id="ra-save-preview-title">Review before saving</h4>
+          <span className="ra-save-preview-target">
+            Saving to <code>{getTargetPath(cleanedDraft)}</code>
+          </span>
+        </div>
+
+        <div className="ra-dialog-body">
+          <div className="ra-save-preview-form">
+            <label htmlFor="ra-save-title">Title</label>
+            <input
+              id="ra-save-title"
+              type="text"
+              value={draft.title}
+              onChange={(e) => update({ title: e.target.value })}
+              placeholder="Untitled Research"
+              disabled={isSaving}
+            />
+
+            <label>Key Insights</label>
+            {draft.insights.length === 0 && (
+              <p className="ra-save-preview-empty">No insights will be saved.</p>
+            )}
+            {draft.insights.map((insight, i) => (
+              <div key={i} className="ra-save-preview-insight">
+                <textarea
+                  value={insight.text}
+                  onChange={(e) => updateInsight(i, e.target.value)}
+                  rows={2}
+                  disabled={isSaving}
+                />
+                <button
+                  className="ra-link-button"
+                  onClick={() => removeInsight(i)}
+                  disabled={isSaving}
+                  title="Remove this insight"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+
+            <label htmlFor="ra-save-notes">Notes</label>
+            <textarea
+              id="ra-save-notes"
+              value={draft.notes}
+              onChange={(e) => update({ notes: e.target.value })}
+              placeholder="Your own notes on this article (optional)"
+              rows={3}
+              disabled={isSaving}
+            />
+
+            <label htmlFor="ra-save-tags">Tags</label>
+            <input
+              id="ra-save-tags"
+              type="text"
+              value={tagInput}
+              onChange={(e) => handleTagsChange(e.target.value)}
+              placeholder="e.g. retrieval, evaluation"
+              disabled={isSaving}
+            />
+
+            {draft.route.mode === 'note' && chatMessageCount > 0 && (
+              <label className="ra-save-preview-checkbox">
+                <input
+                  type="checkbox"
+                  checked={draft.includeChat}
+                  onChange={(e) => update({ includeChat: e.target.checked })}
+                  disabled={isSaving}
+                />
+                Include the follow-up chat ({chatMessageCount} message{chatMessageCount !== 1 ? 's' : ''})
+              </label>
+            )}
+          </div>
+
+          <div className="ra-save-preview-output">
+            <label>Markdown preview</label>
+            <pre>{formatContent(cleanedDraft).trim()}</pre>
+          </div>
+        </div>
+
+        {error && <div className="ra-error">{error}</div>}
+
+        <div className="ra-actions">
+          <button className="ra-button ra-button-success" onClick={() => onConfirm(cleanedDraft)} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Confirm & Save'}
+          </button>
+          <button className="ra-button ra-button-muted" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SavePreviewDialog;
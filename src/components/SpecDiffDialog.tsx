@@ -0,0 +1,141 @@
+import React from 'react';
+import { SpecProposal, SpecHunk } from '../types';
+import { buildDiffRows } from '../utils/specDiff';
+
+interface SpecDiffDialogProps {
+  proposal: SpecProposal;
+  isSaving: boolean;
+  error: string;
+  onConfirm: (hunks: SpecHunk[]) => void;
+  onRetry: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Side-by-side diff of the proposed spec.md edits; each hunk can be accepted or
+ * rejected before the accepted ones are written back
+ */
+const SpecDiffDialog: React.FC<SpecDiffDialogProps> = ({
+  proposal,
+  isSaving,
+  error,
+  onConfirm,
+  onRetry,
+  onCancel
+}) => {
+  const [hunks, setHunks] = React.useState<SpecHunk[]>(proposal.hunks || []);
+
+  React.useEffect(() => {
+    setHunks(proposal.hunks || []);
+  }, [proposal.hunks]);
+
+  const setAccepted = (id: string, accepted: boolean) => {
+    setHunks(prev => prev.map(hunk => (hunk.id === id ? { ...hunk, accepted } : hunk)));
+  };
+
+  const acceptedCount = hunks.filter(hunk => hunk.accepted).length;
+
+  return (
+    <div className="ra-dialog-backdrop">
+      <div className="ra-dialog ra-spec-diff" role="dialog" aria-modal="true" aria-labelledby="ra-spec-diff-title">
+        <div className="ra-dialog-header">
+          <h4 id="ra-spec-diff-title">Proposed spec changes</h4>
+          <span className="ra-save-preview-target">
+            <code>{proposal.projectSlug}/spec.md</code>
+          </span>
+        </div>
+
+        {proposal.hunks === null ? (
+          <p className="ra-save-preview-empty">Comparing the article with spec.md...</p>
+        ) : (
+          <>
+            {proposal.summary && <p className="ra-spec-diff-summary">{proposal.summary}</p>}
+            {hunks.length === 0 && (
+              <p className="ra-save-preview-empty">No changes to spec.md were proposed.</p>
+            )}
+
+            {hunks.map((hunk, i) => (
+              <div key={hunk.id} className={`ra-spec-hunk ${hunk.accepted ? '' : 'ra-spec-hunk-rejected'}`}>
+                <div className="ra-spec-hunk-header">
+                  <span className="ra-spec-hunk-title">
+                    Change {i + 1} of {hunks.length}{hunk.rationale ? `: ${hunk.rationale}` : ''}
+                  </span>
+                  <div className="ra-spec-hunk-actions">
+                    <button
+                      className={`ra-link-button ${hunk.accepted ? 'ra-spec-choice-active' : ''}`}
+                      onClick={() => setAccepted(hunk.id, true)}
+                      disabled={isSaving}
+                    >
+                      Accept
+                    </button>
+                    <button
+                      className={`ra-link-button ${hunk.accepted ? '' : 'ra-spec-choice-active'}`}
+                      onClick={() => setAccepted(hunk.id, false)}
+                      disabled={isSaving}
+                    >
+                      Reject
+                    </button>
+                  </div>
+                </div>
+
+                <table className="ra-spec-diff-table">
+                  <thead>
+                    <tr>
+                      <th>Current</th>
+                      <th>Proposed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {buildDiffRows(proposal.baseSpec, hunk).map((row, j) => (
+                      <tr key={j} className={`ra-diff-${row.type}`}>
+                        <td className={row.left === null ? 'ra-diff-empty' : 'ra-diff-left'}>{row.left}</td>
+                        <td className={row.right === null ? 'ra-diff-empty' : 'ra-diff-right'}>{row.right}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+
+            {proposal.unmatched.length > 0 && (
+              <div className="ra-spec-unmatched">
+                <p className="ra-warning">Some proposed edits couldn't be applied:</p>
+                <ul>
+                  {proposal.unmatched.map((reason, i) => <li key={i}>{reason}</li>)}
+                </ul>
+              </div>
+            )}
+
+            {acceptedCount > 0 && (
+              <p className="ra-save-preview-empty">
+                A decision entry explaining the accepted changes will be appended to decisions.md.
+              </p>
+            )}
+          </>
+        )}
+
+        {error && <div className="ra-error">{error}</div>}
+
+        <div className="ra-actions">
+          <button
+            className="ra-button ra-button-success"
+            onClick={() => onConfirm(hunks)}
+            disabled={isSaving || acceptedCount === 0}
+          >
+            {isSaving ? 'Saving...' : `Apply ${acceptedCount} Change${acceptedCount !== 1 ? 's' : ''}`}
+          </button>
+          {proposal.hunks !== null && (
+            <button className="ra-button ra-button-secondary" onClick={onRetry} disabled={isSaving}>
+              Propose Again
+            </button>
+          )}
+          <button className="ra-button ra-button-muted" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpecDiffDialog;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { TriageRecord, Project, AnalysisResult } from '../types';
+import { formatDate } from '../utils';
+
+interface TriageHistoryPanelProps {
+  records: TriageRecord[];
+  projects: Project[];
+  onOpen: (record: TriageRecord) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<TriageRecord['action'], string> = {
+  pending: 'Not saved',
+  integrate: 'Integrated',
+  save: 'Saved for later',
+  skip: 'Logged as skipped',
+  dismiss: 'Dismissed'
+};
+
+/**
+ * Check whether a record matches every word of a free-text query, searching the
+ * title, article, insights, explanation and chat
+ */
+const matchesQuery = (record: TriageRecord, query: string): boolean => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+
+  const haystack = [
+    record.title,
+    record.articleText,
+    record.result.explanation,
+    ...record.result.insights,
+    ...record.chatMessages.map(m => m.content)
+  ].join('\n').toLowerCase();
+
+  return words.every(word => haystack.includes(word));
+};
+
+/**
+ * Searchable list of past analyses that can be reopened with their chat
+ */
+const TriageHistoryPanel: React.FC<TriageHistoryPanelProps> = ({
+  records,
+  projects,
+  onOpen,
+  onDelete,
+  onExport,
+  onClose
+}) => {
+  const [projectFilter, setProjectFilter] = React.useState('');
+  const [recommendationFilter, setRecommendationFilter] = React.useState<'' | AnalysisResult['recommendation']>('');
+  const [query, setQuery] = React.useState('');
+
+  const projectName = (slug: string) => projects.find(p => p.slug === slug)?.name || slug || 'No project';
+
+  const filtered = records.filter(record =>
+    (!projectFilter || record.projectSlug === projectFilter)
+    && (!recommendationFilter || record.result.recommendation === recommendationFilter)
+    && matchesQuery(record, query)
+  );
+
+  // Only offer projects that actually appear in the history
+  const projectSlugs = Array.from(new Set(records.map(r => r.projectSlug)));
+
+  return (
+    <div className="ra-section ra-history">
+      <div className="ra-history-header">
+        <h4>Triage History</h4>
+        <div>
+          <button className="ra-link-button" onClick={onExport} disabled={records.length === 0}>Export report...</button>
+          <button className="ra-link-button" onClick={onClose}>Close</button>
+        </div>
+      </div>
+
+      <div className="ra-history-filters">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search titles, articles, insights, chat..."
+        />
+        <select value={projectFilter} onChange={(e) => setProjectFilter(e.target.value)}>
+          <option value="">All projects</option>
+          {projectSlugs.map(slug => (
+            <option key={slug} value={slug}>{projectName(slug)}</option>
+          ))}
+        </select>
+        <select
+          value={recommendationFilter}
+          onChange={(e) => setRecommendationFilter(e.target.value as '' | AnalysisResult['recommendation'])}
+        >
+          <option value="">All recommendations</option>
+          <option value="integrate">Integrate</option>
+          <option value="save">Save</option>
+          <option value="skip">Skip</option>
+        </select>
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="ra-history-empty">
+          {records.length === 0 ? 'No analyses yet.' : 'No analyses match these filters.'}
+        </p>
+      ) : (
+        <ul className="ra-history-list">
+          {filtered.map(record => (
+            <li key={record.id} className="ra-history-item">
+              <div className="ra-history-item-main">
+                <button className="ra-history-title" onClick={() => onOpen(record)}>
+                  {record.title || 'Untitled'}
+                </button>
+                <div className="ra-history-meta">
+                  {formatDate(record.timestamp)} · {projectName(record.projectSlug)} · {record.model}
+                  {record.chatMessages.length > 0 && ` · ${record.chatMessages.length} chat messages`}
+                </div>
+              </div>
+              <div className="ra-history-item-side">
+                <span className={`ra-rec-badge ra-rec-${record.result.recommendation}`}>
+                  {record.result.recommendation} · {Math.round(record.result.confidence * 100)}%
+                </span>
+                <span className="ra-history-action">{ACTION_LABELS[record.action]}</span>
+                <button className="ra-link-button" onClick={() => onDelete(record.id)}>Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TriageHistoryPanel;
@@ -0,0 +1,328 @@
+import React from 'react';
+import { QueueItem, RouteAction } from '../types';
+import { DEFAULT_ARTICLE_DELIMITER } from '../utils/batchInput';
+
+type QueueDecision = QueueItem['decision'];
+
+interface TriageQueuePanelProps {
+  items: QueueItem[];
+  cursor: number;
+  concurrency: number;
+  isRunning: boolean;
+  isSaving: boolean;
+  projectName: string;               // Project the queue is analyzed against ('' for none)
+  modelName: string;
+  enabledActions: (projectSlug: string) => RouteAction[];  // Routes enabled for a project
+  onAddText: (text: string, delimiter: string) => void;
+  onAddFiles: (files: File[]) => void;
+  onAddUrls: (text: string) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onConcurrencyChange: (concurrency: number) => void;
+  onCursorChange: (cursor: number) => void;
+  onDecision: (id: string, decision: QueueDecision) => void;
+  onOpen: (item: QueueItem) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onApply: () => void;
+  onClose: () => void;
+}
+
+const DECISION_LABELS: Record<RouteAction | 'dismiss', string> = {
+  integrate: 'Integrate',
+  save: 'Save',
+  skip: 'Skip',
+  dismiss: 'Dismiss'
+};
+
+// Keyboard shortcuts for the selected item
+const DECISION_KEYS: Record<string, RouteAction | 'dismiss'> = {
+  i: 'integrate',
+  '1': 'integrate',
+  s: 'save',
+  '2': 'save',
+  x: 'skip',
+  '3': 'skip',
+  d: 'dismiss',
+  '0': 'dismiss'
+};
+
+/**
+ * Batch triage: queue many articles at once, analyze them a few at a time,
+ * step through the results with the keyboard and apply every decision in one go
+ */
+const TriageQueuePanel: React.FC<TriageQueuePanelProps> = ({
+  items,
+  cursor,
+  concurrency,
+  isRunning,
+  isSaving,
+  projectName,
+  modelName,
+  enabledActions,
+  onAddText,
+  onAddFiles,
+  onAddUrls,
+  onStart,
+  onStop,
+  onConcurrencyChange,
+  onCursorChange,
+  onDecision,
+  onOpen,
+  onRemove,
+  onClearFinished,
+  onApply,
+  onClose
+}) => {
+  const [inputMode, setInputMode] = React.useState<'text' | 'urls'>('text');
+  const [input, setInput] = React.useState('');
+  const [delimiter, setDelimiter] = React.useState(DEFAULT_ARTICLE_DELIMITER);
+  const [isDragging, setIsDragging] = React.useState(false);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const urlFileRef = React.useRef<HTMLInputElement>(null);
+  const listRef = React.useRef<HTMLUListElement>(null);
+
+  // Items are saved through the routes of the project they were analyzed against;
+  // without one they can only be dismissed
+  const canDecide = (item: QueueItem, decision: RouteAction | 'dismiss') => {
+    if (decision === 'dismiss') return true;
+    if (!item.projectSlug) return false;
+    return decision === 'skip' || enabledActions(item.projectSlug).includes(decision);
+  };
+
+  const selected = items[cursor];
+  const queued = items.filter(item => item.status === 'queued').length;
+  const pendingDecisions = items.filter(item => item.status === 'done' && item.decision && !item.applied).length;
+
+  React.useEffect(() => {
+    const row = listRef.current?.children[cursor] as HTMLElement | undefined;
+    row?.scrollIntoView({ block: 'nearest' });
+  }, [cursor]);
+
+  const handleAdd = () => {
+    if (inputMode === 'text') {
+      onAddText(input, delimiter);
+    } else {
+      onAddUrls(input);
+    }
+    setInput('');
+  };
+
+  const handleUrlFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      const text = await file.text();
+      setInput(prev => (prev.trim() ? `${prev.trim()}\n${text}` : text));
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Leave typing in the inputs alone
+    const target = e.target as HTMLElement;
+    if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || e.ctrlKey || e.metaKey || e.altKey) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'j') {
+      e.preventDefault();
+      onCursorChange(Math.min(items.length - 1, cursor + 1));
+    } else if (e.key === 'ArrowUp' || e.key === 'k') {
+      e.preventDefault();
+      onCursorChange(Math.max(0, cursor - 1));
+    } else if (e.key === 'Enter' && selected?.result) {
+      e.preventDefault();
+      onOpen(selected);
+    } else if (DECISION_KEYS[e.key] && selected?.status === 'done' && !selected.applied && canDecide(selected, DECISION_KEYS[e.key])) {
+      e.preventDefault();
+      onDecision(selected.id, DECISION_KEYS[e.key]);
+      // Move on to the next item, as when working through an inbox
+      onCursorChange(Math.min(items.length - 1, cursor + 1));
+    }
+  };
+
+  return (
+    <div className="ra-section ra-history ra-queue" onKeyDown={handleKeyDown}>
+      <div className="ra-history-header">
+        <h4>Triage Queue ({items.length})</h4>
+        <button className="ra-link-button" onClick={onClose}>Close</button>
+      </div>
+
+      <div
+        className={`ra-queue-input ${isDragging ? 'ra-dragging' : ''}`}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          onAddFiles(Array.from(e.dataTransfer.files || []));
+        }}
+      >
+        <div className="ra-mode-toggle">
+          <label>
+            <input type="radio" checked={inputMode === 'text'} onChange={() => setInputMode('text')} />
+            Paste articles
+          </label>
+          <label>
+            <input type="radio" checked={inputMode === 'urls'} onChange={() => setInputMode('urls')} />
+            URL list
+          </label>
+        </div>
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={5}
+          placeholder={inputMode === 'text'
+            ? `Paste several articles, each separated by a line containing only ${delimiter || DEFAULT_ARTICLE_DELIMITER}`
+            : 'One URL per line (lines starting with # are ignored)'}
+        />
+        <div className="ra-queue-input-actions">
+          {inputMode === 'text' ? (
+            <label className="ra-queue-delimiter">
+              Delimiter line:
+              <input type="text" value={delimiter} onChange={(e) => setDelimiter(e.target.value)} />
+            </label>
+          ) : (
+            <>
+              <input ref={urlFileRef} type="file" accept=".txt,text/plain" onChange={handleUrlFile} hidden />
+              <button className="ra-link-button" onClick={() => urlFileRef.current?.click()}>
+                Load list from file...
+              </button>
+            </>
+          )}
+          <button className="ra-button ra-button-secondary" onClick={handleAdd} disabled={!input.trim()}>
+            Add to Queue
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/pdf,.pdf,.txt,.md,text/plain,text/markdown,.bib,.ris,.json"
+            multiple
+            onChange={(e) => {
+              onAddFiles(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+            hidden
+          />
+          <button className="ra-button ra-button-secondary" onClick={() => fileInputRef.current?.click()}>
+            Add Files
+          </button>
+          <span className="ra-file-hint">or drop PDFs, text files and BibTeX/RIS/CSL-JSON exports here</span>
+        </div>
+      </div>
+
+      <div className="ra-queue-toolbar">
+        <span className="ra-history-meta">
+          {projectName ? `Against ${projectName}` : 'No project selected'} · {modelName || 'no model'}
+        </span>
+        <label className="ra-queue-concurrency">
+          At once:
+          <input
+            type="number"
+            min={1}
+            max={8}
+            value={concurrency}
+            onChange={(e) => onConcurrencyChange(Math.max(1, Math.min(8, Number(e.target.value) || 1)))}
+            disabled={isRunning}
+          />
+        </label>
+        {isRunning ? (
+          <button className="ra-button ra-button-muted" onClick={onStop}>Stop</button>
+        ) : (
+          <button className="ra-button ra-button-primary" onClick={onStart} disabled={queued === 0 || isSaving}>
+            Analyze {queued} Queued
+          </button>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <p className="ra-history-empty">The queue is empty.</p>
+      ) : (
+        <>
+          <ul className="ra-history-list ra-queue-list" ref={listRef} tabIndex={0} aria-label="Queued articles">
+            {items.map((item, i) => (
+              <li
+                key={item.id}
+                className={`ra-history-item ra-queue-item ${i === cursor ? 'ra-queue-item-selected' : ''}`}
+                onClick={() => onCursorChange(i)}
+              >
+                <div className="ra-history-item-main">
+                  <div className="ra-queue-title">{item.title || item.url || 'Untitled'}</div>
+                  <div className="ra-history-meta">
+                    {item.status === 'queued' && 'Queued'}
+                    {item.status === 'running' && (item.article ? 'Analyzing...' : 'Fetching...')}
+                    {item.status === 'error' && <span className="ra-table-error">{item.error}</span>}
+                    {item.result && (
+                      <>
+                        {item.result.insights[0]}
+                        {item.cached && ' · cached'}
+                      </>
+                    )}
+                    {item.applied && <span className="ra-queue-applied"> · {item.applied}</span>}
+                  </div>
+                </div>
+                <div className="ra-history-item-side">
+                  {item.result && (
+                    <span className={`ra-rec-badge ra-rec-${item.result.recommendation}`}>
+                      {item.result.recommendation} · {Math.round(item.result.confidence * 100)}%
+                    </span>
+                  )}
+                  {item.status === 'done' && !item.applied && (
+                    <select
+                      value={item.decision || ''}
+                      onChange={(e) => onDecision(item.id, (e.target.value || null) as QueueDecision)}
+                      disabled={isSaving}
+                    >
+                      <option value="">Undecided</option>
+                      {(['integrate', 'save', 'skip', 'dismiss'] as const).map(decision => (
+                        <option
+                          key={decision}
+                          value={decision}
+                          disabled={!canDecide(item, decision)}
+                        >
+                          {DECISION_LABELS[decision]}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {item.result && !item.applied && (
+                    <button className="ra-link-button" onClick={() => onOpen(item)}>Open</button>
+                  )}
+                  {item.status !== 'running' && (
+                    <button className="ra-link-button" onClick={() => onRemove(item.id)} disabled={isSaving}>Remove</button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+          <p className="ra-checklist-hint">
+            Keys: j/k or arrows to move, i/s/x/d (or 1/2/3/0) to integrate, save, skip or dismiss, Enter to open in the main view
+          </p>
+        </>
+      )}
+
+      <div className="ra-actions">
+        <button
+          className="ra-button ra-button-success"
+          onClick={onApply}
+          disabled={isSaving || isRunning || pendingDecisions === 0}
+        >
+          {isSaving ? 'Applying...' : `Apply ${pendingDecisions} Decision${pendingDecisions !== 1 ? 's' : ''}`}
+        </button>
+        <button
+          className="ra-button ra-button-muted"
+          onClick={onClearFinished}
+          disabled={isSaving || !items.some(item => item.applied || item.status === 'error')}
+        >
+          Clear Finished
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TriageQueuePanel;
@@ -3,6 +3,17 @@
 export { default as LoadingSpinner } from './LoadingSpinner';
 export { default as ErrorDisplay } from './ErrorDisplay';
 export { default as ErrorBoundary, withErrorBoundary, useErrorHandler } from './ErrorBoundary';
+export { default as TriageHistoryPanel } from './TriageHistoryPanel';
+export { default as SavePreviewDialog } from './SavePreviewDialog';
+export { default as RecentSavesPanel } from './RecentSavesPanel';
+export { default as PromptTemplatesPanel } from './PromptTemplatesPanel';
+export { default as OutputRoutesPanel } from './OutputRoutesPanel';
+export { default as BuildPlanTasksDialog } from './BuildPlanTasksDialog';
+export { default as SpecDiffDialog } from './SpecDiffDialog';
+export { default as TriageQueuePanel } from './TriageQueuePanel';
+export { default as FeedInboxPanel } from './FeedInboxPanel';
+export { default as ReportExportDialog } from './ReportExportDialog';
+export { default as DigestPanel } from './DigestPanel';
 
 // Export error handling types
 export type { ErrorInfo } from './ErrorDisplay';
\ No newline at end of file
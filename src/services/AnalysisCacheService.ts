@@ -0,0 +1,52 @@
+import { AnalysisResult } from '../types';
+import { SettingsStore } from './SettingsStore';
+
+const CACHE_KEY = 'research_assistant_analysis_cache';
+const MAX_ENTRIES = 200;
+
+export interface CachedAnalysis {
+  key: string;
+  result: AnalysisResult;
+  cachedAt: string;    // ISO time the analysis was produced
+}
+
+/**
+ * Stores analysis results keyed by article, project context version, model and
+ * prompt version. Kept in BrainDrive settings so cached results follow the user
+ * across devices.
+ */
+export class AnalysisCacheService {
+  private store: SettingsStore;
+  private entries: CachedAnalysis[] | null = null;
+
+  constructor(store: SettingsStore) {
+    this.store = store;
+  }
+
+  private async load(): Promise<CachedAnalysis[]> {
+    if (!this.entries) {
+      const stored = await this.store.get<CachedAnalysis[]>(CACHE_KEY, []);
+      this.entries = Array.isArray(stored) ? stored : [];
+    }
+    return this.entries;
+  }
+
+  async get(key: string): Promise<CachedAnalysis | null> {
+    const entries = await this.load();
+    return entries.find(e => e.key === key) || null;
+  }
+
+  async set(key: string, result: AnalysisResult): Promise<void> {
+    const entries = await this.load();
+    const entry: CachedAnalysis = { key, result, cachedAt: new Date().toISOString() };
+    this.entries = [entry, ...entries.filter(e => e.key !== key)].slice(0, MAX_ENTRIES);
+
+    try {
+      await this.store.set(CACHE_KEY, this.entries);
+    } catch (error) {
+      console.error('AnalysisCacheService: Failed to persist cache:', error);
+    }
+  }
+}
+
+export default AnalysisCacheService;
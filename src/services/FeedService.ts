@@ -0,0 +1,193 @@
+import { FeedSubscription, FeedItem, AnalysisResult } from '../types';
+import { SettingsStore } from './SettingsStore';
+import { ParsedFeedEntry } from '../utils/feeds';
+import { generateId } from '../utils';
+
+const FEEDS_KEY = 'research_assistant_feeds';
+
+// Keep settings storage bounded (it is rewritten on every change, and may live
+// in localStorage): the oldest inbox items are dropped first, only the start of
+// each entry and a summary of its analysis are stored, and only recent GUIDs
+// are remembered per feed
+const MAX_ITEMS = 200;
+const MAX_STORED_CONTENT_CHARS = 500;
+const MAX_SEEN_GUIDS = 500;
+
+export interface FeedData {
+  subscriptions: FeedSubscription[];
+  items: FeedItem[];
+  seenGuids: Record<string, string[]>;  // Per feed, every GUID already added (or passed over)
+}
+
+const EMPTY_FEEDS: FeedData = { subscriptions: [], items: [], seenGuids: {} };
+
+/**
+ * What the inbox shows of an analysis: quotes, sections and conflicts stay in
+ * the triage record
+ */
+const summarizeResult = (result: AnalysisResult): AnalysisResult => {
+  const { insightQuotes, insightSections, sections, conflicts, ...summary } = result;
+  return summary;
+};
+
+const toStoredItem = (item: FeedItem): FeedItem => {
+  const stored = item.result ? { ...item, result: summarizeResult(item.result) } : item;
+  if (item.content.length <= MAX_STORED_CONTENT_CHARS) return stored;
+  return { ...stored, content: item.content.substring(0, MAX_STORED_CONTENT_CHARS), contentTruncated: true };
+};
+
+/**
+ * Persists feed subscriptions and the inbox of their entries. Entries are
+ * deduplicated by GUID, including ones dismissed from the inbox.
+ */
+export class FeedService {
+  private store: SettingsStore;
+  private data: FeedData | null = null;
+  // Full text of entries added in this session, by item ID
+  private fullText = new Map<string, string>();
+
+  constructor(store: SettingsStore) {
+    this.store = store;
+  }
+
+  async load(): Promise<FeedData> {
+    if (!this.data) {
+      const stored = await this.store.get<FeedData>(FEEDS_KEY, EMPTY_FEEDS);
+      this.data = {
+        subscriptions: Array.isArray(stored?.subscriptions) ? stored.subscriptions : [],
+        // Analyses interrupted when the plugin was closed start over; items stored
+        // before entries were truncated are trimmed on the next write
+        items: Array.isArray(stored?.items)
+          ? stored.items.map(item => toStoredItem(item.status === 'analyzing' ? { ...item, status: 'pending' as const } : item))
+          : [],
+        seenGuids: stored?.seenGuids && typeof stored.seenGuids === 'object' ? stored.seenGuids : {}
+      };
+    }
+    return this.data;
+  }
+
+  async addSubscription(subscription: FeedSubscription): Promise<FeedData> {
+    return this.mutate(data => ({ ...data, subscriptions: [...data.subscriptions, subscription] }));
+  }
+
+  async updateSubscription(id: string, changes: Partial<FeedSubscription>): Promise<FeedData> {
+    return this.mutate(data => ({
+      ...data,
+      subscriptions: data.subscriptions.map(s => (s.id === id ? { ...s, ...changes } : s))
+    }));
+  }
+
+  /**
+   * Text of an entry: the full text while it is in memory, else the stored start
+   */
+  getText(item: FeedItem): string {
+    return this.fullText.get(item.id) || item.content;
+  }
+
+  hasFullText(item: FeedItem): boolean {
+    return this.fullText.has(item.id);
+  }
+
+  /**
+   * Unsubscribe, dropping the feed's inbox items
+   */
+  async removeSubscription(id: string): Promise<FeedData> {
+    return this.mutate(data => {
+      data.items.filter(item => item.feedId === id).forEach(item => this.fullText.delete(item.id));
+      const seenGuids = { ...data.seenGuids };
+      delete seenGuids[id];
+      return {
+        subscriptions: data.subscriptions.filter(s => s.id !== id),
+        items: data.items.filter(item => item.feedId !== id),
+        seenGuids
+      };
+    });
+  }
+
+  /**
+   * Add a feed's entries that haven't been seen before as pending inbox items.
+   * With a limit, only that many (the first in the feed, usually the newest)
+   * are added and the rest are marked as seen.
+   */
+  async addEntries(subscription: FeedSubscription, entries: ParsedFeedEntry[], limit?: number): Promise<{ data: FeedData; added: FeedItem[] }> {
+    let added: FeedItem[] = [];
+
+    const data = await this.mutate(current => {
+      const seen = current.seenGuids[subscription.id] || [];
+      const fresh = entries.filter((entry, i) => {
+        return seen.indexOf(entry.guid) === -1 && entries.findIndex(e => e.guid === entry.guid) === i;
+      });
+      const now = new Date().toISOString();
+
+      added = fresh.slice(0, limit === undefined ? fresh.length : limit).map(entry => {
+        const item = toStoredItem({
+          id: generateId(),
+          feedId: subscription.id,
+          projectSlug: subscription.projectSlug,
+          guid: entry.guid,
+          title: entry.title,
+          link: entry.link,
+          author: entry.author,
+          publishedAt: entry.publishedAt,
+          content: entry.content,
+          addedAt: now,
+          status: 'pending' as const
+        });
+        if (item.contentTruncated) this.fullText.set(item.id, entry.content);
+        return item;
+      });
+
+      return {
+        ...current,
+        items: [...added, ...current.items].slice(0, MAX_ITEMS),
+        seenGuids: {
+          ...current.seenGuids,
+          [subscription.id]: [...fresh.map(entry => entry.guid), ...seen].slice(0, MAX_SEEN_GUIDS)
+        }
+      };
+    });
+
+    // Entries pushed out of the inbox
+    this.fullText.forEach((_, id) => {
+      if (!data.items.some(item => item.id === id)) this.fullText.delete(id);
+    });
+
+    return { data, added };
+  }
+
+  /**
+   * Change an item; without `persist` the change is only kept in memory (for
+   * transient states such as 'analyzing')
+   */
+  async updateItem(id: string, changes: Partial<FeedItem>, persist: boolean = true): Promise<FeedData> {
+    return this.mutate(data => ({
+      ...data,
+      items: data.items.map(item => (item.id === id ? toStoredItem({ ...item, ...changes }) : item))
+    }), persist);
+  }
+
+  /**
+   * Drop an item from the inbox; its GUID stays seen so it doesn't come back
+   */
+  async removeItem(id: string): Promise<FeedData> {
+    this.fullText.delete(id);
+    return this.mutate(data => ({ ...data, items: data.items.filter(item => item.id !== id) }));
+  }
+
+  // Changes are applied to the latest data synchronously, so background
+  // analyses finishing together don't overwrite each other's updates
+  private async mutate(change: (data: FeedData) => FeedData, persist: boolean = true): Promise<FeedData> {
+    await this.load();
+    const data = change(this.data as FeedData);
+    this.data = data;
+    if (!persist) return data;
+    try {
+      await this.store.set(FEEDS_KEY, data);
+    } catch (error) {
+      console.error('FeedService: Failed to persist feeds:', error);
+    }
+    return data;
+  }
+}
+
+export default FeedService;
@@ -0,0 +1,124 @@
+import { ApiService } from '../types';
+
+const LIBRARY_API = '/api/v1/plugin-api/braindrive-library/library';
+
+/**
+ * File operations on project folders through the BrainDrive-Library backend
+ */
+export class LibraryService {
+  private apiService: ApiService | undefined;
+
+  constructor(apiService?: ApiService) {
+    this.apiService = apiService;
+  }
+
+  private getApi(): ApiService {
+    if (!this.apiService) {
+      throw new Error('API service not available');
+    }
+    return this.apiService;
+  }
+
+  private isSuccess(response: any): boolean {
+    return Boolean(response?.success ?? response?.data?.success);
+  }
+
+  /**
+   * POST to a Library endpoint. Endpoints other than projects, context and
+   * append-file are only provided by newer Library backends; older ones answer 404.
+   */
+  private async post(endpoint: string, data: any): Promise<any> {
+    let response: any;
+    let status: number | undefined;
+    try {
+      response = await this.getApi().post(`${LIBRARY_API}/${endpoint}`, data);
+      status = response?.status;
+    } catch (error: any) {
+      status = error?.response?.status ?? error?.status;
+      if (status !== 404) throw error;
+    }
+
+    if (status === 404) {
+      throw new Error(`Your Library backend doesn't support ${endpoint}; update BrainDrive-Library to use this feature`);
+    }
+    return response;
+  }
+
+  /**
+   * Read files from a project folder. Missing files are returned as null.
+   */
+  async readFiles(projectSlug: string, filenames: string[]): Promise<Record<string, string | null>> {
+    const response = await this.getApi().get(
+      `${LIBRARY_API}/project/${projectSlug}/context?files=${filenames.map(encodeURIComponent).join(',')}`
+    );
+
+    const files = (response as any)?.files || (response as any)?.data?.files || {};
+    const result: Record<string, string | null> = {};
+    filenames.forEach(name => {
+      result[name] = typeof files[name]?.content === 'string' ? files[name].content : null;
+    });
+    return result;
+  }
+
+  async readFile(projectSlug: string, filename: string): Promise<string | null> {
+    const files = await this.readFiles(projectSlug, [filename]);
+    return files[filename];
+  }
+
+  async appendFile(projectSlug: string, filename: string, content: string): Promise<void> {
+    const response = await this.post('append-file', {
+      project_slug: projectSlug,
+      filename,
+      content
+    });
+
+    if (!this.isSuccess(response)) {
+      throw new Error('Save operation returned unsuccessful');
+    }
+  }
+
+  /**
+   * Create or overwrite a file in a project folder
+   */
+  async writeFile(projectSlug: string, filename: string, content: string): Promise<void> {
+    const response = await this.post('write-file', {
+      project_slug: projectSlug,
+      filename,
+      content
+    });
+
+    if (!this.isSuccess(response)) {
+      throw new Error('Write operation returned unsuccessful');
+    }
+  }
+
+  async deleteFile(projectSlug: string, filename: string): Promise<void> {
+    const response = await this.post('delete-file', {
+      project_slug: projectSlug,
+      filename
+    });
+
+    if (!this.isSuccess(response)) {
+      throw new Error('Delete operation returned unsuccessful');
+    }
+  }
+
+  /**
+   * Fetch a URL through the backend (pages and feeds alike); returns the body
+   * and the final URL after redirects
+   */
+  async fetchUrl(url: string): Promise<{ body: string; finalUrl: string }> {
+    const response = await this.post('fetch-url', { url });
+
+    const payload = response?.data?.html !== undefined ? response.data : response;
+    const body: string | undefined = payload?.html;
+
+    if (!body) {
+      throw new Error(payload?.error || payload?.detail || 'No content returned');
+    }
+
+    return { body, finalUrl: payload.final_url || url };
+  }
+}
+
+export default LibraryService;
@@ -0,0 +1,47 @@
+import { OutputRoutes } from '../types';
+import { SettingsStore } from './SettingsStore';
+
+const ROUTES_KEY = 'research_assistant_output_routes';
+
+/**
+ * Persists per-project output routing rules. Projects without rules use the
+ * module defaults from the plugin config.
+ */
+export class OutputRouteService {
+  private store: SettingsStore;
+  private routes: Record<string, Partial<OutputRoutes>> | null = null;
+
+  constructor(store: SettingsStore) {
+    this.store = store;
+  }
+
+  async load(): Promise<Record<string, Partial<OutputRoutes>>> {
+    if (!this.routes) {
+      const stored = await this.store.get<Record<string, Partial<OutputRoutes>>>(ROUTES_KEY, {});
+      this.routes = stored && typeof stored === 'object' ? stored : {};
+    }
+    return this.routes;
+  }
+
+  async setProjectRoutes(projectSlug: string, routes: Partial<OutputRoutes>): Promise<Record<string, Partial<OutputRoutes>>> {
+    const all = await this.load();
+    return this.persist({ ...all, [projectSlug]: routes });
+  }
+
+  /**
+   * Drop a project's rules so it goes back to the defaults
+   */
+  async resetProjectRoutes(projectSlug: string): Promise<Record<string, Partial<OutputRoutes>>> {
+    const all = { ...(await this.load()) };
+    delete all[projectSlug];
+    return this.persist(all);
+  }
+
+  private async persist(routes: Record<string, Partial<OutputRoutes>>): Promise<Record<string, Partial<OutputRoutes>>> {
+    this.routes = routes;
+    await this.store.set(ROUTES_KEY, routes);
+    return routes;
+  }
+}
+
+export default OutputRouteService;
@@ -0,0 +1,107 @@
+import { PromptTemplate } from '../types';
+import { SettingsStore } from './SettingsStore';
+import { DEFAULT_PROMPT_TEMPLATE, DEFAULT_TEMPLATE_ID } from '../utils/promptTemplates';
+
+const TEMPLATES_KEY = 'research_assistant_prompt_templates';
+const PROJECT_DEFAULTS_KEY = 'research_assistant_project_templates';
+
+/**
+ * Persists user-defined prompt templates and each project's default template.
+ * The built-in default template is always available and never stored.
+ */
+export class PromptTemplateService {
+  private store: SettingsStore;
+  private templates: PromptTemplate[] | null = null;
+  private projectDefaults: Record<string, string> | null = null;
+
+  constructor(store: SettingsStore) {
+    this.store = store;
+  }
+
+  /**
+   * All templates, built-in first
+   */
+  async loadTemplates(): Promise<PromptTemplate[]> {
+    if (!this.templates) {
+      const stored = await this.store.get<PromptTemplate[]>(TEMPLATES_KEY, []);
+      this.templates = Array.isArray(stored) ? stored.filter(t => t.id !== DEFAULT_TEMPLATE_ID) : [];
+    }
+    return [DEFAULT_PROMPT_TEMPLATE, ...this.templates];
+  }
+
+  async loadProjectDefaults(): Promise<Record<string, string>> {
+    if (!this.projectDefaults) {
+      const stored = await this.store.get<Record<string, string>>(PROJECT_DEFAULTS_KEY, {});
+      this.projectDefaults = stored && typeof stored === 'object' ? stored : {};
+    }
+    return this.projectDefaults;
+  }
+
+  /**
+   * Create or update a template. Editing the prompts or name bumps the version,
+   * so results and cached analyses can tell which revision produced them.
+   */
+  async saveTemplate(template: PromptTemplate): Promise<PromptTemplate[]> {
+    if (template.builtIn) {
+      throw new Error('Built-in templates cannot be edited; duplicate it instead');
+    }
+
+    await this.loadTemplates();
+    const templates = this.templates || [];
+    const existing = templates.find(t => t.id === template.id);
+    const changed = !existing
+      || existing.name !== template.name
+      || existing.analysisPrompt !== template.analysisPrompt
+      || existing.chatPrompt !== template.chatPrompt;
+
+    const saved: PromptTemplate = {
+      ...template,
+      version: existing ? existing.version + (changed ? 1 : 0) : 1,
+      updatedAt: changed ? new Date().toISOString() : template.updatedAt
+    };
+
+    this.templates = existing
+      ? templates.map(t => (t.id === template.id ? saved : t))
+      : [...templates, saved];
+    await this.store.set(TEMPLATES_KEY, this.templates);
+    return this.loadTemplates();
+  }
+
+  /**
+   * Delete a template; projects that used it fall back to the default
+   */
+  async deleteTemplate(id: string): Promise<PromptTemplate[]> {
+    await this.loadTemplates();
+    this.templates = (this.templates || []).filter(t => t.id !== id);
+    await this.store.set(TEMPLATES_KEY, this.templates);
+
+    const defaults = await this.loadProjectDefaults();
+    if (Object.keys(defaults).some(slug => defaults[slug] === id)) {
+      const remaining: Record<string, string> = {};
+      Object.keys(defaults).forEach(slug => {
+        if (defaults[slug] !== id) remaining[slug] = defaults[slug];
+      });
+      await this.persistProjectDefaults(remaining);
+    }
+
+    return this.loadTemplates();
+  }
+
+  async setProjectDefault(projectSlug: string, templateId: string): Promise<Record<string, string>> {
+    const defaults = { ...(await this.loadProjectDefaults()) };
+    if (templateId === DEFAULT_TEMPLATE_ID) {
+      delete defaults[projectSlug];
+    } else {
+      defaults[projectSlug] = templateId;
+    }
+    return this.persistProjectDefaults(defaults);
+  }
+
+  private async persistProjectDefaults(defaults: Record<string, string>): Promise<Record<string, string>> {
+    this.projectDefaults = defaults;
+    await this.store.set(PROJECT_DEFAULTS_KEY, defaults);
+    return defaults;
+  }
+}
+
+export default PromptTemplateService;
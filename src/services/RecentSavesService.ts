@@ -0,0 +1,56 @@
+import { SavedEntry } from '../types';
+import { SettingsStore } from './SettingsStore';
+
+const RECENT_SAVES_KEY = 'research_assistant_recent_saves';
+const MAX_ENTRIES = 25;
+
+/**
+ * Remembers the entries most recently appended to the Library so they can be
+ * removed or moved to another file or project
+ */
+export class RecentSavesService {
+  private store: SettingsStore;
+  private entries: SavedEntry[] | null = null;
+
+  constructor(store: SettingsStore) {
+    this.store = store;
+  }
+
+  /**
+   * Load all entries, newest first
+   */
+  async load(): Promise<SavedEntry[]> {
+    if (!this.entries) {
+      const stored = await this.store.get<SavedEntry[]>(RECENT_SAVES_KEY, []);
+      this.entries = Array.isArray(stored) ? stored : [];
+    }
+    return this.entries;
+  }
+
+  async add(entry: SavedEntry): Promise<SavedEntry[]> {
+    const entries = await this.load();
+    return this.persist([entry, ...entries.filter(e => e.id !== entry.id)].slice(0, MAX_ENTRIES));
+  }
+
+  async update(id: string, changes: Partial<SavedEntry>): Promise<SavedEntry[]> {
+    const entries = await this.load();
+    return this.persist(entries.map(e => (e.id === id ? { ...e, ...changes } : e)));
+  }
+
+  async remove(id: string): Promise<SavedEntry[]> {
+    const entries = await this.load();
+    return this.persist(entries.filter(e => e.id !== id));
+  }
+
+  private async persist(entries: SavedEntry[]): Promise<SavedEntry[]> {
+    this.entries = entries;
+    try {
+      await this.store.set(RECENT_SAVES_KEY, entries);
+    } catch (error) {
+      console.error('RecentSavesService: Failed to persist recent saves:', error);
+    }
+    return entries;
+  }
+}
+
+export default RecentSavesService;
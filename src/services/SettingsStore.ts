@@ -0,0 +1,59 @@
+import { SettingsService } from '../types';
+
+// Prefix for keys kept in localStorage when no settings service is available
+const LOCAL_PREFIX = 'research-assistant:';
+
+/**
+ * Small key/value store for plugin data persisted through BrainDrive's
+ * SettingsService. Prefers the async getSetting/setSetting API, falls back to
+ * get/set, and finally to localStorage (e.g. in the standalone dev server).
+ */
+export class SettingsStore {
+  private settingsService: SettingsService | undefined;
+
+  constructor(settingsService?: SettingsService) {
+    this.settingsService = settingsService;
+  }
+
+  async get<T>(key: string, defaultValue: T): Promise<T> {
+    try {
+      let value: any;
+
+      if (this.settingsService?.getSetting) {
+        value = await this.settingsService.getSetting(key);
+      } else if (this.settingsService) {
+        value = this.settingsService.get(key);
+      } else if (typeof localStorage !== 'undefined') {
+        const raw = localStorage.getItem(LOCAL_PREFIX + key);
+        value = raw ? JSON.parse(raw) : null;
+      }
+
+      // Some hosts return the setting record rather than the bare value
+      if (value && typeof value === 'object' && 'value' in value && Object.keys(value).includes('definition_id')) {
+        value = value.value;
+      }
+
+      // Values may come back serialized
+      if (typeof value === 'string' && typeof defaultValue !== 'string') {
+        value = JSON.parse(value);
+      }
+
+      return value === null || value === undefined ? defaultValue : value as T;
+    } catch (error) {
+      console.warn(`SettingsStore: Failed to read ${key}:`, error);
+      return defaultValue;
+    }
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    if (this.settingsService?.setSetting) {
+      await this.settingsService.setSetting(key, value);
+    } else if (this.settingsService) {
+      await this.settingsService.set(key, value);
+    } else if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(LOCAL_PREFIX + key, JSON.stringify(value));
+    }
+  }
+}
+
+export default SettingsStore;
@@ -0,0 +1,78 @@
+import { TriageRecord } from '../types';
+import { SettingsStore } from './SettingsStore';
+
+const HISTORY_KEY = 'research_assistant_triage_history';
+
+// Keep settings storage bounded: oldest records are dropped first, and only
+// the start of each article is stored (the whole history is rewritten on every
+// change, and may live in localStorage)
+const MAX_RECORDS = 500;
+const MAX_STORED_ARTICLE_CHARS = 2000;
+
+const toStored = (record: TriageRecord): TriageRecord => {
+  if (record.articleText.length <= MAX_STORED_ARTICLE_CHARS) return record;
+  return {
+    ...record,
+    articleText: record.articleText.substring(0, MAX_STORED_ARTICLE_CHARS),
+    articleTruncated: true
+  };
+};
+
+/**
+ * Persists completed analyses (with their chat) so they can be searched and reopened
+ */
+export class TriageHistoryService {
+  private store: SettingsStore;
+  private records: TriageRecord[] | null = null;
+
+  constructor(store: SettingsStore) {
+    this.store = store;
+  }
+
+  /**
+   * Load all records, newest first
+   */
+  async load(): Promise<TriageRecord[]> {
+    if (!this.records) {
+      const stored = await this.store.get<TriageRecord[]>(HISTORY_KEY, []);
+      // Records stored before articles were truncated are trimmed on the next write
+      this.records = Array.isArray(stored) ? stored.map(toStored) : [];
+    }
+    return this.records;
+  }
+
+  /**
+   * Whether the history is at its limit, so older records have been dropped
+   */
+  isFull(): boolean {
+    return (this.records?.length || 0) >= MAX_RECORDS;
+  }
+
+  async add(record: TriageRecord): Promise<TriageRecord[]> {
+    const records = await this.load();
+    return this.persist([toStored(record), ...records.filter(r => r.id !== record.id)].slice(0, MAX_RECORDS));
+  }
+
+  async update(id: string, changes: Partial<TriageRecord>): Promise<TriageRecord[]> {
+    const records = await this.load();
+    return this.persist(records.map(r => (r.id === id ? { ...r, ...changes } : r)));
+  }
+
+  async remove(id: string): Promise<TriageRecord[]> {
+    const records = await this.load();
+    return this.persist(records.filter(r => r.id !== id));
+  }
+
+  private async persist(records: TriageRecord[]): Promise<TriageRecord[]> {
+    this.records = records;
+    try {
+      await this.store.set(HISTORY_KEY, records);
+    } catch (error) {
+      // History is a convenience; never block triage on a storage failure
+      console.error('TriageHistoryService: Failed to persist history:', error);
+    }
+    return records;
+  }
+}
+
+export default TriageHistoryService;
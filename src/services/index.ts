@@ -2,6 +2,14 @@
 // TODO: Add your custom services here
 
 export { default as PluginService } from './PluginService';
+export { default as SettingsStore } from './SettingsStore';
+export { default as TriageHistoryService } from './TriageHistoryService';
+export { default as AnalysisCacheService } from './AnalysisCacheService';
+export { default as LibraryService } from './LibraryService';
+export { default as RecentSavesService } from './RecentSavesService';
+export { default as PromptTemplateService } from './PromptTemplateService';
+export { default as OutputRouteService } from './OutputRouteService';
+export { default as FeedService } from './FeedService';
 
 // TODO: Export your custom services
 // export { default as YourCustomService } from './YourCustomService';
\ No newline at end of file
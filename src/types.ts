@@ -1,6 +1,8 @@
 // TEMPLATE: Core type definitions for BrainDrive plugins
 // TODO: Customize these types based on your plugin's specific needs
 
+import type { DuplicateMatch } from './utils/duplicateDetection';
+
 // Service interfaces - these match the BrainDrive service contracts
 export interface ApiService {
   get: (url: string, options?: any) => Promise<ApiResponse>;
@@ -78,22 +80,127 @@ export interface ResearchAssistantState {
   isInitializing: boolean;
   // Article input
   articleText: string;
+  articleSource: ArticleSource | null;
+  articleUrl: string;
+  isFetchingUrl: boolean;
+  isExtractingFile: boolean;
+  isDraggingFile: boolean;
+  // Insight whose quotes are highlighted in the article view (null: show the editor)
+  highlightedInsight: { index: number; spans: QuoteSpan[] } | null;
   // Project selection
   selectedProject: string;
   projects: Project[];
+  triageMode: 'single' | 'multi';
+  multiProjectSlugs: string[];       // Subset to triage against in multi mode (empty = all)
+  multiProjectResults: ProjectTriageResult[];
   // Model selection
   models: ModelInfo[];
   selectedModel: ModelInfo | null;
   isLoadingModels: boolean;
+  compareModels: boolean;            // Analyze with several models side by side
+  compareModelKeys: string[];        // Models to compare (provider_serverId_name)
+  modelComparison: ModelComparison | null;
+  // Batch triage queue
+  queue: QueueItem[];
+  showQueue: boolean;
+  isQueueRunning: boolean;
+  queueConcurrency: number;          // Analyses run at once
+  queueCursor: number;               // Index of the item selected for keyboard stepping
+  // Feed subscriptions and the inbox of pre-triaged entries
+  feedSubscriptions: FeedSubscription[];
+  feedItems: FeedItem[];
+  showFeeds: boolean;
+  isRefreshingFeeds: boolean;
+  showReportExport: boolean;
   // Analysis results
   analysisResult: AnalysisResult | null;
+  analysisCachedAt: string | null;   // Set when analysisResult came from the cache
+  analysisProgress: AnalysisProgress | null;
+  streamingAnalysis: string;     // Raw reply text of the analysis step currently streaming
+  repairAttempt: number;         // > 0 while re-prompting the model to fix an invalid reply
   // Chat
   chatMessages: ChatMessage[];
   chatInput: string;
   isChatLoading: boolean;
+  streamingChatReply: string;
   // Save status
   saveSuccess: string;
   isSaving: boolean;
+  // Triage history
+  triageHistory: TriageRecord[];
+  currentTriageId: string | null;
+  showHistory: boolean;
+  // Existing Library entries that already cover the article being saved
+  duplicateWarning: DuplicateWarning | null;
+  // Entry being reviewed in the save preview before it is appended
+  saveDraft: SaveDraft | null;
+  // Entries recently appended to the Library, which can be undone or moved
+  recentSaves: SavedEntry[];
+  undoEntryId: string | null;    // Last save, while it can still be undone
+  showRecentSaves: boolean;
+  // Prompt templates
+  promptTemplates: PromptTemplate[];
+  projectTemplateIds: Record<string, string>;   // Project slug -> default template ID
+  showTemplates: boolean;
+  // Per-project output routing overrides
+  projectRoutes: Record<string, Partial<OutputRoutes>>;
+  showRoutes: boolean;
+  // Build-plan tasks being proposed from a saved finding
+  taskProposal: TaskProposal | null;
+  // spec.md edits proposed from the current article
+  specProposal: SpecProposal | null;
+  // Weekly research digest
+  showDigest: boolean;
+  digest: ProjectDigest | null;
+  isGeneratingDigest: boolean;
+}
+
+// Where the article text came from, used to cite the source when saving
+export interface PdfArticleSource {
+  type: 'pdf';
+  filename: string;
+  pageCount: number;
+  pageOffsets: number[];     // Character offset where each page starts in articleText
+  title?: string;
+}
+
+export interface UrlArticleSource {
+  type: 'url';
+  url: string;               // URL as entered/fetched
+  canonicalUrl: string;      // <link rel="canonical">, og:url, or the fetched URL
+  title?: string;
+  author?: string;
+  publishedDate?: string;
+  siteName?: string;
+}
+
+// Bibliographic metadata imported from BibTeX, RIS or CSL-JSON
+export interface Citation {
+  key?: string;              // Citation key from the export
+  type?: string;             // BibTeX entry type (article, inproceedings, ...)
+  title: string;
+  authors: string[];         // "Family, Given"
+  year?: string;
+  venue?: string;            // Journal, proceedings or publisher
+  doi?: string;
+  url?: string;
+  abstract?: string;
+}
+
+// Article imported from a citation: its abstract, or the page fetched from its DOI/URL
+export interface CitationArticleSource {
+  type: 'citation';
+  citation: Citation;
+  title?: string;
+  url?: string;              // Page the text was fetched from, when not the abstract
+}
+
+export type ArticleSource = PdfArticleSource | UrlArticleSource | CitationArticleSource;
+
+// An article's text together with where it came from
+export interface ArticleInput {
+  text: string;
+  source: ArticleSource | null;
 }
 
 export interface ResearchAssistantConfig {
@@ -103,14 +210,53 @@ export interface ResearchAssistantConfig {
   aiSettingsId?: string;     // e.g., 'openrouter_settings'
   aiServerId?: string;       // e.g., 'default'
   aiModel?: string;          // e.g., 'anthropic/claude-3-haiku'
+  // Analysis settings
+  maxRepairAttempts?: number; // Re-prompts allowed when the LLM reply fails validation (default 2)
+  // Rubric thresholds the recommendation is derived from (overall score 1-5)
+  rubricIntegrateThreshold?: number;  // Integrate at or above (default 3.8)
+  rubricSaveThreshold?: number;       // Save at or above (default 2.5)
+  rubricMinRelevance?: number;        // Skip below this relevance score (default 3)
+  queueConcurrency?: number;          // Batch queue analyses run at once (default 2)
+  feedRefreshMinutes?: number;        // Refresh feeds this often while open (default 60, 0 = only on load)
+  feedInitialItems?: number;          // Entries of a newly added feed that are analyzed (default 10)
+  // Default output routes (projects can override them in the plugin)
+  integrateRouteMode?: OutputRoute['mode'];
+  integrateRoutePath?: string;
+  integrateRouteHeading?: string;
+  integrateRouteEnabled?: boolean;
+  saveRouteMode?: OutputRoute['mode'];
+  saveRoutePath?: string;
+  saveRouteHeading?: string;
+  saveRouteEnabled?: boolean;
+  skipRouteMode?: OutputRoute['mode'];
+  skipRoutePath?: string;
+  skipRouteHeading?: string;
+  skipRouteEnabled?: boolean;
+  integrateRouteIndexPath?: string;
+  saveRouteIndexPath?: string;
+  skipRouteIndexPath?: string;
+}
+
+// Where the Library entry for each recommendation is written
+export type RouteAction = 'integrate' | 'save' | 'skip';
+
+export interface OutputRoute {
+  enabled: boolean;
+  mode: 'append' | 'new-file' | 'note';
+  path: string;              // Relative to the project folder; may use {date}, {slug}, {project}
+  heading?: string;          // Append only: file entries under this heading, e.g. "## Reading list"
+  indexPath?: string;        // Note only: file that gets a line linking to each note ('' for none)
 }
 
+export type OutputRoutes = Record<RouteAction, OutputRoute>;
+
 export interface ProjectContext {
   project_slug: string;
   agent_md: string | null;
   spec_md: string | null;
   build_plan_md: string | null;
   research_findings_md: string | null;
+  decisions_md: string | null;
 }
 
 export interface ModelInfo {
@@ -136,6 +282,268 @@ export interface AnalysisResult {
   confidence: number;
   insights: string[];
   explanation: string;
+  // Long articles only: section titles each insight came from (parallel to insights)
+  insightSections?: string[][];
+  // Passages quoted from the article in support of each insight (parallel to insights)
+  insightQuotes?: InsightQuote[][];
+  // Long articles only: per-section results from the map step
+  sections?: SectionAnalysis[];
+  // Prompt template that produced this result
+  promptTemplate?: PromptTemplateRef;
+  // Article claims that contradict the project's decisions or saved findings
+  // (missing when the project had nothing to check against or the check failed)
+  conflicts?: AnalysisConflict[];
+  conflictCheckFailed?: boolean;     // Such results are not cached
+  // Scores behind the recommendation; when present the recommendation is
+  // derived from them and the model's own is kept in modelRecommendation
+  rubric?: RubricScores;
+  modelRecommendation?: 'integrate' | 'save' | 'skip';
+}
+
+export type RubricDimension = 'relevance' | 'novelty' | 'credibility' | 'effort' | 'urgency';
+
+export interface RubricScore {
+  score: number;             // 1-5
+  justification: string;     // One line
+}
+
+export type RubricScores = Record<RubricDimension, RubricScore>;
+
+export interface RubricThresholds {
+  integrate: number;         // Overall score to integrate at or above
+  save: number;              // Overall score to save at or above
+  minRelevance: number;      // Relevance below this is always skipped
+}
+
+export interface InsightQuote {
+  text: string;              // As quoted by the model
+  span?: QuoteSpan | null;   // Where it was found in the article text (null: not found)
+}
+
+export interface QuoteSpan {
+  start: number;
+  end: number;
+  fuzzy: boolean;            // Found by similarity rather than verbatim
+}
+
+export interface AnalysisConflict {
+  claim: string;             // What the article says
+  file: string;              // decisions.md or research-findings.md
+  heading: string;           // Heading of the conflicting decision or finding
+  resolution: string;        // Suggested way to resolve it
+}
+
+// Named analysis/chat prompts with {{variable}} placeholders
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  analysisPrompt: string;    // The JSON response format is appended automatically
+  chatPrompt: string;        // System prompt for follow-up chat
+  version: number;           // Incremented every time the template is edited
+  updatedAt: string;
+  builtIn?: boolean;         // Shipped with the plugin; can be duplicated but not edited
+}
+
+export interface PromptTemplateRef {
+  id: string;
+  name: string;
+  version: number;
+}
+
+export interface SectionAnalysis {
+  title: string;
+  recommendation: 'integrate' | 'save' | 'skip';
+  confidence: number;
+  insights: string[];
+  insightQuotes?: InsightQuote[][];
+  explanation: string;
+}
+
+export interface AnalysisProgress {
+  stage: 'map' | 'reduce' | 'conflicts';
+  completed: number;
+  total: number;
+  currentSection?: string;
+}
+
+// One row of a multi-project triage run
+export interface ProjectTriageResult {
+  projectSlug: string;
+  projectName: string;
+  status: 'pending' | 'running' | 'done' | 'error';
+  result?: AnalysisResult;
+  cached?: boolean;
+  error?: string;
+  saveAction: 'integrate' | 'save' | null;   // Where to save this project's findings (null = don't)
+  triageId?: string;                          // History record for this row's analysis
+}
+
+// One model's analysis in compare mode
+export interface ModelComparisonResult {
+  modelKey: string;
+  modelName: string;
+  status: 'pending' | 'running' | 'done' | 'error';
+  result?: AnalysisResult;
+  cached?: boolean;
+  error?: string;
+  triageId?: string;
+}
+
+export interface ModelComparison {
+  projectSlug: string;
+  models: ModelComparisonResult[];
+  consensus: AnalysisResult | null;  // Merged once at least two models have finished
+  consensusTriageId?: string;        // Recorded when the consensus is first used
+}
+
+// An article waiting in (or processed by) the batch triage queue
+export interface QueueItem {
+  id: string;
+  title: string;
+  article: ArticleInput | null;      // null for URL items until they are fetched
+  url?: string;
+  citation?: Citation;               // Imported citation the article belongs to
+  status: 'queued' | 'running' | 'done' | 'error';
+  projectSlug?: string;              // Project it was analyzed against
+  result?: AnalysisResult;
+  cached?: boolean;
+  error?: string;
+  triageId?: string;
+  decision: RouteAction | 'dismiss' | null;  // Applied in bulk; defaults to the recommendation
+  applied?: string;                  // Outcome once the decision was applied (or the item was opened)
+}
+
+// An RSS/Atom feed a project is subscribed to
+export interface FeedSubscription {
+  id: string;
+  projectSlug: string;
+  url: string;               // '' for feeds imported from a file that don't declare their URL
+  title: string;
+  siteUrl?: string;
+  addedAt: string;
+  lastFetchedAt?: string;
+  lastError?: string;        // Set when the last refresh failed
+}
+
+// A feed entry in the inbox, analyzed in the background against its feed's project
+export interface FeedItem {
+  id: string;
+  feedId: string;
+  projectSlug: string;
+  guid: string;
+  title: string;
+  link?: string;
+  author?: string;
+  publishedAt?: string;
+  content: string;           // Start of the text from the feed (full content or summary)
+  contentTruncated?: boolean; // The full text is only kept in memory until the item is removed
+  addedAt: string;
+  status: 'pending' | 'analyzing' | 'done' | 'error';
+  result?: AnalysisResult;   // Without quotes and sections; the triage record has the full result
+  triageId?: string;
+  error?: string;
+  opened?: boolean;          // Opened in the main view
+}
+
+// A weekly digest of a project's saved entries, as shown in the digest panel
+export interface ProjectDigest {
+  projectSlug: string;
+  path: string;              // digests/<yyyy-ww>.md
+  content: string | null;    // null when no digest was written for that week
+}
+
+// A completed analysis kept in the triage history
+export type TriageAction = 'pending' | 'integrate' | 'save' | 'skip' | 'dismiss';
+
+export interface TriageRecord {
+  id: string;
+  articleHash: string;
+  title: string;
+  articleText: string;
+  articleTruncated?: boolean; // Only the start of the article is stored
+  articleSource: ArticleSource | null;
+  projectSlug: string;       // '' when analyzed without a project
+  model: string;
+  result: AnalysisResult;
+  action: TriageAction;
+  chatMessages: ChatMessage[];
+  timestamp: string;         // ISO time the analysis completed
+}
+
+// Save held back because the article looks like it was already saved
+export interface DuplicateWarning {
+  action: RouteAction;
+  matches: DuplicateMatch[];
+}
+
+// Editable version of a Library entry, reviewed before saving
+export interface SaveDraft {
+  entryId: string;           // Embedded in the saved markdown to find the entry again
+  action: RouteAction;
+  projectSlug: string;
+  route: OutputRoute;
+  title: string;
+  insights: DraftInsight[];
+  notes: string;
+  tags: string[];
+  savedAt: string;           // ISO time written into the entry heading
+  model: string;             // Model that produced the analysis
+  analyzedAt: string;        // ISO time of the analysis
+  includeChat: boolean;      // Note only: add the follow-up chat transcript
+}
+
+export interface DraftInsight {
+  text: string;
+  sections: string[];        // Long articles only: sections the insight came from
+}
+
+// An entry appended to a project's Library file
+export interface SavedEntry {
+  id: string;                // Entry ID embedded in the markdown
+  projectSlug: string;
+  filename: string;
+  title: string;
+  content: string;           // Markdown exactly as appended
+  indexFile?: string;        // Notes only: file holding the line that links to the note
+  indexContent?: string;     // Notes only: that line, exactly as appended
+  action?: RouteAction;      // Button the entry was saved with
+  triageId: string | null;   // History record of the analysis that was saved
+  citation?: Citation;       // For exporting the entry to BibTeX
+  savedAt: string;
+}
+
+// build-plan.md tasks proposed by the model for an integrated finding
+export interface TaskProposal {
+  entry: SavedEntry;         // Finding the tasks are linked to
+  phases: string[];          // Section headings of build-plan.md the tasks can go under
+  tasks: ProposedTask[] | null;   // null while the model is still answering
+}
+
+// spec.md edits proposed by the model, reviewed hunk by hunk
+export interface SpecProposal {
+  projectSlug: string;
+  baseSpec: string;          // spec.md as it was when the edits were proposed
+  summary: string;
+  hunks: SpecHunk[] | null;  // null while the model is still answering
+  unmatched: string[];       // Proposed edits that couldn't be applied, with the reason
+}
+
+export interface SpecHunk {
+  id: string;
+  start: number;             // Character range of the changed lines in baseSpec
+  end: number;
+  oldText: string;
+  newText: string;
+  rationale: string;
+  accepted: boolean;
+}
+
+export interface ProposedTask {
+  id: string;
+  title: string;
+  detail: string;
+  phase: string;             // Heading line of the target section ('' = a new "Research Tasks" section)
+  accepted: boolean;
 }
 
 export interface ChatMessage {
@@ -160,4 +568,4 @@ export interface PluginData {
   name: string;
   value: any;
   timestamp: string;
-}
\ No newline at end of file
+}
@@ -255,4 +255,44 @@ export const kebabToCamel = (str: string): string => {
   return str.replace(/-([a-z])/g, (match, letter) => letter.toUpperCase());
 };
 
+/**
+ * Fast non-cryptographic string hash (53-bit cyrb53), returned as hex
+ */
+export const hashString = (str: string, seed: number = 0): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hex = (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+  return ('00000000000000' + hex).slice(-14);
+};
+
+/**
+ * Hash article text after normalizing case and whitespace, so the same
+ * article pasted twice (or re-extracted) gets the same hash
+ */
+export const hashArticle = (text: string): string => {
+  return hashString(text.toLowerCase().replace(/\s+/g, ' ').trim());
+};
+
+/**
+ * Offer text as a file download in the browser
+ */
+export const downloadFile = (filename: string, content: string, type: string = 'text/plain'): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away cancels the download in some browsers (Firefox, Safari)
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
 // TODO: Add more utility functions specific to your plugin's needs
\ No newline at end of file
@@ -0,0 +1,245 @@
+// Validation of LLM analysis replies against the AnalysisResult shape.
+// Cleans up common model output quirks (reasoning blocks, code fences,
+// trailing commas) before parsing, and reports exactly which fields are
+// wrong so the model can be asked to repair its reply.
+
+import { AnalysisResult, InsightQuote } from '../types';
+import { validateRubric } from './rubric';
+
+export interface AnalysisValidation {
+  result: AnalysisResult | null;
+  errors: string[];
+}
+
+const VALID_RECOMMENDATIONS: AnalysisResult['recommendation'][] = ['integrate', 'save', 'skip'];
+const MAX_INSIGHTS = 5;
+const MAX_QUOTES = 3;
+
+/**
+ * Remove <think>/<thinking> reasoning blocks. An unterminated block at the
+ * start of the reply is treated as reasoning that was cut off.
+ */
+export const stripReasoning = (content: string): string => {
+  return content
+    .replace(/<(think|thinking|reasoning)>[\s\S]*?<\/\1>/gi, '')
+    .replace(/^\s*<(think|thinking|reasoning)>[\s\S]*$/i, '')
+    .trim();
+};
+
+/**
+ * Find the first balanced {...} object, ignoring braces inside strings
+ */
+const findJsonObject = (text: string): string | null => {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+
+  // Unbalanced (e.g. truncated reply); return the rest so the parse error is reported
+  return text.slice(start);
+};
+
+/**
+ * Fix trailing commas and typographic quotes used as JSON string delimiters.
+ * Only text outside string literals is touched, so quotes within values are
+ * kept as they are. A string opened with a typographic quote is closed by the
+ * next typographic (or straight) quote that is followed by : , } or ].
+ */
+const repairJsonText = (text: string): string => {
+  let out = '';
+  let inString = false;
+  let typographic = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') {
+        out += ch + (text[i + 1] || '');
+        i++;
+      } else if (typographic && /["“”]/.test(ch) && /^\s*[:,}\]]/.test(text.slice(i + 1))) {
+        out += '"';
+        inString = false;
+      } else if (!typographic && ch === '"') {
+        out += ch;
+        inString = false;
+      } else {
+        out += ch;
+      }
+    } else if (ch === '"' || ch === '“' || ch === '”') {
+      out += '"';
+      inString = true;
+      typographic = ch !== '"';
+    } else if (ch === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      // Trailing comma before a closing bracket
+    } else {
+      out += ch;
+    }
+  }
+
+  return out;
+};
+
+/**
+ * Extract the JSON object text from a model reply
+ */
+export const extractJsonText = (content: string): string | null => {
+  const text = stripReasoning(content);
+
+  // Prefer the contents of a fenced code block when there is one
+  const fenced = text.match(/```(?:json|JSON)?\s*\n?([\s\S]*?)```/);
+  const candidate = findJsonObject(fenced ? fenced[1] : text) || (fenced ? findJsonObject(text) : null);
+
+  if (!candidate) return null;
+
+  try {
+    JSON.parse(candidate);
+    return candidate;
+  } catch {
+    // Trailing commas, or typographic quotes some models emit around keys/values
+    return repairJsonText(candidate);
+  }
+};
+
+const describe = (value: any): string => {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 40 ? value.substring(0, 37) + '...' : value}"`;
+  return typeof value === 'object' ? 'an object' : String(value);
+};
+
+/**
+ * Supporting quotes of an insight object, without surrounding quote marks.
+ * They are located in the article later (see quoteGrounding).
+ */
+const readQuotes = (insight: any): InsightQuote[] => {
+  const raw = Array.isArray(insight?.quotes) ? insight.quotes : typeof insight?.quote === 'string' ? [insight.quote] : [];
+  return raw
+    .filter((quote: any) => typeof quote === 'string')
+    .map((quote: string) => ({ text: quote.trim().replace(/^["“'](.*)["”']$/, '$1').trim() }))
+    .filter((quote: InsightQuote) => quote.text)
+    .slice(0, MAX_QUOTES);
+};
+
+/**
+ * Validate a parsed object against the AnalysisResult shape. Insights may be
+ * strings or {text, quotes, sections} objects; section numbers (reduce step)
+ * are resolved against sectionTitles.
+ */
+export const validateAnalysisResult = (value: any, sectionTitles: string[] = []): AnalysisValidation => {
+  const errors: string[] = [];
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { result: null, errors: [`response: expected a JSON object but got ${describe(value)}`] };
+  }
+
+  const recommendation = typeof value.recommendation === 'string' ? value.recommendation.trim().toLowerCase() : value.recommendation;
+  if (!VALID_RECOMMENDATIONS.includes(recommendation)) {
+    errors.push(`recommendation: expected one of "integrate", "save", "skip" but got ${describe(value.recommendation)}`);
+  }
+
+  const confidence = typeof value.confidence === 'string' && value.confidence.trim() !== '' ? Number(value.confidence) : value.confidence;
+  if (typeof confidence !== 'number' || isNaN(confidence) || confidence < 0 || confidence > 1) {
+    errors.push(`confidence: expected a number between 0.0 and 1.0 but got ${describe(value.confidence)}`);
+  }
+
+  const insights: string[] = [];
+  const insightSections: string[][] = [];
+  const insightQuotes: InsightQuote[][] = [];
+  if (!Array.isArray(value.insights)) {
+    errors.push(`insights: expected an array of strings but got ${describe(value.insights)}`);
+  } else {
+    value.insights.slice(0, MAX_INSIGHTS).forEach((insight: any, i: number) => {
+      const text = typeof insight === 'string' ? insight : insight?.text;
+      if (typeof text !== 'string' || !text.trim()) {
+        errors.push(`insights[${i}]: expected a non-empty string but got ${describe(insight)}`);
+        return;
+      }
+      insights.push(text.trim());
+      insightQuotes.push(readQuotes(insight));
+      insightSections.push((Array.isArray(insight?.sections) ? insight.sections : [])
+        .map((n: any) => sectionTitles[Number(n) - 1])
+        .filter(Boolean));
+    });
+  }
+
+  if (typeof value.explanation !== 'string' || !value.explanation.trim()) {
+    errors.push(`explanation: expected a non-empty string but got ${describe(value.explanation)}`);
+  }
+
+  const { rubric, errors: rubricErrors } = validateRubric(value.rubric);
+  errors.push(...rubricErrors);
+
+  if (errors.length > 0) {
+    return { result: null, errors };
+  }
+
+  const result: AnalysisResult = {
+    recommendation,
+    confidence,
+    insights,
+    insightQuotes,
+    explanation: value.explanation.trim()
+  };
+
+  if (sectionTitles.length > 0) {
+    result.insightSections = insightSections;
+  }
+
+  if (rubric) {
+    result.rubric = rubric;
+  }
+
+  return { result, errors };
+};
+
+/**
+ * Parse and validate a raw model reply into an AnalysisResult
+ */
+export const parseAnalysisResponse = (content: string, sectionTitles: string[] = []): AnalysisValidation => {
+  const jsonText = extractJsonText(content);
+
+  if (!jsonText) {
+    return { result: null, errors: ['response: no JSON object found'] };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (error) {
+    return { result: null, errors: [`response: invalid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+  }
+
+  return validateAnalysisResult(parsed, sectionTitles);
+};
+
+/**
+ * Build the follow-up message asking the model to fix its previous reply
+ */
+export const buildRepairPrompt = (errors: string[]): string => {
+  return `Your previous response could not be used because it did not match the required format:
+
+${errors.map(e => `- ${e}`).join('\n')}
+
+Respond again with ONLY the corrected JSON object - no explanation, no markdown code fences. It must have exactly these fields:
+- "recommendation": one of "integrate", "save", "skip"
+- "confidence": a number between 0.0 and 1.0
+- "insights": an array of {"text", "quotes"} objects (plus "sections" if the original instructions asked for them)
+- "explanation": a non-empty string
+- "rubric" (if the original instructions asked for it): an object with "relevance", "novelty", "credibility", "effort" and "urgency", each {"score": 1-5, "justification": "..."}`;
+};
@@ -0,0 +1,65 @@
+// Batch input for the triage queue: several pasted articles separated by a
+// delimiter line, lists of URLs, and the files that can be queued.
+
+import { normalizeArticleUrl } from './readability';
+import { isPdfFile } from './pdfExtraction';
+
+// Not "---" or "===": those are markdown rules and heading underlines, which
+// pasted articles (and saved Library entries) contain
+export const DEFAULT_ARTICLE_DELIMITER = '%%%';
+
+/**
+ * Split pasted text into articles at every line that consists of the delimiter
+ * alone (surrounding whitespace ignored). Empty pieces are dropped.
+ */
+export const splitPastedArticles = (text: string, delimiter: string = DEFAULT_ARTICLE_DELIMITER): string[] => {
+  const marker = delimiter.trim() || DEFAULT_ARTICLE_DELIMITER;
+  const articles: string[] = [];
+  let current: string[] = [];
+
+  text.split('\n').forEach(line => {
+    if (line.trim() === marker) {
+      articles.push(current.join('\n'));
+      current = [];
+    } else {
+      current.push(line);
+    }
+  });
+  articles.push(current.join('\n'));
+
+  return articles.map(article => article.trim()).filter(Boolean);
+};
+
+/**
+ * http(s) URLs in a pasted list (one per line, or separated by spaces or commas),
+ * normalized and without duplicates. Lines starting with # are comments.
+ */
+export const parseUrlList = (text: string): { urls: string[]; invalid: string[] } => {
+  const urls: string[] = [];
+  const invalid: string[] = [];
+
+  text.split('\n')
+    .filter(line => !line.trim().startsWith('#'))
+    .join(' ')
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .forEach(token => {
+      const url = normalizeArticleUrl(token.replace(/^<|>$/g, ''));
+      if (!url || !/\./.test(new URL(url).hostname)) {
+        invalid.push(token);
+      } else if (urls.indexOf(url) === -1) {
+        urls.push(url);
+      }
+    });
+
+  return { urls, invalid };
+};
+
+/**
+ * Plain-text articles (.txt, .md) that can be queued alongside PDFs
+ */
+export const isTextFile = (file: File): boolean => {
+  return file.type === 'text/plain' || file.type === 'text/markdown' || /\.(txt|md|markdown)$/i.test(file.name);
+};
+
+export const isQueueableFile = (file: File): boolean => isPdfFile(file) || isTextFile(file);
@@ -0,0 +1,194 @@
+// Build-plan tasks proposed from an integrated finding: the phase structure of
+// build-plan.md, the model's task proposals, and inserting accepted tasks into
+// their phase sections.
+
+import { ProposedTask } from '../types';
+import { generateId } from '../utils';
+import { extractJsonText } from './analysisValidation';
+
+export interface BuildPlanSection {
+  heading: string;       // Full heading line, e.g. "## Phase 2: Retrieval"
+  title: string;         // Heading text without the #s
+  tasks: string[];       // Checklist/list items in the section, without the marker
+}
+
+// Section new tasks go under when build-plan.md has no phases (or none fits)
+export const FALLBACK_SECTION = '## Research Tasks';
+
+const MAX_TASKS = 8;
+
+/**
+ * Phase sections of a build plan: every "##"-"####" heading with the list items
+ * under it. The "#" document title is not a phase.
+ */
+export const parseBuildPlan = (markdown: string): BuildPlanSection[] => {
+  const sections: BuildPlanSection[] = [];
+  let current: BuildPlanSection | null = null;
+
+  markdown.split('\n').forEach(line => {
+    const heading = line.match(/^(#{2,4})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      current = { heading: line.trim(), title: heading[2], tasks: [] };
+      sections.push(current);
+      return;
+    }
+
+    const item = line.match(/^\s*[-*]\s+(?:\[[ xX]\]\s+)?(.+)$/);
+    if (item && current) {
+      current.tasks.push(item[1].trim());
+    }
+  });
+
+  return sections;
+};
+
+/**
+ * Outline of the plan for the prompt: section headings with their existing tasks
+ */
+export const formatPlanOutline = (sections: BuildPlanSection[], maxTasksPerSection: number = 10): string => {
+  return sections.map(section => {
+    const tasks = section.tasks.slice(0, maxTasksPerSection).map(task => `  - ${task.substring(0, 160)}`);
+    const more = section.tasks.length > maxTasksPerSection ? [`  - ... ${section.tasks.length - maxTasksPerSection} more`] : [];
+    return [section.heading, ...tasks, ...more].join('\n');
+  }).join('\n');
+};
+
+/**
+ * Parse the model's task proposals. Phases are matched to the plan's section
+ * titles; unknown phases are left for the user to pick.
+ */
+export const parseTaskProposals = (
+  content: string,
+  sections: BuildPlanSection[]
+): { tasks: ProposedTask[]; errors: string[] } => {
+  const jsonText = extractJsonText(content);
+  if (!jsonText) {
+    return { tasks: [], errors: ['response: no JSON object found'] };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (error) {
+    return { tasks: [], errors: [`response: invalid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+  }
+
+  if (!Array.isArray(parsed?.tasks)) {
+    return { tasks: [], errors: ['tasks: must be an array'] };
+  }
+
+  const errors: string[] = [];
+  const tasks: ProposedTask[] = [];
+
+  parsed.tasks.slice(0, MAX_TASKS).forEach((raw: any, i: number) => {
+    const title = typeof raw?.title === 'string' ? raw.title.trim() : '';
+    if (!title) {
+      errors.push(`tasks[${i}].title: must be a non-empty string`);
+      return;
+    }
+
+    const phase = typeof raw.phase === 'string' ? raw.phase.replace(/^#+\s*/, '').trim().toLowerCase() : '';
+    const section = sections.find(s => s.title.toLowerCase() === phase)
+      || sections.find(s => phase && s.title.toLowerCase().startsWith(phase));
+
+    tasks.push({
+      id: generateId(),
+      title,
+      detail: typeof raw.detail === 'string' ? raw.detail.trim() : '',
+      phase: section ? section.heading : '',
+      accepted: true
+    });
+  });
+
+  if (tasks.length === 0 && errors.length === 0) {
+    errors.push('tasks: must contain at least one task');
+  }
+
+  return { tasks, errors: tasks.length > 0 ? [] : errors };
+};
+
+/**
+ * Checklist line for an accepted task, linked to the finding it came from
+ */
+export const formatTaskLine = (task: ProposedTask, sourceTitle: string, sourceLink: string): string => {
+  const detail = task.detail ? ` - ${task.detail}` : '';
+  return `- [ ] ${task.title}${detail} (from [${sourceTitle.replace(/[[\]]/g, '')}](${sourceLink}))`;
+};
+
+/**
+ * Insert accepted tasks at the end of their phase sections. Tasks without a
+ * phase go under FALLBACK_SECTION, which is added at the end if missing.
+ */
+export const insertTasks = (
+  markdown: string,
+  tasks: ProposedTask[],
+  sourceTitle: string,
+  sourceLink: string
+): string => {
+  const byPhase: Record<string, string[]> = {};
+  tasks.forEach(task => {
+    const heading = task.phase || FALLBACK_SECTION;
+    (byPhase[heading] = byPhase[heading] || []).push(formatTaskLine(task, sourceTitle, sourceLink));
+  });
+
+  return Object.keys(byPhase).reduce((plan, heading) => {
+    return insertSectionLines(plan, heading, byPhase[heading]);
+  }, markdown);
+};
+
+/**
+ * Add lines to a heading's section: after its last list item, or as a new list
+ * at the end of the section
+ */
+const insertSectionLines = (markdown: string, heading: string, newLines: string[]): string => {
+  const level = (heading.match(/^(#+)/) || ['', '##'])[1].length;
+  const lines = markdown.split('\n');
+  const headingIndex = lines.findIndex(line => line.trim() === heading.trim());
+
+  if (headingIndex === -1) {
+    const base = markdown.replace(/\s*$/, '');
+    return `${base}${base ? '\n\n' : ''}${heading}\n\n${newLines.join('\n')}\n`;
+  }
+
+  let endIndex = lines.length;
+  for (let i = headingIndex + 1; i < lines.length; i++) {
+    const match = lines[i].match(/^(#+)\s/);
+    if (match && match[1].length <= level) {
+      endIndex = i;
+      break;
+    }
+  }
+
+  // After the section's last list item, so the tasks join its checklist
+  let insertAt = -1;
+  for (let i = endIndex - 1; i > headingIndex; i--) {
+    if (/^[-*]\s/.test(lines[i])) {
+      insertAt = i + 1;
+      break;
+    }
+  }
+
+  if (insertAt !== -1) {
+    // Keep any indented continuation lines with their item
+    while (insertAt < endIndex && /^\s+\S/.test(lines[insertAt])) insertAt++;
+    lines.splice(insertAt, 0, ...newLines);
+  } else {
+    // No list yet: start one after the section's content
+    insertAt = endIndex;
+    while (insertAt > headingIndex + 1 && !lines[insertAt - 1].trim()) insertAt--;
+    const trailing = insertAt < lines.length && lines[insertAt].trim() === '' ? [] : [''];
+    lines.splice(insertAt, 0, '', ...newLines, ...(insertAt < lines.length ? trailing : []));
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Follow-up message asking the model to fix an unusable task reply
+ */
+export const buildTaskRepairPrompt = (errors: string[]): string => {
+  return `Your previous response could not be used:
+
+${errors.map(e => `- ${e}`).join('\n')}
+
+Respond again with ONLY a JSON object of the form {"tasks": [{"title": "...", "detail": "...", "phase": "..."}]} - no explanation, no markdown code fences.`;
+};
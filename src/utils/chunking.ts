@@ -0,0 +1,161 @@
+// Splits long articles into section-aligned chunks for map-reduce analysis.
+
+export interface ArticleChunk {
+  index: number;
+  title: string;       // Section heading(s) covered by the chunk
+  text: string;
+  start: number;       // Character offsets into the original article
+  end: number;
+}
+
+interface Section {
+  title: string;
+  text: string;
+  start: number;
+}
+
+// Headings commonly found in papers and reports
+const KNOWN_HEADINGS = /^(abstract|summary|introduction|background|related work|method(s|ology)?|approach|experiments?|evaluation|results|discussion|limitations|future work|conclusions?|acknowl?edge?ments?|references|bibliography|appendix)\b/i;
+
+/**
+ * Decide whether a single line is a section heading
+ */
+const isHeadingLine = (line: string): boolean => {
+  const t = line.trim();
+  if (!t || t.length > 100) return false;
+  if (/^#{1,6}\s+\S/.test(t)) return true;                                  // Markdown
+  if (/^(\d+(\.\d+)*|[IVX]+)\.?\s+[A-Z][^.!?]*$/.test(t) && t.length < 80) return true; // "3.1 Results"
+  if (KNOWN_HEADINGS.test(t) && t.split(/\s+/).length <= 5 && !/[.,;]$/.test(t)) return true;
+  return t.length >= 4 && t.length < 60 && t === t.toUpperCase() && /[A-Z]{3}/.test(t); // ALL CAPS
+};
+
+const headingText = (line: string): string => {
+  return line.trim().replace(/^#{1,6}\s+/, '');
+};
+
+/**
+ * Split the article into sections at heading lines. Text before the first
+ * heading becomes an "Opening" section.
+ */
+const splitSections = (text: string): Section[] => {
+  const sections: Section[] = [];
+  let current: Section = { title: 'Opening', text: '', start: 0 };
+  let offset = 0;
+
+  text.split('\n').forEach(line => {
+    // A heading must stand on its own line (blank line before or start of text)
+    const prevBlank = current.text === '' || /\n\s*$/.test(current.text);
+    if (isHeadingLine(line) && prevBlank) {
+      if (current.text.trim()) sections.push(current);
+      current = { title: headingText(line), text: '', start: offset };
+    }
+    current.text += line + '\n';
+    offset += line.length + 1;
+  });
+
+  if (current.text.trim()) sections.push(current);
+  return sections;
+};
+
+/**
+ * Break text that exceeds maxChars at paragraph, then sentence, then hard boundaries
+ */
+const splitOversized = (text: string, maxChars: number): string[] => {
+  if (text.length <= maxChars) return [text];
+
+  const pieces: string[] = [];
+  let buffer = '';
+
+  const units = text.split(/(\n\s*\n)/).reduce<string[]>((acc, part) => {
+    // Keep the blank-line separator attached to the preceding paragraph
+    if (/^\n\s*\n$/.test(part) && acc.length > 0) {
+      acc[acc.length - 1] += part;
+    } else if (part) {
+      acc.push(part);
+    }
+    return acc;
+  }, []);
+
+  const flush = () => {
+    if (buffer.trim()) pieces.push(buffer);
+    buffer = '';
+  };
+
+  units.forEach(unit => {
+    if (unit.length > maxChars) {
+      flush();
+      const sentences = unit.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [unit];
+      sentences.forEach(sentence => {
+        if (buffer.length + sentence.length > maxChars) flush();
+        for (let i = 0; i < sentence.length; i += maxChars) {
+          const slice = sentence.slice(i, i + maxChars);
+          if (slice.length === maxChars) {
+            flush();
+            pieces.push(slice);
+          } else {
+            buffer += slice;
+          }
+        }
+      });
+      return;
+    }
+    if (buffer.length + unit.length > maxChars) flush();
+    buffer += unit;
+  });
+
+  flush();
+  return pieces;
+};
+
+/**
+ * Split an article into chunks of at most maxChars, packing whole sections
+ * together where they fit and splitting oversized sections on paragraph boundaries.
+ */
+export const splitArticle = (text: string, maxChars: number): ArticleChunk[] => {
+  const chunks: ArticleChunk[] = [];
+  let pending: { titles: string[]; text: string; start: number } | null = null;
+
+  const pushChunk = (title: string, chunkText: string, start: number) => {
+    chunks.push({
+      index: chunks.length,
+      title,
+      text: chunkText.trim(),
+      start,
+      end: start + chunkText.length
+    });
+  };
+
+  const flushPending = () => {
+    if (pending && pending.text.trim()) {
+      const titles = pending.titles;
+      const title = titles.length > 2 ? `${titles[0]} – ${titles[titles.length - 1]}` : titles.join(', ');
+      pushChunk(title, pending.text, pending.start);
+    }
+    pending = null;
+  };
+
+  splitSections(text).forEach(section => {
+    if (section.text.length > maxChars) {
+      flushPending();
+      const parts = splitOversized(section.text, maxChars);
+      let start = section.start;
+      parts.forEach((part, i) => {
+        pushChunk(parts.length > 1 ? `${section.title} (part ${i + 1})` : section.title, part, start);
+        start += part.length;
+      });
+      return;
+    }
+
+    if (pending && pending.text.length + section.text.length > maxChars) {
+      flushPending();
+    }
+    if (!pending) {
+      pending = { titles: [], text: '', start: section.start };
+    }
+    pending.titles.push(section.title);
+    pending.text += section.text;
+  });
+
+  flushPending();
+  return chunks;
+};
@@ -0,0 +1,410 @@
+// Citation metadata: parsing BibTeX, RIS and CSL-JSON exports (e.g. from
+// Zotero), the citation line written into saved entries, and BibTeX export.
+
+import { Citation } from '../types';
+
+export type CitationFormat = 'bibtex' | 'ris' | 'csl-json';
+
+// LaTeX accent commands and the combining marks they stand for
+const LATEX_ACCENTS: Record<string, string> = {
+  '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303',
+  '=': '\u0304', '.': '\u0307', 'c': '\u0327', 'u': '\u0306', 'v': '\u030c', 'H': '\u030b'
+};
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  ss: 'ß', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ',
+  o: 'ø', O: 'Ø', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'i'
+};
+
+// BibTeX entry types for RIS (TY) and CSL (type) types; anything else is misc
+const RIS_TYPES: Record<string, string> = {
+  JOUR: 'article', JFULL: 'article', MGZN: 'article', NEWS: 'article',
+  CONF: 'inproceedings', CPAPER: 'inproceedings', BOOK: 'book', CHAP: 'incollection',
+  RPRT: 'techreport', THES: 'phdthesis', UNPB: 'unpublished'
+};
+
+const CSL_TYPES: Record<string, string> = {
+  'article-journal': 'article', 'article-magazine': 'article', 'article-newspaper': 'article',
+  'paper-conference': 'inproceedings', book: 'book', chapter: 'incollection',
+  report: 'techreport', thesis: 'phdthesis', manuscript: 'unpublished'
+};
+
+/**
+ * Plain text of a BibTeX value: accents resolved, escapes and braces removed
+ */
+export const cleanLatex = (value: string): string => {
+  return value
+    .replace(/\{?\\([a-zA-Z]{1,2})\}?(?![a-zA-Z])/g, (match, name) => LATEX_SYMBOLS[name] || match)
+    .replace(/\{?\\(["'`^~=.]|[cuvH](?=[\s{]))\s*\{?([a-zA-Z])\}?\}?/g, (match, accent, letter) => {
+      return LATEX_ACCENTS[accent] ? (letter + LATEX_ACCENTS[accent]).normalize('NFC') : match;
+    })
+    .replace(/\\([&%$#_{}])/g, '$1')
+    // Remaining commands (\emph{...}, \textit{...}) keep only their argument
+    .replace(/\\[a-zA-Z]+\*?\s*/g, '')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/[{}]/g, '')
+    .replace(/~/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+export const normalizeDoi = (value: string | undefined): string | undefined => {
+  const doi = (value || '').trim().replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '');
+  return doi || undefined;
+};
+
+export const doiUrl = (doi: string): string => `https://doi.org/${doi}`;
+
+/**
+ * Author as "Family, Given" from either "Family, Given" or "Given Family"
+ */
+const normalizeAuthor = (name: string): string => {
+  const trimmed = name.replace(/\s+/g, ' ').trim();
+  if (!trimmed || trimmed.includes(',')) return trimmed;
+  const parts = trimmed.split(' ');
+  if (parts.length === 1) return trimmed;
+  // Keep particles with the family name ("van der Berg")
+  let split = parts.length - 1;
+  while (split > 1 && /^[a-z]/.test(parts[split - 1])) split--;
+  return `${parts.slice(split).join(' ')}, ${parts.slice(0, split).join(' ')}`;
+};
+
+const yearOf = (value: string | number | undefined): string | undefined => {
+  const match = String(value ?? '').match(/\d{4}/);
+  return match ? match[0] : undefined;
+};
+
+// ---------------------------------------------------------------------------
+// BibTeX
+// ---------------------------------------------------------------------------
+
+/**
+ * Split at a separator, ignoring separators nested in braces
+ */
+const splitTopLevel = (text: string, separator: RegExp): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}') depth--;
+    else if (depth === 0) {
+      const match = text.substring(i).match(separator);
+      if (match && match.index === 0) {
+        parts.push(text.substring(start, i));
+        i += match[0].length - 1;
+        start = i + 1;
+      }
+    }
+  }
+  parts.push(text.substring(start));
+  return parts;
+};
+
+/**
+ * Read one field value ({...}, "..." or a bare word, possibly joined with #)
+ * starting at position i; returns the value and the position after it
+ */
+const readBibValue = (body: string, i: number, strings: Record<string, string>): { value: string; end: number } => {
+  const parts: string[] = [];
+
+  while (i < body.length) {
+    while (/\s/.test(body[i])) i++;
+
+    if (body[i] === '{' || body[i] === '"') {
+      const close = body[i] === '{' ? '}' : '"';
+      let depth = 0;
+      let j = i + 1;
+      for (; j < body.length; j++) {
+        if (body[j] === '{') depth++;
+        else if (body[j] === '}' && (depth > 0 || close !== '}')) depth--;
+        else if (body[j] === close && depth === 0) break;
+        if (depth < 0) break;
+      }
+      parts.push(body.substring(i + 1, j));
+      i = j + 1;
+    } else {
+      const match = body.substring(i).match(/^[^,#}\s]+/);
+      const word = match ? match[0] : '';
+      parts.push(strings[word.toLowerCase()] ?? word);
+      i += word.length;
+    }
+
+    while (/\s/.test(body[i])) i++;
+    if (body[i] !== '#') break;
+    i++;
+  }
+
+  return { value: parts.join(''), end: i };
+};
+
+const parseBibFields = (body: string, strings: Record<string, string>): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  let i = 0;
+
+  while (i < body.length) {
+    const match = body.substring(i).match(/^[\s,]*([A-Za-z][\w:-]*)\s*=\s*/);
+    if (!match) break;
+    const { value, end } = readBibValue(body, i + match[0].length, strings);
+    fields[match[1].toLowerCase()] = value;
+    i = end;
+  }
+
+  return fields;
+};
+
+/**
+ * Entries of a BibTeX file. @string macros are expanded; @comment and
+ * @preamble are ignored.
+ */
+export const parseBibtex = (text: string): Citation[] => {
+  const citations: Citation[] = [];
+  const strings: Record<string, string> = {};
+  const entryStart = /@(\w+)\s*([{(])/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = entryStart.exec(text)) !== null) {
+    const type = match[1].toLowerCase();
+    const open = match[2];
+    const close = open === '{' ? '}' : ')';
+
+    // Find the matching closing delimiter
+    let depth = 1;
+    let end = entryStart.lastIndex;
+    for (; end < text.length && depth > 0; end++) {
+      if (text[end] === open) depth++;
+      else if (text[end] === close) depth--;
+    }
+    const body = text.substring(entryStart.lastIndex, end - 1);
+    entryStart.lastIndex = end;
+
+    if (type === 'comment' || type === 'preamble') continue;
+    if (type === 'string') {
+      const fields = parseBibFields(body, strings);
+      Object.keys(fields).forEach(key => { strings[key] = fields[key]; });
+      continue;
+    }
+
+    const comma = body.indexOf(',');
+    const key = (comma === -1 ? body : body.substring(0, comma)).trim();
+    const fields = parseBibFields(comma === -1 ? '' : body.substring(comma + 1), strings);
+    const title = cleanLatex(fields.title || '');
+    if (!title) continue;
+
+    citations.push({
+      key: key || undefined,
+      type,
+      title,
+      authors: fields.author
+        ? splitTopLevel(fields.author, /^\s+and\s+/i).map(author => normalizeAuthor(cleanLatex(author))).filter(Boolean)
+        : [],
+      year: yearOf(fields.year || fields.date),
+      venue: cleanLatex(fields.journal || fields.journaltitle || fields.booktitle || fields.publisher || fields.school || fields.institution || fields.howpublished || '') || undefined,
+      doi: normalizeDoi(fields.doi),
+      url: fields.url?.trim() || undefined,
+      abstract: cleanLatex(fields.abstract || '') || undefined
+    });
+  }
+
+  return citations;
+};
+
+// ---------------------------------------------------------------------------
+// RIS
+// ---------------------------------------------------------------------------
+
+/**
+ * Records of a RIS file (TY to ER)
+ */
+export const parseRis = (text: string): Citation[] => {
+  const citations: Citation[] = [];
+  let fields: Record<string, string[]> | null = null;
+
+  const finish = () => {
+    if (!fields) return;
+    const first = (...tags: string[]) => tags.map(tag => fields?.[tag]?.[0]).find(Boolean);
+    const title = first('TI', 'T1', 'CT', 'BT');
+    if (title) {
+      const type = RIS_TYPES[first('TY') || ''] || 'misc';
+      citations.push({
+        key: first('ID'),
+        type,
+        title,
+        authors: (fields.AU || fields.A1 || []).map(normalizeAuthor),
+        year: yearOf(first('PY', 'Y1', 'DA')),
+        venue: first('T2', 'JO', 'JF', 'JA', 'J2')
+          // BT is the book a chapter is in, but the title itself for whole books
+          || (first('BT') !== title ? first('BT') : undefined)
+          || (type === 'book' ? first('PB') : undefined),
+        doi: normalizeDoi(first('DO')),
+        url: first('UR'),
+        abstract: first('AB', 'N2')
+      });
+    }
+    fields = null;
+  };
+
+  text.split(/\r?\n/).forEach(line => {
+    const match = line.match(/^([A-Z][A-Z0-9])  - ?(.*)$/);
+    if (!match) {
+      // Continuation of a long abstract
+      const last = fields?.AB || fields?.N2;
+      if (last && line.trim()) last[last.length - 1] += ` ${line.trim()}`;
+      return;
+    }
+    const [, tag, value] = match;
+    if (tag === 'TY') {
+      finish();
+      fields = {};
+    }
+    if (tag === 'ER') {
+      finish();
+      return;
+    }
+    if (fields && value.trim()) {
+      fields[tag] = (fields[tag] || []).concat(value.trim());
+    }
+  });
+  finish();
+
+  return citations;
+};
+
+// ---------------------------------------------------------------------------
+// CSL-JSON
+// ---------------------------------------------------------------------------
+
+const cslAuthor = (author: any): string => {
+  if (author?.literal) return String(author.literal);
+  return [author?.family, author?.given].filter(Boolean).join(', ');
+};
+
+/**
+ * Items of a CSL-JSON export (an array of items, or a single item)
+ */
+export const parseCslJson = (text: string): Citation[] => {
+  const data = JSON.parse(text);
+  const items: any[] = Array.isArray(data) ? data : data?.items || [data];
+
+  return items
+    .filter(item => item && typeof item.title === 'string' && item.title.trim())
+    .map(item => {
+      const issued = item.issued?.['date-parts']?.[0]?.[0] ?? item.issued?.raw ?? item.issued?.literal;
+      const abstract = typeof item.abstract === 'string' ? item.abstract.replace(/<[^>]+>/g, '').trim() : '';
+      return {
+        key: item['citation-key'] || (item.id !== undefined ? String(item.id) : undefined),
+        type: CSL_TYPES[item.type] || 'misc',
+        title: item.title.trim(),
+        authors: (Array.isArray(item.author) ? item.author : []).map(cslAuthor).filter(Boolean),
+        year: yearOf(issued),
+        venue: item['container-title'] || item.publisher || undefined,
+        doi: normalizeDoi(item.DOI),
+        url: item.URL || undefined,
+        abstract: abstract || undefined
+      };
+    });
+};
+
+// ---------------------------------------------------------------------------
+// Detection, formatting and export
+// ---------------------------------------------------------------------------
+
+export const isCitationFile = (file: File): boolean => /\.(bib|bibtex|ris|json)$/i.test(file.name);
+
+/**
+ * Detect the format of a citation export and parse it
+ */
+export const parseCitations = (text: string): { format: CitationFormat; citations: Citation[] } => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    return { format: 'csl-json', citations: parseCslJson(trimmed) };
+  }
+  if (/^TY  -/m.test(trimmed)) {
+    return { format: 'ris', citations: parseRis(trimmed) };
+  }
+  if (/@\w+\s*[{(]/.test(trimmed)) {
+    return { format: 'bibtex', citations: parseBibtex(trimmed) };
+  }
+  throw new Error('Not a BibTeX, RIS or CSL-JSON file');
+};
+
+/**
+ * "Family, G." with initials for the given names
+ */
+const shortAuthor = (author: string): string => {
+  const [family, given] = author.split(/,\s*/);
+  if (!given) return family;
+  const initials = given.split(/[\s-]+/).filter(Boolean).map(name => `${name[0].toUpperCase()}.`).join(' ');
+  return `${family}, ${initials}`;
+};
+
+/**
+ * One-line citation in the same format for every saved entry:
+ * Authors (Year). Title. Venue. https://doi.org/...
+ */
+export const formatCitation = (citation: Citation): string => {
+  const authors = citation.authors.map(shortAuthor);
+  const byline = authors.length > 3
+    ? `${authors.slice(0, 3).join(', ')}, et al.`
+    : authors.length > 1
+      ? `${authors.slice(0, -1).join(', ')} & ${authors[authors.length - 1]}`
+      : authors[0] || '';
+
+  const parts = [
+    `${byline ? `${byline} ` : ''}(${citation.year || 'n.d.'}).`,
+    `${citation.title.replace(/\.$/, '')}.`,
+    citation.venue ? `*${citation.venue}*.` : '',
+    citation.doi ? doiUrl(citation.doi) : citation.url || ''
+  ];
+  return parts.filter(Boolean).join(' ');
+};
+
+/**
+ * Link for a citation: its DOI, else its URL
+ */
+export const citationUrl = (citation: Citation): string | undefined => {
+  return citation.doi ? doiUrl(citation.doi) : citation.url;
+};
+
+/**
+ * Citation key: the given key, else first author's family name, year and the
+ * first word of the title (vaswani2017attention)
+ */
+export const citationKey = (citation: Citation): string => {
+  if (citation.key && /^[^\s,{}]+$/.test(citation.key)) return citation.key;
+  const family = (citation.authors[0] || 'anon').split(',')[0];
+  const word = citation.title.split(/\s+/).find(w => w.length > 3) || citation.title;
+  const ascii = (value: string) => value.normalize('NFD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+  return `${ascii(family)}${citation.year || ''}${ascii(word)}`;
+};
+
+const escapeBibtex = (value: string): string => value.replace(/([&%$#_])/g, '\\$1');
+
+/**
+ * BibTeX entry for a citation
+ */
+export const toBibtex = (citation: Citation): string => {
+  const type = citation.type && /^\w+$/.test(citation.type) ? citation.type : 'misc';
+  const venueField = type === 'article'
+    ? 'journal'
+    : type === 'inproceedings' || type === 'incollection'
+      ? 'booktitle'
+      : type === 'book' ? 'publisher' : 'howpublished';
+
+  const fields: [string, string | undefined][] = [
+    ['title', citation.title],
+    ['author', citation.authors.length > 0 ? citation.authors.join(' and ') : undefined],
+    ['year', citation.year],
+    [venueField, citation.venue],
+    ['doi', citation.doi],
+    ['url', citation.url],
+    ['abstract', citation.abstract]
+  ];
+
+  const lines = fields
+    .filter(([, value]) => value)
+    .map(([name, value]) => `  ${name} = {${name === 'url' || name === 'doi' ? value : escapeBibtex(value as string)}}`);
+
+  return `@${type}{${citationKey(citation)},\n${lines.join(',\n')}\n}\n`;
+};
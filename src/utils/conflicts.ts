@@ -0,0 +1,131 @@
+// Contradiction detection: the project's recorded decisions and saved findings
+// are condensed into numbered references the model can cite when an article
+// claim conflicts with one of them.
+
+import { AnalysisConflict } from '../types';
+import { parseLibraryEntries, headingAnchor } from './duplicateDetection';
+import { extractJsonText } from './analysisValidation';
+import { relativePath, encodeLinkPath } from './noteFormat';
+
+export interface ConflictReference {
+  ref: string;           // e.g. "D3", cited by the model
+  file: string;
+  heading: string;
+  excerpt: string;
+}
+
+export interface ConflictSource {
+  filename: string;
+  markdown: string;
+  prefix: string;        // Reference prefix, e.g. "D" for decisions
+}
+
+// Prompt budget for all references together, and per reference
+const REFERENCE_BUDGET = 8000;
+const EXCERPT_LENGTH = 400;
+
+/**
+ * Numbered references for every "## " entry in the given files. When they
+ * don't all fit the budget the most recent (last) entries of each file are kept.
+ */
+export const collectConflictReferences = (sources: ConflictSource[], budget: number = REFERENCE_BUDGET): ConflictReference[] => {
+  const perFile = Math.floor(budget / Math.max(1, sources.length));
+
+  return sources.reduce<ConflictReference[]>((all, source) => {
+    const entries = parseLibraryEntries(source.markdown, source.filename);
+    const references: ConflictReference[] = [];
+    let used = 0;
+
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const excerpt = entries[i].content
+        .replace(/^#{2,3} .*$/m, '')
+        .replace(/<details>[\s\S]*?<\/details>/g, '')
+        .replace(/<!--.*?-->/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .substring(0, EXCERPT_LENGTH);
+      const cost = entries[i].heading.length + excerpt.length;
+      if (used + cost > perFile && references.length > 0) break;
+      used += cost;
+      references.unshift({ ref: '', file: source.filename, heading: entries[i].heading, excerpt });
+    }
+
+    references.forEach((reference, i) => { reference.ref = `${source.prefix}${i + 1}`; });
+    return all.concat(references);
+  }, []);
+};
+
+/**
+ * References as listed in the prompt
+ */
+export const formatConflictReferences = (references: ConflictReference[]): string => {
+  return references
+    .map(reference => `[${reference.ref}] ${reference.file} > ${reference.heading}\n${reference.excerpt}`)
+    .join('\n\n');
+};
+
+/**
+ * Parse the model's conflicts, resolving each cited reference. Conflicts citing
+ * unknown references are dropped.
+ */
+export const parseConflicts = (
+  content: string,
+  references: ConflictReference[]
+): { conflicts: AnalysisConflict[]; errors: string[] } => {
+  const jsonText = extractJsonText(content);
+  if (!jsonText) {
+    return { conflicts: [], errors: ['response: no JSON object found'] };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (error) {
+    return { conflicts: [], errors: [`response: invalid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+  }
+
+  if (!Array.isArray(parsed?.conflicts)) {
+    return { conflicts: [], errors: ['conflicts: must be an array (empty if there are none)'] };
+  }
+
+  const conflicts: AnalysisConflict[] = [];
+  parsed.conflicts.forEach((raw: any) => {
+    const ref = typeof raw?.ref === 'string' ? raw.ref.replace(/[[\]\s]/g, '').toUpperCase() : '';
+    const reference = references.find(r => r.ref === ref);
+    const claim = typeof raw?.claim === 'string' ? raw.claim.trim() : '';
+    if (!reference || !claim) return;
+
+    conflicts.push({
+      claim,
+      file: reference.file,
+      heading: reference.heading,
+      resolution: typeof raw.resolution === 'string' ? raw.resolution.trim() : ''
+    });
+  });
+
+  return { conflicts, errors: [] };
+};
+
+/**
+ * Markdown list of conflicts for a saved entry, linking each conflicting
+ * heading relative to the file the entry is saved in
+ */
+export const formatConflictList = (conflicts: AnalysisConflict[], savedPath: string): string => {
+  return conflicts.map(conflict => {
+    const link = `${encodeLinkPath(relativePath(savedPath, conflict.file))}#${headingAnchor(conflict.heading)}`;
+    const heading = conflict.heading.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/[[\]]/g, '');
+    const resolution = conflict.resolution ? ` Suggested resolution: ${conflict.resolution}` : '';
+    return `- "${conflict.claim}" conflicts with [${heading}](${link}) in ${conflict.file}.${resolution}`;
+  }).join('\n');
+};
+
+/**
+ * Follow-up message asking the model to fix an unusable conflicts reply
+ */
+export const buildConflictRepairPrompt = (errors: string[]): string => {
+  return `Your previous response could not be used:
+
+${errors.map(e => `- ${e}`).join('\n')}
+
+Respond again with ONLY a JSON object of the form {"conflicts": [{"claim": "...", "ref": "D1", "resolution": "..."}]} (an empty array if there are no conflicts) - no explanation, no markdown code fences.`;
+};
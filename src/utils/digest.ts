@@ -0,0 +1,249 @@
+// Weekly research digest: the Library entries saved since a date (found by the
+// "## yyyy-mm-dd time - title" headings of appended entries, and by the
+// "- yyyy-mm-dd - [title](note)" index lines of notes), the model's synthesis
+// of them, and the digest file written to digests/<yyyy-ww>.md.
+
+import { parseLibraryEntries } from './duplicateDetection';
+import { extractJsonText } from './analysisValidation';
+import { relativePath, encodeLinkPath, resolveLinkPath } from './noteFormat';
+
+export interface DigestEntry {
+  filename: string;
+  date: string;              // yyyy-mm-dd the entry was saved
+  title: string;
+  anchor: string;            // '' for notes, which are whole files
+  content: string;           // Entry body without its heading, marker and excerpt
+}
+
+// A note linked from an index file
+export interface NoteLink {
+  path: string;              // Relative to the project folder
+  date: string;
+  title: string;
+}
+
+export interface DigestTheme {
+  title: string;
+  detail: string;
+  entries: number[];         // Indexes into the digest's entries
+}
+
+export interface DigestSynthesis {
+  summary: string;
+  themes: DigestTheme[];
+  openQuestions: string[];
+  nextSteps: string[];
+  errors: string[];
+}
+
+const ENTRY_HEADING = /^(\d{4}-\d{2}-\d{2}) .+? - (.+)$/;
+// Link targets may hold balanced parentheses from the note's filename
+const INDEX_LINE = /^- (\d{4}-\d{2}-\d{2}) - \[(.*?)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/gm;
+const NOTE_ANALYZED = /^analyzed:\s*"?(\d{4}-\d{2}-\d{2})/m;
+const NOTE_EXCERPT = /\n## (Article Excerpt|Abstract|Excerpt from .*)\n\n>[\s\S]*$/;
+const MAX_THEMES = 6;
+const MAX_LIST_ITEMS = 8;
+
+const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+
+/**
+ * Entries of the given files dated on or after `since` (yyyy-mm-dd), oldest first
+ */
+export const collectEntriesSince = (files: Record<string, string | null>, since: string): DigestEntry[] => {
+  const entries: DigestEntry[] = [];
+
+  Object.keys(files).forEach(filename => {
+    parseLibraryEntries(files[filename] || '', filename).forEach(entry => {
+      const match = entry.heading.match(ENTRY_HEADING);
+      if (!match || match[1] < since) return;
+
+      entries.push({
+        filename,
+        date: match[1],
+        // Headings of fetched articles link to the source page
+        title: match[2].replace(/^\[(.*)\]\(.*\)$/, '$1').trim(),
+        anchor: entry.anchor,
+        content: entry.content
+          .replace(/^.*\n/, '')
+          .replace(/<!--.*?-->/g, '')
+          .replace(/<details>[\s\S]*?<\/details>/g, '')
+          .replace(/\n---\s*$/, '')
+          .trim()
+      });
+    });
+  });
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Notes linked from an index file on or after `since`, once per note
+ */
+export const collectNoteLinks = (index: string, indexPath: string, since: string): NoteLink[] => {
+  const links: NoteLink[] = [];
+  let match: RegExpExecArray | null;
+  INDEX_LINE.lastIndex = 0;
+  while ((match = INDEX_LINE.exec(index)) !== null) {
+    const path = resolveLinkPath(indexPath, match[3]);
+    if (match[1] >= since && !links.some(link => link.path === path)) {
+      links.push({ path, date: match[1], title: match[2].trim() });
+    }
+  }
+  return links;
+};
+
+/**
+ * A note as a digest entry, dated by its frontmatter `analyzed` date: the body
+ * without its frontmatter, marker, title and the excerpt (and chat) at the end
+ */
+export const noteDigestEntry = (markdown: string, link: NoteLink): DigestEntry => {
+  const frontmatter = markdown.match(/^---\n([\s\S]*?)\n---\n/);
+  const analyzed = frontmatter?.[1].match(NOTE_ANALYZED);
+
+  return {
+    filename: link.path,
+    date: analyzed ? analyzed[1] : link.date,
+    title: link.title,
+    anchor: '',
+    content: markdown
+      .slice(frontmatter ? frontmatter[0].length : 0)
+      .replace(/<!--.*?-->/g, '')
+      .replace(/^\s*# .*\n/, '')
+      .replace(NOTE_EXCERPT, '')
+      .trim()
+  };
+};
+
+/**
+ * ISO 8601 week of a date (weeks start on Monday; week 1 holds the first Thursday)
+ */
+export const isoWeek = (date: Date): { year: number; week: number } => {
+  const day = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday);
+  const yearStart = new Date(Date.UTC(day.getUTCFullYear(), 0, 1));
+  return { year: day.getUTCFullYear(), week: Math.ceil(((day.getTime() - yearStart.getTime()) / 86400000 + 1) / 7) };
+};
+
+export const formatWeek = (date: Date): string => {
+  const { year, week } = isoWeek(date);
+  return `${year}-${pad(week)}`;
+};
+
+export const digestPath = (date: Date): string => `digests/${formatWeek(date)}.md`;
+
+const stringList = (value: any, field: string, errors: string[]): string[] => {
+  if (!Array.isArray(value)) {
+    errors.push(`${field}: must be an array of strings`);
+    return [];
+  }
+  return value
+    .map(item => (typeof item === 'string' ? item.trim() : ''))
+    .filter(Boolean)
+    .slice(0, MAX_LIST_ITEMS);
+};
+
+/**
+ * Validate the model's digest reply. Entry numbers are 1-based in the prompt.
+ */
+export const parseDigestResponse = (content: string, entryCount: number): DigestSynthesis => {
+  const empty = { summary: '', themes: [], openQuestions: [], nextSteps: [] };
+  const jsonText = extractJsonText(content);
+  if (!jsonText) {
+    return { ...empty, errors: ['response: no JSON object found'] };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (error) {
+    return { ...empty, errors: [`response: invalid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+  }
+
+  const errors: string[] = [];
+  const summary = typeof parsed?.summary === 'string' ? parsed.summary.trim() : '';
+  if (!summary) errors.push('summary: must be a non-empty string');
+
+  const themes: DigestTheme[] = [];
+  if (!Array.isArray(parsed?.themes) || parsed.themes.length === 0) {
+    errors.push('themes: must be a non-empty array');
+  } else {
+    parsed.themes.slice(0, MAX_THEMES).forEach((raw: any, i: number) => {
+      const title = typeof raw?.title === 'string' ? raw.title.trim() : '';
+      if (!title) {
+        errors.push(`themes[${i}].title: must be a non-empty string`);
+        return;
+      }
+      const numbers: any[] = Array.isArray(raw.entries) ? raw.entries : [];
+      themes.push({
+        title,
+        detail: typeof raw.detail === 'string' ? raw.detail.trim() : '',
+        entries: numbers
+          .map(n => Number(n) - 1)
+          .filter((n, j, all) => Number.isInteger(n) && n >= 0 && n < entryCount && all.indexOf(n) === j)
+      });
+    });
+  }
+
+  return {
+    summary,
+    themes,
+    openQuestions: stringList(parsed?.openQuestions, 'openQuestions', errors),
+    nextSteps: stringList(parsed?.nextSteps, 'nextSteps', errors),
+    errors
+  };
+};
+
+export const buildDigestRepairPrompt = (errors: string[]): string => {
+  return `Your previous response could not be used:
+
+${errors.map(e => `- ${e}`).join('\n')}
+
+Respond again with ONLY a JSON object of the form {"summary": "...", "themes": [{"title": "...", "detail": "...", "entries": [1, 2]}], "openQuestions": ["..."], "nextSteps": ["..."]} - no explanation, no markdown code fences.`;
+};
+
+/**
+ * Digest markdown. Links to the entries are relative to the digest file.
+ */
+export const formatDigest = (
+  synthesis: DigestSynthesis,
+  entries: DigestEntry[],
+  options: { projectName: string; path: string; since: string; generatedAt: Date; model: string }
+): string => {
+  const link = (entry: DigestEntry) => {
+    const target = `${encodeLinkPath(relativePath(options.path, entry.filename))}${entry.anchor ? `#${entry.anchor}` : ''}`;
+    return `[${entry.title.replace(/[[\]]/g, '')}](${target})`;
+  };
+  const today = `${options.generatedAt.getFullYear()}-${pad(options.generatedAt.getMonth() + 1)}-${pad(options.generatedAt.getDate())}`;
+
+  const lines = [
+    `# Research digest: ${options.projectName}, week ${formatWeek(options.generatedAt)}`,
+    '',
+    `_${entries.length} entr${entries.length !== 1 ? 'ies' : 'y'} saved from ${options.since} to ${today} · ${options.model}_`,
+    '',
+    '## Summary',
+    '',
+    synthesis.summary,
+    '',
+    '## Themes',
+    ''
+  ];
+
+  synthesis.themes.forEach(theme => {
+    lines.push(`### ${theme.title}`, '');
+    if (theme.detail) lines.push(theme.detail, '');
+    if (theme.entries.length > 0) {
+      lines.push(`Sources: ${theme.entries.map(i => link(entries[i])).join(', ')}`, '');
+    }
+  });
+
+  if (synthesis.openQuestions.length > 0) {
+    lines.push('## Open Questions', '', ...synthesis.openQuestions.map(q => `- ${q}`), '');
+  }
+  if (synthesis.nextSteps.length > 0) {
+    lines.push('## Suggested Next Steps', '', ...synthesis.nextSteps.map(step => `- [ ] ${step}`), '');
+  }
+
+  lines.push('## Entries', '', ...entries.map(entry => `- ${entry.date}: ${link(entry)} (${entry.filename})`), '');
+  return lines.join('\n');
+};
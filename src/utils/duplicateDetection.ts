@@ -0,0 +1,268 @@
+// Detects whether an article (or its insights) was already saved to a project's
+// research-findings.md / ideas.md (or as a note), and merges new findings into an
+// existing entry.
+
+export interface LibraryEntry {
+  filename: string;
+  heading: string;
+  anchor: string;        // GitHub-style heading anchor, e.g. "2024-05-01-1030-am---title"; '' for notes
+  content: string;       // Full entry markdown, from its heading to the next one
+  start: number;         // Offsets of the entry within the file
+  end: number;
+  urls: string[];
+  insights: string[];
+}
+
+export interface DuplicateMatch {
+  entry: LibraryEntry;
+  reasons: string[];     // Human-readable explanation of each signal that matched
+  score: number;         // 0-1, strongest signal
+}
+
+export interface DuplicateCandidate {
+  articleText: string;
+  sourceUrl?: string;
+  insights: string[];
+}
+
+// Shingle size (words) for text similarity, and the thresholds for a match
+const SHINGLE_SIZE = 5;
+const TEXT_SIMILARITY_THRESHOLD = 0.5;
+const INSIGHT_SIMILARITY_THRESHOLD = 0.5;
+
+// Key Insights list of an appended entry ("**Key Insights:**") or a note ("## Key Insights")
+const INSIGHTS_LIST = /(?:\*\*Key Insights:\*\*\n|## Key Insights\n\n)((?:- .*\n?)+)/;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'for', 'from', 'has', 'have', 'in', 'is',
+  'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with'
+]);
+
+/**
+ * GitHub-style anchor for a markdown heading
+ */
+export const headingAnchor = (heading: string): string => {
+  return heading
+    .toLowerCase()
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/\s/g, '-');
+};
+
+/**
+ * Normalize a URL for comparison: lowercase host, no fragment, tracking
+ * parameters or trailing slash
+ */
+export const normalizeUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    const params = parsed.searchParams;
+    Array.from(params.keys())
+      .filter(key => /^(utm_|fbclid|gclid|ref$|source$)/i.test(key))
+      .forEach(key => params.delete(key));
+    const path = parsed.pathname.replace(/\/+$/, '');
+    const query = params.toString();
+    return `${parsed.hostname.replace(/^www\./, '').toLowerCase()}${path}${query ? `?${query}` : ''}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+};
+
+const entryUrls = (content: string): string[] => {
+  return Array.from(new Set(content.match(/https?:\/\/[^\s)>\]"]+/g) || []));
+};
+
+const entryInsights = (content: string): string[] => {
+  const insightsBlock = content.match(INSIGHTS_LIST);
+  return insightsBlock
+    ? insightsBlock[1].split('\n').filter(l => l.startsWith('- ')).map(l => l.slice(2).replace(/\s+_\(.*\)_$/, '').trim())
+    : [];
+};
+
+/**
+ * Split a Library markdown file into entries at "## " headings ("### " for
+ * entries filed under a section heading)
+ */
+export const parseLibraryEntries = (markdown: string, filename: string): LibraryEntry[] => {
+  const entries: LibraryEntry[] = [];
+  const headingPattern = /^#{2,3} (.+)$/gm;
+  const starts: { index: number; heading: string }[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = headingPattern.exec(markdown)) !== null) {
+    starts.push({ index: match.index, heading: match[1].trim() });
+  }
+
+  starts.forEach((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].index : markdown.length;
+    const content = markdown.slice(start.index, end);
+
+    entries.push({
+      filename,
+      heading: start.heading,
+      anchor: headingAnchor(start.heading),
+      content,
+      start: start.index,
+      end,
+      urls: entryUrls(content),
+      insights: entryInsights(content)
+    });
+  });
+
+  return entries;
+};
+
+/**
+ * A note file as a single entry, headed by its title. The source URL is found
+ * in its frontmatter as well as its body.
+ */
+export const parseNoteEntry = (markdown: string, filename: string): LibraryEntry => {
+  const title = markdown.match(/^# (.+)$/m);
+  return {
+    filename,
+    heading: title ? title[1].trim() : filename,
+    anchor: '',
+    content: markdown,
+    start: 0,
+    end: markdown.length,
+    urls: entryUrls(markdown),
+    insights: entryInsights(markdown)
+  };
+};
+
+const words = (text: string): string[] => {
+  return text.toLowerCase().replace(/[^\w\s]/g, ' ').split(/\s+/).filter(Boolean);
+};
+
+/**
+ * Set of overlapping word n-grams ("shingles") for near-duplicate detection
+ */
+export const shingles = (text: string, size: number = SHINGLE_SIZE): Set<string> => {
+  const tokens = words(text);
+  const result = new Set<string>();
+  for (let i = 0; i + size <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + size).join(' '));
+  }
+  return result;
+};
+
+/**
+ * Fraction of the smaller shingle set contained in the larger one. Containment
+ * (rather than Jaccard) lets a short saved excerpt match a full article.
+ */
+export const shingleContainment = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  small.forEach(s => {
+    if (large.has(s)) shared++;
+  });
+  return shared / small.size;
+};
+
+const keywordSet = (text: string): Set<string> => {
+  return new Set(words(text).filter(w => w.length > 2 && !STOPWORDS.has(w)));
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(x => {
+    if (b.has(x)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Pairs of insights (new, existing) that say essentially the same thing
+ */
+export const findOverlappingInsights = (insights: string[], existing: string[]): [string, string][] => {
+  const existingSets = existing.map(e => ({ text: e, set: keywordSet(e) }));
+  const pairs: [string, string][] = [];
+  insights.forEach(insight => {
+    const set = keywordSet(insight);
+    const best = existingSets.find(e => jaccard(set, e.set) >= INSIGHT_SIMILARITY_THRESHOLD);
+    if (best) pairs.push([insight, best.text]);
+  });
+  return pairs;
+};
+
+/**
+ * Find existing Library entries that already cover this article, by source URL,
+ * shingled text similarity of the saved excerpt, or overlapping insights
+ */
+export const findDuplicates = (candidate: DuplicateCandidate, entries: LibraryEntry[]): DuplicateMatch[] => {
+  const url = candidate.sourceUrl ? normalizeUrl(candidate.sourceUrl) : null;
+  const articleShingles = shingles(candidate.articleText);
+  const matches: DuplicateMatch[] = [];
+
+  entries.forEach(entry => {
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (url && entry.urls.some(u => normalizeUrl(u) === url)) {
+      reasons.push('Same source URL');
+      score = 1;
+    }
+
+    // Compare against the entry body minus the structured fields
+    const entryText = entry.content
+      .replace(/^---\n[\s\S]*?\n---\n/, '')
+      .replace(/^#{1,3} .*$/m, '')
+      .replace(/\*\*[^*]+:\*\*.*$/gm, '')
+      .replace(/<\/?(details|summary)>|<!--.*?-->/g, '');
+    const similarity = shingleContainment(articleShingles, shingles(entryText));
+    if (similarity >= TEXT_SIMILARITY_THRESHOLD) {
+      reasons.push(`Article text ${Math.round(similarity * 100)}% similar to the saved excerpt`);
+      score = Math.max(score, similarity);
+    }
+
+    const overlapping = findOverlappingInsights(candidate.insights, entry.insights);
+    const insightRatio = candidate.insights.length > 0 ? overlapping.length / candidate.insights.length : 0;
+    if (overlapping.length >= 2 || (overlapping.length > 0 && insightRatio >= 0.5)) {
+      reasons.push(`${overlapping.length} of ${candidate.insights.length} insights already recorded`);
+      score = Math.max(score, insightRatio);
+    }
+
+    if (reasons.length > 0) {
+      matches.push({ entry, reasons, score });
+    }
+  });
+
+  return matches.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Merge new findings into an existing entry: insights not already present are
+ * added to its Key Insights list, and a dated note records the repeat sighting.
+ */
+export const mergeIntoEntry = (entry: LibraryEntry, newInsights: string[], note: string): string => {
+  const additions = newInsights.filter(insight => findOverlappingInsights([insight], entry.insights).length === 0);
+
+  // Preserve the whitespace separating this entry from the next one
+  const trailingWhitespace = entry.content.match(/\s*$/)?.[0] || '';
+  let content = entry.content.slice(0, entry.content.length - trailingWhitespace.length);
+  const hasRule = content.endsWith('\n---');
+  if (hasRule) {
+    content = content.slice(0, -4).replace(/\s+$/, '');
+  }
+
+  if (additions.length > 0) {
+    const list = content.match(INSIGHTS_LIST);
+    if (list && list.index !== undefined) {
+      const insertAt = list.index + list[0].replace(/\n$/, '').length;
+      content = content.slice(0, insertAt)
+        + additions.map(a => `\n- ${a}`).join('')
+        + content.slice(insertAt);
+    } else {
+      content += `\n\n**Key Insights:**\n${additions.map(a => `- ${a}`).join('\n')}`;
+    }
+  }
+
+  content += `\n\n${note}`;
+  if (hasRule) content += '\n\n---';
+
+  return content + trailingWhitespace;
+};
@@ -0,0 +1,94 @@
+// Unique IDs embedded in saved Library entries so an entry can be found again
+// (to undo, remove or move it) even after other entries are added around it.
+
+import { generateId } from '../utils';
+
+const MARKER_PATTERN = /<!-- ra-entry:([\w-]+) -->/;
+
+export const createEntryId = (): string => {
+  return `${Date.now().toString(36)}-${generateId()}`;
+};
+
+/**
+ * HTML comment carrying the entry ID; invisible when the markdown is rendered
+ */
+export const formatEntryMarker = (id: string): string => {
+  return `<!-- ra-entry:${id} -->`;
+};
+
+/**
+ * Read the entry ID from saved entry markdown
+ */
+export const readEntryId = (content: string): string | null => {
+  const match = content.match(MARKER_PATTERN);
+  return match ? match[1] : null;
+};
+
+/**
+ * Locate a saved entry in a file. The exact appended content is preferred; if the
+ * entry was edited since, the block is found from its marker: from the heading
+ * above it to the next heading (or end of file), including the blank
+ * lines that separated it from the previous entry.
+ */
+export const findEntryBlock = (markdown: string, id: string, appended?: string): { start: number; end: number } | null => {
+  if (appended) {
+    const exact = markdown.lastIndexOf(appended);
+    if (exact !== -1) {
+      return { start: exact, end: exact + appended.length };
+    }
+  }
+
+  const markerIndex = markdown.indexOf(formatEntryMarker(id));
+  if (markerIndex === -1) return null;
+
+  // Entries filed under a route heading are written at "### "
+  const headingPattern = /\n#{1,3} /g;
+  let start = -1;
+  let match: RegExpExecArray | null;
+  while ((match = headingPattern.exec(markdown)) !== null && match.index < markerIndex) {
+    start = match.index;
+  }
+  start = start === -1 ? 0 : start + 1;
+  while (start > 0 && markdown[start - 1] === '\n') start--;
+
+  const next = match ? match.index : -1;
+  let end = next === -1 ? markdown.length : next + 1;
+  if (next !== -1) {
+    // Leave the separator before the next entry in place
+    while (end > start && markdown[end - 1] === '\n') end--;
+  } else if (start > 0) {
+    // Last entry in the file: keep the newline ending the previous entry
+    start++;
+  }
+
+  return { start, end };
+};
+
+/**
+ * Remove a saved entry from a file; null when it can't be found
+ */
+export const removeEntryBlock = (markdown: string, id: string, appended?: string): string | null => {
+  const block = findEntryBlock(markdown, id, appended);
+  if (!block) return null;
+  return markdown.slice(0, block.start) + markdown.slice(block.end);
+};
+
+/**
+ * Remove a single line carrying an entry's marker (e.g. a note's index line),
+ * preferring the exact appended text; null when it can't be found
+ */
+export const removeMarkedLine = (markdown: string, id: string, appended?: string): string | null => {
+  if (appended) {
+    const exact = markdown.lastIndexOf(appended);
+    if (exact !== -1) {
+      return markdown.slice(0, exact) + markdown.slice(exact + appended.length);
+    }
+  }
+
+  const marker = formatEntryMarker(id);
+  const lines = markdown.split('\n');
+  const index = lines.findIndex(line => line.includes(marker));
+  if (index === -1) return null;
+  lines.splice(index, 1);
+  return lines.join('\n');
+};
@@ -0,0 +1,162 @@
+// RSS/Atom feed parsing (RSS 2.0, RSS 1.0/RDF and Atom 1.0) and ordering of
+// the feed inbox.
+
+import { FeedItem } from '../types';
+
+export interface ParsedFeedEntry {
+  guid: string;              // <guid>, <id> or rdf:about; else the link, else title and date
+  title: string;
+  link?: string;
+  author?: string;
+  publishedAt?: string;      // ISO time when the feed's date could be parsed
+  content: string;           // Plain text of the entry's full content, else its summary
+}
+
+export interface ParsedFeed {
+  title: string;
+  siteUrl?: string;
+  selfUrl?: string;          // The feed's own URL, when it declares one
+  entries: ParsedFeedEntry[];
+}
+
+const BLOCK_END = /<\/(p|div|li|h[1-6]|blockquote|pre|tr|section|article)>|<br\s*\/?>/gi;
+
+// Element children matched by local name, so namespace prefixes (content:, dc:, atom:) don't matter
+const childElements = (parent: Element, name: string): Element[] => {
+  return Array.from(parent.children).filter(child => child.localName === name);
+};
+
+const childText = (parent: Element, ...names: string[]): string => {
+  for (const name of names) {
+    const text = (childElements(parent, name)[0]?.textContent || '').trim();
+    if (text) return text;
+  }
+  return '';
+};
+
+/**
+ * Plain text of an HTML fragment (feed descriptions are usually escaped HTML),
+ * keeping paragraph breaks
+ */
+export const htmlToText = (html: string): string => {
+  if (!/<[a-z!/]/i.test(html)) return html.trim();
+  const doc = new DOMParser().parseFromString(html.replace(BLOCK_END, match => `${match}\n\n`), 'text/html');
+  return (doc.body.textContent || '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const toIsoDate = (value: string): string | undefined => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+/**
+ * The link if it is an absolute http(s) URL; feeds are third-party content, so
+ * javascript:, data: and other links are dropped
+ */
+const httpLink = (value: string | null | undefined): string | undefined => {
+  try {
+    const url = new URL((value || '').trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const atomLink = (parent: Element, rel: string): string | undefined => {
+  const link = childElements(parent, 'link').find(el => (el.getAttribute('rel') || 'alternate') === rel);
+  return link?.getAttribute('href')?.trim() || undefined;
+};
+
+const entryGuid = (explicit: string, link: string | undefined, title: string, date: string): string => {
+  return explicit || link || `${title}|${date}`;
+};
+
+const parseRssItem = (item: Element): ParsedFeedEntry => {
+  const title = htmlToText(childText(item, 'title')) || 'Untitled';
+  const rawLink = childText(item, 'link') || undefined;
+  const date = childText(item, 'pubDate', 'date');
+  return {
+    guid: entryGuid(childText(item, 'guid') || item.getAttribute('rdf:about') || '', rawLink, title, date),
+    title,
+    link: httpLink(rawLink),
+    author: childText(item, 'creator', 'author') || undefined,
+    publishedAt: toIsoDate(date),
+    content: htmlToText(childText(item, 'encoded', 'description'))
+  };
+};
+
+const parseAtomEntry = (entry: Element): ParsedFeedEntry => {
+  const title = htmlToText(childText(entry, 'title')) || 'Untitled';
+  const rawLink = atomLink(entry, 'alternate');
+  const date = childText(entry, 'published', 'updated');
+  const author = childElements(entry, 'author')[0];
+  return {
+    guid: entryGuid(childText(entry, 'id'), rawLink, title, date),
+    title,
+    link: httpLink(rawLink),
+    author: author ? childText(author, 'name') || undefined : undefined,
+    publishedAt: toIsoDate(date),
+    content: htmlToText(childText(entry, 'content', 'summary'))
+  };
+};
+
+/**
+ * Parse an RSS or Atom document. Throws when the XML is malformed or isn't a feed.
+ */
+export const parseFeed = (xml: string): ParsedFeed => {
+  const doc = new DOMParser().parseFromString(xml.trim(), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The feed is not well-formed XML');
+  }
+
+  const root = doc.documentElement;
+
+  if (root.localName === 'feed') {
+    return {
+      title: htmlToText(childText(root, 'title')) || 'Untitled feed',
+      siteUrl: httpLink(atomLink(root, 'alternate')),
+      selfUrl: atomLink(root, 'self'),
+      entries: childElements(root, 'entry').map(parseAtomEntry)
+    };
+  }
+
+  if (root.localName === 'rss' || root.localName === 'RDF') {
+    const channel = childElements(root, 'channel')[0];
+    if (!channel) {
+      throw new Error('The RSS feed has no channel');
+    }
+    // RSS 2.0 nests items in the channel, RSS 1.0 places them beside it
+    const items = childElements(channel, 'item').concat(childElements(root, 'item'));
+    const self = childElements(channel, 'link').find(el => el.getAttribute('rel') === 'self');
+    return {
+      title: htmlToText(childText(channel, 'title')) || 'Untitled feed',
+      siteUrl: httpLink(childElements(channel, 'link').find(el => !el.getAttribute('href'))?.textContent),
+      selfUrl: self?.getAttribute('href')?.trim() || undefined,
+      entries: items.map(parseRssItem)
+    };
+  }
+
+  throw new Error('Not an RSS or Atom feed');
+};
+
+const RECOMMENDATION_RANK: Record<string, number> = { integrate: 0, save: 1, skip: 2 };
+
+/**
+ * Inbox order: analyzed items by recommendation (integrate first), then
+ * confidence, then newest; items still waiting for analysis or failed come last
+ */
+export const sortFeedInbox = (items: FeedItem[]): FeedItem[] => {
+  const rank = (item: FeedItem) => (item.result ? RECOMMENDATION_RANK[item.result.recommendation] : 3);
+  const time = (item: FeedItem) => Date.parse(item.publishedAt || item.addedAt) || 0;
+  return items.slice().sort((a, b) => {
+    return (rank(a) - rank(b))
+      || ((b.result?.confidence || 0) - (a.result?.confidence || 0))
+      || (time(b) - time(a));
+  });
+};
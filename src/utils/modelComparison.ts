@@ -0,0 +1,184 @@
+// Model comparison: how far the analyses of several models agree (the
+// recommendation, confidence and overlapping insights), and a consensus
+// result merged from them.
+
+import { AnalysisResult, AnalysisConflict, InsightQuote } from '../types';
+
+export interface ModelAgreement {
+  recommendation: AnalysisResult['recommendation'];  // Majority recommendation
+  agreeing: number;          // Models that gave it
+  total: number;
+  level: 'full' | 'majority' | 'split';
+  confidenceSpread: number;  // Highest minus lowest confidence
+  sharedInsights: number;    // Insights given (in some wording) by two or more models
+}
+
+export interface InsightCluster {
+  members: { result: number; insight: number }[];
+  models: number;            // Distinct results the insight appears in
+}
+
+const STOP_WORDS = [
+  'the', 'and', 'for', 'that', 'this', 'with', 'from', 'are', 'was', 'were', 'can', 'could',
+  'should', 'would', 'will', 'into', 'than', 'then', 'them', 'they', 'their', 'its', 'has',
+  'have', 'had', 'not', 'but', 'our', 'your', 'more', 'most', 'such', 'also', 'which', 'when',
+  'how', 'what', 'about', 'over', 'these', 'those', 'using', 'used', 'use', 'may', 'all', 'any'
+];
+
+// Share of the shorter insight's words the other must contain to count as the same insight
+const SIMILARITY_THRESHOLD = 0.5;
+const MAX_CONSENSUS_INSIGHTS = 5;
+const MAX_CONSENSUS_QUOTES = 3;
+
+const RECOMMENDATION_ORDER: AnalysisResult['recommendation'][] = ['integrate', 'save', 'skip'];
+
+const contentWords = (text: string): string[] => {
+  const words = (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    // Crude stemming so "retriever"/"retrieval" and plurals line up
+    .map(word => (word.length > 5 ? word.substring(0, 6) : word))
+    .filter(word => word.length > 2 && STOP_WORDS.indexOf(word) === -1);
+  return words.filter((word, i) => words.indexOf(word) === i);
+};
+
+/**
+ * Whether two insights say roughly the same thing (overlap of their content words)
+ */
+export const insightsMatch = (a: string, b: string): boolean => {
+  const wordsA = contentWords(a);
+  const wordsB = contentWords(b);
+  const shorter = Math.min(wordsA.length, wordsB.length);
+  if (shorter === 0) return false;
+  const shared = wordsA.filter(word => wordsB.indexOf(word) !== -1).length;
+  return shared / shorter >= SIMILARITY_THRESHOLD;
+};
+
+/**
+ * Group the insights of all results into clusters of matching insights, in
+ * order of first appearance. Each insight joins the first cluster whose first
+ * insight it matches.
+ */
+export const clusterInsights = (results: AnalysisResult[]): InsightCluster[] => {
+  const clusters: InsightCluster[] = [];
+
+  results.forEach((result, r) => {
+    result.insights.forEach((text, i) => {
+      const cluster = clusters.find(c => {
+        const first = c.members[0];
+        return insightsMatch(results[first.result].insights[first.insight], text);
+      });
+      if (cluster) {
+        if (!cluster.members.some(member => member.result === r)) cluster.models++;
+        cluster.members.push({ result: r, insight: i });
+      } else {
+        clusters.push({ members: [{ result: r, insight: i }], models: 1 });
+      }
+    });
+  });
+
+  return clusters;
+};
+
+/**
+ * For each result, which of its insights another result also gives
+ */
+export const findSharedInsights = (results: AnalysisResult[]): boolean[][] => {
+  const shared = results.map(result => result.insights.map(() => false));
+  clusterInsights(results)
+    .filter(cluster => cluster.models > 1)
+    .forEach(cluster => cluster.members.forEach(member => { shared[member.result][member.insight] = true; }));
+  return shared;
+};
+
+/**
+ * Majority recommendation; ties go to the recommendation with the higher
+ * average confidence
+ */
+const majorityRecommendation = (results: AnalysisResult[]): AnalysisResult['recommendation'] => {
+  const score = (recommendation: AnalysisResult['recommendation']) => {
+    const matching = results.filter(result => result.recommendation === recommendation);
+    const meanConfidence = matching.reduce((sum, result) => sum + result.confidence, 0) / Math.max(1, matching.length);
+    return matching.length + meanConfidence / 2;
+  };
+  return RECOMMENDATION_ORDER.reduce((best, recommendation) => (score(recommendation) > score(best) ? recommendation : best));
+};
+
+export const measureAgreement = (results: AnalysisResult[]): ModelAgreement => {
+  const recommendation = majorityRecommendation(results);
+  const agreeing = results.filter(result => result.recommendation === recommendation).length;
+  const confidences = results.map(result => result.confidence);
+
+  return {
+    recommendation,
+    agreeing,
+    total: results.length,
+    level: agreeing === results.length ? 'full' : agreeing > results.length / 2 ? 'majority' : 'split',
+    confidenceSpread: confidences.length > 0 ? Math.max(...confidences) - Math.min(...confidences) : 0,
+    sharedInsights: clusterInsights(results).filter(cluster => cluster.models > 1).length
+  };
+};
+
+/**
+ * One result merged from several models: the majority recommendation, the
+ * agreeing models' average confidence scaled by how many agree, and the
+ * insights most models gave (worded as by the most confident agreeing model)
+ */
+export const buildConsensus = (results: AnalysisResult[], modelNames: string[]): AnalysisResult => {
+  const agreement = measureAgreement(results);
+  const agreeingIndexes = results
+    .map((result, i) => i)
+    .filter(i => results[i].recommendation === agreement.recommendation)
+    .sort((a, b) => results[b].confidence - results[a].confidence);
+
+  // Cluster with the agreeing models first so their wording leads each cluster
+  const order = agreeingIndexes.concat(results.map((result, i) => i).filter(i => agreeingIndexes.indexOf(i) === -1));
+  const ordered = order.map(i => results[i]);
+  const clusters = clusterInsights(ordered)
+    .map((cluster, position) => ({ cluster, position }))
+    .sort((a, b) => (b.cluster.models - a.cluster.models) || (a.position - b.position))
+    .map(item => item.cluster);
+
+  const shared = clusters.filter(cluster => cluster.models > 1);
+  // When few insights are shared, fill up with the lead model's own
+  const chosen = shared.length >= 3
+    ? shared
+    : shared.concat(clusters.filter(cluster => cluster.models === 1 && cluster.members[0].result === 0)).slice(0, 3);
+
+  const insights: string[] = [];
+  const insightQuotes: InsightQuote[][] = [];
+  chosen.slice(0, MAX_CONSENSUS_INSIGHTS).forEach(cluster => {
+    const first = cluster.members[0];
+    insights.push(ordered[first.result].insights[first.insight]);
+    const quotes: InsightQuote[] = [];
+    cluster.members.forEach(member => {
+      (ordered[member.result].insightQuotes?.[member.insight] || []).forEach(quote => {
+        if (quotes.length < MAX_CONSENSUS_QUOTES && !quotes.some(q => q.text === quote.text)) quotes.push(quote);
+      });
+    });
+    insightQuotes.push(quotes);
+  });
+
+  const lead = results[agreeingIndexes[0]];
+  const meanConfidence = agreeingIndexes.reduce((sum, i) => sum + results[i].confidence, 0) / agreeingIndexes.length;
+  const names = agreeingIndexes.map(i => modelNames[i]).join(', ');
+
+  const conflicts = results.reduce<AnalysisConflict[] | undefined>((all, result) => {
+    if (!result.conflicts) return all;
+    const merged = all || [];
+    result.conflicts.forEach(conflict => {
+      if (!merged.some(c => c.file === conflict.file && c.heading === conflict.heading)) merged.push(conflict);
+    });
+    return merged;
+  }, undefined);
+
+  const consensus: AnalysisResult = {
+    recommendation: agreement.recommendation,
+    confidence: Math.round(meanConfidence * (agreement.agreeing / agreement.total) * 100) / 100,
+    insights,
+    insightQuotes: results.some(result => result.insightQuotes) ? insightQuotes : undefined,
+    explanation: `${agreement.agreeing} of ${agreement.total} models (${names}) recommend "${agreement.recommendation}". ${lead.explanation}`,
+    promptTemplate: lead.promptTemplate
+  };
+  if (conflicts) consensus.conflicts = conflicts;
+
+  return consensus;
+};
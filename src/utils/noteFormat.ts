@@ -0,0 +1,65 @@
+// Standalone research notes: one markdown file per article with YAML
+// frontmatter, plus the index line that links to it from a findings file.
+
+export type FrontmatterValue = string | number | string[] | null | undefined;
+
+/**
+ * YAML scalar for a frontmatter value. Strings are double-quoted with JSON
+ * escaping, which is also valid YAML.
+ */
+const toYamlValue = (value: string | number | string[]): string => {
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return `[${value.map(v => JSON.stringify(v)).join(', ')}]`;
+  return JSON.stringify(value);
+};
+
+/**
+ * YAML frontmatter block. Empty values are left out rather than written as blanks.
+ */
+export const formatFrontmatter = (fields: Record<string, FrontmatterValue>): string => {
+  const lines = Object.keys(fields)
+    .filter(key => {
+      const value = fields[key];
+      return value !== null && value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0);
+    })
+    .map(key => `${key}: ${toYamlValue(fields[key] as string | number | string[])}`);
+
+  return `---\n${lines.join('\n')}\n---\n`;
+};
+
+/**
+ * Path of `to` relative to the folder of `from` (both relative to the project folder)
+ */
+export const relativePath = (from: string, to: string): string => {
+  const fromDirs = from.split('/').slice(0, -1);
+  const toParts = to.split('/');
+
+  let shared = 0;
+  while (shared < fromDirs.length && shared < toParts.length - 1 && fromDirs[shared] === toParts[shared]) {
+    shared++;
+  }
+
+  const ups = fromDirs.slice(shared).map(() => '..');
+  return ups.concat(toParts.slice(shared)).join('/');
+};
+
+/**
+ * Project path of a relative link target written in the file at `from` (the
+ * inverse of relativePath with encodeLinkPath)
+ */
+export const resolveLinkPath = (from: string, link: string): string => {
+  const parts = from.split('/').slice(0, -1);
+  link.split('#')[0].split('/').forEach(part => {
+    const decoded = decodeURIComponent(part);
+    if (decoded === '..') parts.pop();
+    else if (decoded && decoded !== '.') parts.push(decoded);
+  });
+  return parts.join('/');
+};
+
+/**
+ * Markdown link target with spaces and parentheses escaped
+ */
+export const encodeLinkPath = (path: string): string => {
+  return path.split('/').map(part => encodeURIComponent(part)).join('/');
+};
@@ -0,0 +1,154 @@
+// Output routing: where each recommendation's Library entry is written.
+// A route either appends to a file (optionally under a heading), creates a
+// new file per entry, or writes a standalone note with YAML frontmatter and an
+// index line; paths may use {date}, {slug} and {project}.
+
+import { OutputRoute, OutputRoutes, RouteAction, ResearchAssistantConfig } from '../types';
+
+export const ROUTE_ACTIONS: RouteAction[] = ['integrate', 'save', 'skip'];
+
+export const DEFAULT_OUTPUT_ROUTES: OutputRoutes = {
+  integrate: { enabled: true, mode: 'append', path: 'research-findings.md' },
+  save: { enabled: true, mode: 'append', path: 'ideas.md' },
+  skip: { enabled: false, mode: 'append', path: 'triage-log.md' }
+};
+
+// Findings file that links to each note unless a route names another
+export const DEFAULT_NOTE_INDEX_PATH = 'research-findings.md';
+
+export interface RouteVariables {
+  date: string;       // yyyy-mm-dd
+  title: string;      // Entry title, slugified for {slug}
+  project: string;    // Project slug
+}
+
+/**
+ * URL/file-name friendly version of a title
+ */
+export const slugify = (text: string, maxLength: number = 60): string => {
+  const slug = text
+    .toLowerCase()
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug.substring(0, maxLength).replace(/-+$/, '') || 'untitled';
+};
+
+/**
+ * Fill in {date}, {slug} and {project} in a route path. Leading slashes and ".."
+ * segments are dropped so a route can't point outside the project folder.
+ */
+export const resolveRoutePath = (path: string, variables: RouteVariables): string => {
+  return path
+    .replace(/\{date\}/g, variables.date)
+    .replace(/\{slug\}/g, slugify(variables.title))
+    .replace(/\{project\}/g, variables.project)
+    .split('/')
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/');
+};
+
+/**
+ * Markdown heading level entries are written at: one below the route heading
+ * they're filed under, otherwise 2. Never deeper than 3, the levels entries
+ * are read back at (see parseLibraryEntries and findEntryBlock).
+ */
+export const entryHeadingLevel = (route: OutputRoute): number => {
+  const match = route.mode === 'append' && route.heading ? route.heading.match(/^(#{1,5})\s/) : null;
+  return match ? Math.min(match[1].length + 1, 3) : 2;
+};
+
+/**
+ * Insert an entry at the end of a heading's section (before the next heading of
+ * the same or a higher level). The heading is added at the end of the file if missing.
+ */
+export const insertUnderHeading = (markdown: string, heading: string, entry: string): string => {
+  const level = (heading.match(/^(#+)/) || ['', '##'])[1].length;
+  const lines = markdown.split('\n');
+  const headingIndex = lines.findIndex(line => line.trim() === heading.trim());
+
+  if (headingIndex === -1) {
+    const base = markdown.replace(/\s*$/, '');
+    return `${base}${base ? '\n\n' : ''}${heading.trim()}${entry}`;
+  }
+
+  let endIndex = lines.length;
+  for (let i = headingIndex + 1; i < lines.length; i++) {
+    const match = lines[i].match(/^(#+)\s/);
+    if (match && match[1].length <= level) {
+      endIndex = i;
+      break;
+    }
+  }
+
+  const before = lines.slice(0, endIndex).join('\n').replace(/\s*$/, '');
+  const after = lines.slice(endIndex).join('\n');
+  return `${before}${entry.replace(/\s*$/, '')}\n${after ? `\n\n${after}` : ''}`;
+};
+
+/**
+ * Project routes layered over the module-wide defaults
+ */
+export const mergeRoutes = (base: OutputRoutes, override?: Partial<Record<RouteAction, Partial<OutputRoute>>>): OutputRoutes => {
+  const routes = { ...base };
+  ROUTE_ACTIONS.forEach(action => {
+    if (override?.[action]) {
+      routes[action] = { ...base[action], ...override[action] };
+    }
+  });
+  return routes;
+};
+
+/**
+ * Module-wide default routes from the plugin config (lifecycle_manager config_fields)
+ */
+export const routesFromConfig = (config: ResearchAssistantConfig | undefined): OutputRoutes => {
+  const fromConfig = (action: RouteAction): Partial<OutputRoute> => {
+    const route: Partial<OutputRoute> = {};
+    const mode = config?.[`${action}RouteMode` as const];
+    const path = config?.[`${action}RoutePath` as const];
+    const heading = config?.[`${action}RouteHeading` as const];
+    const enabled = config?.[`${action}RouteEnabled` as const];
+    const indexPath = config?.[`${action}RouteIndexPath` as const];
+    if (mode === 'append' || mode === 'new-file' || mode === 'note') route.mode = mode;
+    if (typeof path === 'string' && path.trim()) route.path = path.trim();
+    if (typeof heading === 'string') route.heading = heading.trim() || undefined;
+    if (typeof enabled === 'boolean') route.enabled = enabled;
+    if (typeof indexPath === 'string') route.indexPath = indexPath.trim();
+    return route;
+  };
+
+  return mergeRoutes(DEFAULT_OUTPUT_ROUTES, {
+    integrate: fromConfig('integrate'),
+    save: fromConfig('save'),
+    skip: fromConfig('skip')
+  });
+};
+
+/**
+ * File a note route links its notes from; null when it keeps no index
+ */
+export const noteIndexPath = (route: OutputRoute): string | null => {
+  if (route.mode !== 'note') return null;
+  const path = route.indexPath === undefined ? DEFAULT_NOTE_INDEX_PATH : route.indexPath.trim();
+  return path || null;
+};
+
+/**
+ * Problems with a route that would stop it from saving
+ */
+export const validateRoute = (route: OutputRoute): string | null => {
+  if (!route.enabled) return null;
+  if (!route.path.trim()) return 'A file path is required';
+  if (!/\.(md|markdown|txt)$/i.test(route.path.trim())) return 'The path should end in .md';
+  if (route.mode !== 'append' && !/\{(slug|date)\}/.test(route.path)) {
+    return 'New-file paths should include {slug} or {date} so each entry gets its own file';
+  }
+  if (route.mode === 'note' && route.indexPath && !/\.(md|markdown|txt)$/i.test(route.indexPath.trim())) {
+    return 'The index file should end in .md';
+  }
+  if (route.mode === 'append' && route.heading && !/^#{1,2}\s+\S/.test(route.heading.trim())) {
+    return 'The heading should be a level 1 or 2 markdown heading, e.g. "## Reading list"';
+  }
+  return null;
+};
@@ -0,0 +1,294 @@
+// Client-side PDF text extraction for the article input.
+// Uses pdf.js to read the text layer, then rebuilds reading order, strips
+// running headers/footers and page numbers, and re-joins hyphenated lines.
+
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { PdfArticleSource } from '../types';
+
+export interface PdfExtractionResult {
+  text: string;
+  source: PdfArticleSource;
+}
+
+interface PdfLine {
+  text: string;
+  y: number;
+  xStart: number;
+  xEnd: number;
+  height: number;
+}
+
+interface PageLines {
+  pageNumber: number;
+  lines: PdfLine[];
+}
+
+// Lines within this many lines of the top/bottom of a page are candidates for
+// header/footer removal.
+const EDGE_ZONE_LINES = 3;
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+/**
+ * Lazily load pdf.js so the (large) library is only fetched when a PDF is used
+ */
+const loadPdfJs = (): Promise<typeof import('pdfjs-dist')> => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then(pdfjs => {
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+        'pdfjs-dist/build/pdf.worker.min.js',
+        import.meta.url
+      ).toString();
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+};
+
+/**
+ * Check whether a file looks like a PDF (by MIME type or extension)
+ */
+export const isPdfFile = (file: File): boolean => {
+  return file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+};
+
+/**
+ * Group positioned text items into visual lines, ordered left-to-right.
+ * Items on one baseline separated by a wide gap (e.g. a column gutter) are
+ * kept as separate lines so columns can be re-ordered later.
+ */
+const buildLines = (items: TextItem[]): PdfLine[] => {
+  const rows: TextItem[][] = [];
+
+  const sorted = items
+    .filter(item => item.str.trim().length > 0)
+    .sort((a, b) => b.transform[5] - a.transform[5]);
+
+  for (const item of sorted) {
+    const height = item.height || Math.abs(item.transform[3]) || 10;
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].transform[5] - item.transform[5]) <= Math.max(2, height * 0.4)) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  const lines: PdfLine[] = [];
+  rows.forEach(row => {
+    let line: PdfLine | null = null;
+    row
+      .sort((a, b) => a.transform[4] - b.transform[4])
+      .forEach(item => {
+        const x = item.transform[4];
+        const height = item.height || Math.abs(item.transform[3]) || 10;
+        const gap = line ? x - line.xEnd : 0;
+
+        if (line && gap < height * 1.5) {
+          const needsSpace = gap > height * 0.15 && !line.text.endsWith(' ') && !item.str.startsWith(' ');
+          line.text += (needsSpace ? ' ' : '') + item.str;
+          line.xEnd = Math.max(line.xEnd, x + item.width);
+          line.height = Math.max(line.height, height);
+        } else {
+          line = { text: item.str, y: item.transform[5], xStart: x, xEnd: x + item.width, height };
+          lines.push(line);
+        }
+      });
+  });
+
+  return lines
+    .map(l => ({ ...l, text: l.text.replace(/\s+/g, ' ').trim() }))
+    .filter(l => l.text.length > 0);
+};
+
+/**
+ * Put lines in reading order. Two-column pages are read column by column, with
+ * full-width lines above the columns (title block) first and those below last.
+ */
+const orderLines = (lines: PdfLine[], pageWidth: number): PdfLine[] => {
+  const byY = [...lines].sort((a, b) => (b.y - a.y) || (a.xStart - b.xStart));
+  const mid = pageWidth / 2;
+  const margin = pageWidth * 0.02;
+
+  const left = byY.filter(l => l.xEnd <= mid + margin);
+  const right = byY.filter(l => l.xStart >= mid - margin);
+  const spanning = byY.filter(l => !left.includes(l) && !right.includes(l));
+
+  const isTwoColumn = left.length >= byY.length * 0.3 && right.length >= byY.length * 0.3;
+  if (!isTwoColumn) {
+    return byY;
+  }
+
+  const columnTop = Math.max(left[0]?.y ?? -Infinity, right[0]?.y ?? -Infinity);
+  const above = spanning.filter(l => l.y > columnTop);
+  const below = spanning.filter(l => l.y <= columnTop);
+
+  return [...above, ...left, ...right, ...below];
+};
+
+const normalizeEdgeLine = (text: string): string => {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+};
+
+const isPageNumberLine = (text: string): boolean => {
+  const t = text.trim();
+  return /^(page\s*)?\d{1,4}(\s*(of|\/)\s*\d{1,4})?$/i.test(t)
+    || /^[-–—]\s*\d{1,4}\s*[-–—]$/.test(t)
+    || /^[ivxlcdm]{1,6}$/i.test(t);
+};
+
+/**
+ * Remove running headers, footers and page numbers. A line in the top or bottom
+ * zone of a page is treated as running text when (with digits normalized) it
+ * repeats on at least half of the pages.
+ */
+const stripRunningText = (pages: PageLines[]): PageLines[] => {
+  const edgeCounts = new Map<string, number>();
+
+  const edgeIndices = (count: number): number[] => {
+    const indices = new Set<number>();
+    for (let i = 0; i < Math.min(EDGE_ZONE_LINES, count); i++) {
+      indices.add(i);
+      indices.add(count - 1 - i);
+    }
+    return Array.from(indices);
+  };
+
+  pages.forEach(page => {
+    const seen = new Set<string>();
+    edgeIndices(page.lines.length).forEach(i => {
+      const key = normalizeEdgeLine(page.lines[i].text);
+      if (key && !seen.has(key)) {
+        seen.add(key);
+        edgeCounts.set(key, (edgeCounts.get(key) || 0) + 1);
+      }
+    });
+  });
+
+  const threshold = Math.max(2, Math.ceil(pages.length * 0.5));
+
+  return pages.map(page => {
+    const edges = new Set(edgeIndices(page.lines.length));
+    const lines = page.lines.filter((line, i) => {
+      if (!edges.has(i)) return true;
+      if (isPageNumberLine(line.text)) return false;
+      return pages.length < 3 || (edgeCounts.get(normalizeEdgeLine(line.text)) || 0) < threshold;
+    });
+    return { ...page, lines };
+  });
+};
+
+/**
+ * Join lines into paragraphs, undoing end-of-line hyphenation. A vertical gap
+ * noticeably larger than the usual line spacing starts a new paragraph.
+ */
+const assembleText = (pages: PageLines[]): { text: string; pageOffsets: number[] } => {
+  let text = '';
+  const pageOffsets: number[] = [];
+
+  pages.forEach(page => {
+    if (page.lines.length === 0) {
+      pageOffsets.push(text.length);
+    }
+
+    const gaps: number[] = [];
+    for (let i = 1; i < page.lines.length; i++) {
+      const gap = page.lines[i - 1].y - page.lines[i].y;
+      if (gap > 0) gaps.push(gap);
+    }
+    gaps.sort((a, b) => a - b);
+    const typicalGap = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+
+    page.lines.forEach((line, i) => {
+      const prev = i > 0 ? page.lines[i - 1] : null;
+      const gap = prev ? prev.y - line.y : 0;
+      // Page and column breaks only end a paragraph after terminal punctuation
+      const discontinuous = prev === null || gap < 0;
+      const newParagraph = (prev !== null && gap > typicalGap * 1.6)
+        || (discontinuous && /[.!?:"”)]$/.test(text));
+
+      if (text.length === 0) {
+        text = line.text;
+      } else if (newParagraph) {
+        text += '\n\n' + line.text;
+      } else if (/[A-Za-z]-$/.test(text) && /^[a-z]/.test(line.text)) {
+        text = text.slice(0, -1) + line.text;
+      } else {
+        text += ' ' + line.text;
+      }
+
+      if (i === 0) {
+        pageOffsets.push(text.length - line.text.length);
+      }
+    });
+  });
+
+  return { text, pageOffsets };
+};
+
+/**
+ * Extract clean article text from a PDF file in the browser
+ */
+export const extractPdfText = async (file: File): Promise<PdfExtractionResult> => {
+  const pdfjs = await loadPdfJs();
+  const data = new Uint8Array(await file.arrayBuffer());
+  const doc = await pdfjs.getDocument({ data }).promise;
+
+  try {
+    const pages: PageLines[] = [];
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const items = content.items.filter((item): item is TextItem => 'str' in item);
+      pages.push({ pageNumber, lines: orderLines(buildLines(items), viewport.width) });
+    }
+
+    const { text, pageOffsets } = assembleText(stripRunningText(pages));
+
+    let title: string | undefined;
+    try {
+      const metadata = await doc.getMetadata();
+      const infoTitle = (metadata.info as any)?.Title;
+      if (typeof infoTitle === 'string' && infoTitle.trim()) {
+        title = infoTitle.trim();
+      }
+    } catch (error) {
+      console.warn('PDF metadata unavailable:', error);
+    }
+
+    return {
+      text,
+      source: {
+        type: 'pdf',
+        filename: file.name,
+        pageCount: doc.numPages,
+        pageOffsets,
+        title
+      }
+    };
+  } finally {
+    doc.destroy();
+  }
+};
+
+/**
+ * Find the 1-based page range covering a character span of the extracted text
+ */
+export const getPageRange = (source: PdfArticleSource, start: number, end: number): [number, number] => {
+  const pageAt = (offset: number): number => {
+    let page = 1;
+    source.pageOffsets.forEach((pageStart, i) => {
+      if (offset >= pageStart) page = i + 1;
+    });
+    return page;
+  };
+  return [pageAt(start), pageAt(Math.max(start, end - 1))];
+};
+
+/**
+ * Format a page range for citations, e.g. "p. 3" or "pp. 3–5"
+ */
+export const formatPageRange = ([first, last]: [number, number]): string => {
+  return first === last ? `p. ${first}` : `pp. ${first}–${last}`;
+};
@@ -0,0 +1,97 @@
+// Prompt templates: named analysis/chat prompts with {{variable}} placeholders
+// that are filled from the article and project context at request time.
+
+import { PromptTemplate } from '../types';
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+  chatOnly?: boolean;
+}
+
+export const PROMPT_VARIABLES: PromptVariable[] = [
+  { name: 'article', description: 'Article text (one section at a time for long articles)' },
+  { name: 'source', description: 'Article metadata: title, author, date, URL or file' },
+  { name: 'project', description: 'Project slug' },
+  { name: 'agent', description: 'Project overview from AGENT.md' },
+  { name: 'spec', description: 'Project specification from spec.md (first 2,000 characters)' },
+  { name: 'findings', description: 'Existing research from research-findings.md (first 1,000 characters)' },
+  { name: 'context', description: 'Project, AGENT.md, spec.md and findings as one "Project Context" block (empty without a project)' },
+  { name: 'analysis', description: 'The analysis result being discussed', chatOnly: true }
+];
+
+// Variables whose values come from the project's Library files
+const CONTEXT_VARIABLES = ['agent', 'spec', 'findings', 'context'];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  id: DEFAULT_TEMPLATE_ID,
+  name: 'Default',
+  builtIn: true,
+  version: 1,
+  updatedAt: '',
+  analysisPrompt: `You are a research assistant helping to triage articles and resources for relevance to a project.
+
+{{context}}
+
+{{source}}
+## Article to Analyze
+
+{{article}}
+
+## Your Task
+
+Analyze this article and determine its relevance to the project (if provided) or general usefulness.`,
+  chatPrompt: `You are a helpful research assistant. The user has been analyzing an article and may have questions about it.
+
+## Article Being Analyzed
+
+{{article}}
+
+{{analysis}}
+
+{{context}}
+
+Answer the user's questions about this article concisely and helpfully. Reference specific parts of the article when relevant.`
+};
+
+/**
+ * Replace {{name}} placeholders with their values. Unknown variables are left
+ * in place so typos are visible in the prompt rather than silently dropped.
+ */
+export const renderTemplate = (template: string, variables: Record<string, string>): string => {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+  );
+};
+
+/**
+ * Names of the variables a template uses
+ */
+export const getTemplateVariables = (template: string): string[] => {
+  const names: string[] = [];
+  let match: RegExpExecArray | null;
+  const pattern = new RegExp(VARIABLE_PATTERN.source, 'g');
+  while ((match = pattern.exec(template)) !== null) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+/**
+ * Variables used in a template that aren't supported there
+ */
+export const findUnknownVariables = (template: string, forChat: boolean): string[] => {
+  const known = PROMPT_VARIABLES.filter(v => forChat || !v.chatOnly).map(v => v.name);
+  return getTemplateVariables(template).filter(name => !known.includes(name));
+};
+
+/**
+ * Whether rendering the template needs the project's Library files
+ */
+export const usesProjectContext = (template: string): boolean => {
+  return getTemplateVariables(template).some(name => CONTEXT_VARIABLES.includes(name));
+};
@@ -0,0 +1,108 @@
+// Quote grounding: the supporting quotes the model gives for each insight are
+// located in the article text, verbatim or fuzzily (same words, allowing for
+// differences in whitespace, punctuation, case and a few changed words), so
+// insights that aren't backed by the article can be flagged.
+
+import { AnalysisResult, InsightQuote, QuoteSpan } from '../types';
+
+// Share of a quote's words that must appear in a passage for a fuzzy match
+const FUZZY_THRESHOLD = 0.8;
+// Quotes shorter than this (in words) only match verbatim
+const MIN_FUZZY_WORDS = 4;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /[a-z0-9\u00c0-\u024f\u0370-\u1fff\u3040-\uffff]+/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({ word: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+};
+
+/**
+ * Locate a quote in the article: verbatim, else the passage of the same length
+ * in words that shares the most words with it. Null when nothing is close enough.
+ */
+export const locateQuote = (articleText: string, quote: string, articleTokens: Token[] = tokenize(articleText)): QuoteSpan | null => {
+  const exact = articleText.indexOf(quote);
+  if (quote && exact !== -1) {
+    return { start: exact, end: exact + quote.length, fuzzy: false };
+  }
+
+  const quoteWords = tokenize(quote).map(token => token.word);
+  if (quoteWords.length < MIN_FUZZY_WORDS || articleTokens.length === 0) return null;
+
+  const wanted: Record<string, number> = {};
+  quoteWords.forEach(word => { wanted[word] = (wanted[word] || 0) + 1; });
+
+  // Slide a window of the quote's length over the article, tracking how many
+  // of the quote's words (counting repeats) it contains
+  const size = Math.min(quoteWords.length, articleTokens.length);
+  const inWindow: Record<string, number> = {};
+  let overlap = 0;
+  let best = -1;
+  let bestStart = 0;
+
+  for (let i = 0; i < articleTokens.length; i++) {
+    const added = articleTokens[i].word;
+    if (wanted[added]) {
+      if ((inWindow[added] || 0) < wanted[added]) overlap++;
+      inWindow[added] = (inWindow[added] || 0) + 1;
+    }
+
+    if (i >= size) {
+      const removed = articleTokens[i - size].word;
+      if (wanted[removed]) {
+        inWindow[removed]--;
+        if (inWindow[removed] < wanted[removed]) overlap--;
+      }
+    }
+
+    if (i >= size - 1 && overlap > best) {
+      best = overlap;
+      bestStart = i - size + 1;
+    }
+  }
+
+  if (best / quoteWords.length < FUZZY_THRESHOLD) return null;
+
+  // Trim the window to its first and last words that are in the quote
+  let first = bestStart;
+  let last = bestStart + size - 1;
+  while (first < last && !wanted[articleTokens[first].word]) first++;
+  while (last > first && !wanted[articleTokens[last].word]) last--;
+
+  return { start: articleTokens[first].start, end: articleTokens[last].end, fuzzy: true };
+};
+
+/**
+ * Locate every insight's quotes in the article text
+ */
+export const groundInsightQuotes = (result: AnalysisResult, articleText: string): AnalysisResult => {
+  if (!result.insightQuotes) return result;
+
+  const articleTokens = tokenize(articleText);
+  return {
+    ...result,
+    insightQuotes: result.insightQuotes.map(quotes => quotes.map(quote => ({
+      text: quote.text,
+      span: locateQuote(articleText, quote.text, articleTokens)
+    })))
+  };
+};
+
+/**
+ * Whether an insight has at least one quote that was found in the article.
+ * Results from before quotes were requested count as supported.
+ */
+export const isInsightSupported = (result: AnalysisResult, index: number): boolean => {
+  const quotes: InsightQuote[] | undefined = result.insightQuotes?.[index];
+  return !quotes || quotes.some(quote => !!quote.span);
+};
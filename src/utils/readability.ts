@@ -0,0 +1,281 @@
+// Readability-style extraction of article content from fetched HTML.
+// Drops navigation, ads, comments and other boilerplate, keeping the title,
+// author, publish date, canonical URL and main body text.
+
+import { UrlArticleSource } from '../types';
+
+export interface ReadableArticle {
+  text: string;
+  source: UrlArticleSource;
+}
+
+// Elements that never contain article body text
+const REMOVE_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'svg', 'canvas',
+  'form', 'button', 'input', 'select', 'textarea',
+  'nav', 'aside', 'footer',
+  '[role="navigation"]', '[role="banner"]', '[role="complementary"]', '[role="contentinfo"]',
+  '[role="dialog"]', '[aria-hidden="true"]', '[hidden]'
+].join(',');
+
+// class/id tokens that mark boilerplate blocks
+const BOILERPLATE_TOKENS = new Set([
+  'ad', 'ads', 'advert', 'advertisement', 'sponsor', 'sponsored', 'promo', 'promotion',
+  'comment', 'comments', 'disqus', 'respond', 'reply',
+  'share', 'sharing', 'social', 'related', 'recommended', 'newsletter', 'subscribe',
+  'sidebar', 'widget', 'menu', 'nav', 'navbar', 'breadcrumb', 'breadcrumbs',
+  'cookie', 'consent', 'popup', 'modal', 'banner', 'masthead', 'footer', 'header'
+]);
+
+// class/id tokens that mark likely content containers (never removed)
+const CONTENT_TOKENS = new Set([
+  'article', 'content', 'main', 'body', 'post', 'entry', 'story', 'text', 'prose'
+]);
+
+const BLOCK_TAGS = new Set(['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LI', 'BLOCKQUOTE', 'PRE', 'FIGCAPTION', 'DD', 'DT']);
+
+// Elements whose text runs on with the text around them
+const INLINE_TAGS = new Set([
+  'A', 'ABBR', 'B', 'BDI', 'BDO', 'CITE', 'CODE', 'DATA', 'DEL', 'DFN', 'EM', 'FONT', 'I', 'INS', 'KBD',
+  'LABEL', 'MARK', 'Q', 'S', 'SAMP', 'SMALL', 'SPAN', 'STRONG', 'SUB', 'SUP', 'TIME', 'U', 'VAR'
+]);
+const NESTED_BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, div, section, table, ul, ol, dl';
+
+const classTokens = (el: Element): string[] => {
+  return `${el.getAttribute('class') || ''} ${el.id || ''}`
+    .toLowerCase()
+    .split(/[\s_-]+/)
+    .filter(Boolean);
+};
+
+const isBoilerplate = (el: Element): boolean => {
+  const tokens = classTokens(el);
+  if (tokens.some(t => CONTENT_TOKENS.has(t))) return false;
+  return tokens.some(t => BOILERPLATE_TOKENS.has(t));
+};
+
+const textOf = (el: Element | null | undefined): string => {
+  return (el?.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+const metaContent = (doc: Document, ...names: string[]): string | undefined => {
+  for (const name of names) {
+    const el = doc.querySelector(`meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`);
+    const value = el?.getAttribute('content')?.trim();
+    if (value) return value;
+  }
+  return undefined;
+};
+
+/**
+ * Resolve a link against the page URL; anything but http(s) (javascript:, data:...) is dropped
+ */
+const resolveUrl = (href: string | null | undefined, base: string): string | undefined => {
+  if (!href) return undefined;
+  try {
+    const url = new URL(href, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Read schema.org Article metadata from JSON-LD blocks, if present
+ */
+const readJsonLd = (doc: Document): { headline?: string; author?: string; datePublished?: string } => {
+  const scripts = Array.from(doc.querySelectorAll('script[type="application/ld+json"]'));
+  for (const script of scripts) {
+    try {
+      const data = JSON.parse(script.textContent || '');
+      const nodes: any[] = Array.isArray(data) ? data : (data['@graph'] || [data]);
+      // "@type" is a string or, on many news sites, an array of types
+      const article = nodes.find(n => ([] as any[]).concat(n?.['@type'] ?? [])
+        .some(type => typeof type === 'string' && /Article|Posting|Report/.test(type)));
+      if (article) {
+        const authors = Array.isArray(article.author) ? article.author : [article.author];
+        const author = authors
+          .map((a: any) => (typeof a === 'string' ? a : a?.name))
+          .filter(Boolean)
+          .join(', ');
+        return {
+          headline: article.headline || article.name,
+          author: author || undefined,
+          datePublished: article.datePublished || article.dateCreated
+        };
+      }
+    } catch {
+      // Malformed JSON-LD is common; ignore it and fall back to meta tags
+    }
+  }
+  return {};
+};
+
+/**
+ * Pick the element most likely to hold the article body. Semantic containers
+ * win; otherwise paragraphs vote for their parent (and half for grandparent),
+ * penalized by link density.
+ */
+const findContentRoot = (doc: Document): Element => {
+  const semantic = doc.querySelector('[itemprop="articleBody"], article, main, [role="main"]');
+  if (semantic && textOf(semantic).length > 500) {
+    return semantic;
+  }
+
+  const scores = new Map<Element, number>();
+  doc.querySelectorAll('p, pre, blockquote').forEach(p => {
+    const text = textOf(p);
+    if (text.length < 25) return;
+    const score = 1 + (text.match(/,/g) || []).length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = p.parentElement;
+    const grandparent = parent?.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) || 0) + score);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  scores.forEach((score, el) => {
+    const textLength = textOf(el).length || 1;
+    const linkLength = Array.from(el.querySelectorAll('a')).reduce((sum, a) => sum + textOf(a).length, 0);
+    const adjusted = score * (1 - linkLength / textLength);
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  });
+
+  return best || doc.body;
+};
+
+const isInline = (el: Element): boolean => {
+  return INLINE_TAGS.has(el.tagName) && !el.querySelector(NESTED_BLOCK_SELECTOR);
+};
+
+/**
+ * Serialize the content root into plain text paragraphs (headings and list
+ * items keep light markdown markers)
+ */
+const serializeContent = (root: Element): string => {
+  const blocks: string[] = [];
+
+  const walk = (el: Element) => {
+    if (BLOCK_TAGS.has(el.tagName)) {
+      const text = el.tagName === 'PRE' ? (el.textContent || '').trim() : textOf(el);
+      if (!text) return;
+      if (/^H[1-6]$/.test(el.tagName)) {
+        blocks.push(`${'#'.repeat(Number(el.tagName[1]))} ${text}`);
+      } else if (el.tagName === 'LI') {
+        blocks.push(`- ${text}`);
+      } else if (el.tagName === 'BLOCKQUOTE') {
+        blocks.push(`> ${text}`);
+      } else {
+        blocks.push(text);
+      }
+      return;
+    }
+
+    // Bare text and inline elements in a div/span container are gathered into
+    // a paragraph that ends at the next nested block (<br> breaks the line)
+    let run = '';
+    const flush = () => {
+      const text = run
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n');
+      run = '';
+      if (text.length > 40) blocks.push(text);
+    };
+
+    Array.from(el.childNodes).forEach(node => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        run += node.textContent || '';
+      } else if (node.nodeType === Node.ELEMENT_NODE) {
+        const child = node as Element;
+        if (child.tagName === 'BR') {
+          run += '\n';
+        } else if (isInline(child)) {
+          run += child.textContent || '';
+        } else {
+          flush();
+          walk(child);
+        }
+      }
+    });
+    flush();
+  };
+
+  walk(root);
+
+  // Drop consecutive duplicates (e.g. repeated captions)
+  return blocks.filter((b, i) => b !== blocks[i - 1]).join('\n\n');
+};
+
+/**
+ * Extract a readable article from raw HTML fetched from `pageUrl`
+ */
+export const extractReadableArticle = (html: string, pageUrl: string): ReadableArticle => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const jsonLd = readJsonLd(doc);
+
+  // Metadata is read before cleanup since it often lives in header/nav-adjacent markup
+  const rawTitle = metaContent(doc, 'og:title', 'twitter:title')
+    || jsonLd.headline
+    || textOf(doc.querySelector('article h1, h1'))
+    || textOf(doc.querySelector('title'));
+  const siteName = metaContent(doc, 'og:site_name', 'application-name');
+  const title = rawTitle && siteName
+    ? rawTitle.replace(new RegExp(`\\s*[|\\-–—]\\s*${siteName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`), '')
+    : rawTitle;
+
+  const author = jsonLd.author
+    || metaContent(doc, 'author', 'article:author', 'parsely-author', 'sailthru.author', 'dc.creator')
+    || textOf(doc.querySelector('[rel="author"], [itemprop="author"], .byline, .author'))
+    || undefined;
+
+  const publishedDate = jsonLd.datePublished
+    || metaContent(doc, 'article:published_time', 'datePublished', 'date', 'pubdate', 'publish-date', 'dc.date', 'citation_publication_date')
+    || doc.querySelector('time[datetime]')?.getAttribute('datetime')
+    || undefined;
+
+  const canonicalUrl = resolveUrl(doc.querySelector('link[rel="canonical"]')?.getAttribute('href'), pageUrl)
+    || resolveUrl(metaContent(doc, 'og:url'), pageUrl)
+    || pageUrl;
+
+  doc.querySelectorAll(REMOVE_SELECTORS).forEach(el => el.remove());
+  doc.querySelectorAll('[class], [id]').forEach(el => {
+    if (el !== doc.body && el.isConnected && isBoilerplate(el)) {
+      el.remove();
+    }
+  });
+
+  const text = serializeContent(findContentRoot(doc));
+
+  return {
+    text,
+    source: {
+      type: 'url',
+      url: pageUrl,
+      canonicalUrl,
+      title: title || undefined,
+      author: author && author.length <= 200 ? author : undefined,
+      publishedDate: publishedDate?.split('T')[0],
+      siteName
+    }
+  };
+};
+
+/**
+ * Validate and normalize user-entered URLs (adds https:// when no scheme is given)
+ */
+export const normalizeArticleUrl = (input: string): string | null => {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
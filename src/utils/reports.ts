@@ -0,0 +1,248 @@
+// Triage reports: the triage history filtered by project, date range and
+// recommendation, exported as a Markdown digest, CSV, JSON or BibTeX.
+
+import { TriageRecord, AnalysisResult, ArticleSource } from '../types';
+import { rubricScore } from './rubric';
+import { citationUrl, citationKey, toBibtex } from './citations';
+
+export type ReportFormat = 'markdown' | 'csv' | 'json' | 'bibtex';
+
+export interface ReportFilter {
+  projectSlug: string;       // '' for every project
+  from: string;              // yyyy-mm-dd, inclusive ('' for no lower bound)
+  to: string;                // yyyy-mm-dd, inclusive ('' for no upper bound)
+  recommendation: '' | AnalysisResult['recommendation'];
+}
+
+export interface Report {
+  filename: string;
+  content: string;
+  mimeType: string;
+  count: number;             // Records in the report
+}
+
+export const REPORT_FORMATS: { format: ReportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'markdown', label: 'Markdown digest', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'csv', label: 'CSV (spreadsheets)', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'json', label: 'JSON (full analyses)', extension: 'json', mimeType: 'application/json' },
+  { format: 'bibtex', label: 'BibTeX (imported citations)', extension: 'bib', mimeType: 'application/x-bibtex' }
+];
+
+const RECOMMENDATIONS: AnalysisResult['recommendation'][] = ['integrate', 'save', 'skip'];
+
+const RECOMMENDATION_HEADINGS: Record<AnalysisResult['recommendation'], string> = {
+  integrate: 'Integrate Now',
+  save: 'Save for Later',
+  skip: 'Skip'
+};
+
+const ACTION_LABELS: Record<TriageRecord['action'], string> = {
+  pending: 'not saved',
+  integrate: 'integrated',
+  save: 'saved for later',
+  skip: 'logged as skipped',
+  dismiss: 'dismissed'
+};
+
+/**
+ * Local calendar date (yyyy-mm-dd) of an ISO time
+ */
+export const localDate = (iso: string): string => {
+  const date = new Date(iso);
+  const pad = (n: number) => (n < 10 ? `0${n}` : String(n));
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Local date of the oldest record, or '' when there are none
+ */
+export const oldestRecordDate = (records: TriageRecord[]): string => {
+  return records.reduce((oldest, record) => {
+    const day = localDate(record.timestamp);
+    return !oldest || day < oldest ? day : oldest;
+  }, '');
+};
+
+/**
+ * Records matching the filter, oldest first
+ */
+export const filterTriageRecords = (records: TriageRecord[], filter: ReportFilter): TriageRecord[] => {
+  return records
+    .filter(record => {
+      const day = localDate(record.timestamp);
+      return (!filter.projectSlug || record.projectSlug === filter.projectSlug)
+        && (!filter.recommendation || record.result.recommendation === filter.recommendation)
+        && (!filter.from || day >= filter.from)
+        && (!filter.to || day <= filter.to);
+    })
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+const sourceLink = (source: ArticleSource | null): string | undefined => {
+  if (source?.type === 'url') return source.canonicalUrl;
+  if (source?.type === 'citation') return source.url || citationUrl(source.citation);
+  return undefined;
+};
+
+const describePeriod = (filter: ReportFilter): string => {
+  if (filter.from && filter.to) return `${filter.from} to ${filter.to}`;
+  if (filter.from) return `since ${filter.from}`;
+  if (filter.to) return `until ${filter.to}`;
+  return 'all time';
+};
+
+/**
+ * Markdown digest: counts per recommendation and action, then the analyses
+ * grouped by recommendation with their insights
+ */
+export const formatMarkdownReport = (records: TriageRecord[], filter: ReportFilter, projectName: (slug: string) => string): string => {
+  const scope = filter.projectSlug ? projectName(filter.projectSlug) : 'All projects';
+  const lines: string[] = [
+    `# Triage report: ${scope}`,
+    '',
+    `**Period:** ${describePeriod(filter)}  `,
+    `**Articles:** ${records.length}${filter.recommendation ? ` (${RECOMMENDATION_HEADINGS[filter.recommendation]} only)` : ''}  `,
+    `**Generated:** ${localDate(new Date().toISOString())}`,
+    ''
+  ];
+
+  if (records.length > 0) {
+    lines.push('| Recommendation | Articles | Integrated | Saved | Skipped | Dismissed | Not saved |', '| --- | --- | --- | --- | --- | --- | --- |');
+    RECOMMENDATIONS.forEach(recommendation => {
+      const matching = records.filter(r => r.result.recommendation === recommendation);
+      const count = (action: TriageRecord['action']) => matching.filter(r => r.action === action).length;
+      lines.push(`| ${RECOMMENDATION_HEADINGS[recommendation]} | ${matching.length} | ${count('integrate')} | ${count('save')} | ${count('skip')} | ${count('dismiss')} | ${count('pending')} |`);
+    });
+    lines.push('');
+  }
+
+  RECOMMENDATIONS.forEach(recommendation => {
+    const matching = records.filter(r => r.result.recommendation === recommendation);
+    if (matching.length === 0) return;
+
+    lines.push(`## ${RECOMMENDATION_HEADINGS[recommendation]} (${matching.length})`, '');
+    matching.forEach(record => {
+      const title = (record.title || 'Untitled').replace(/[[\]]/g, '');
+      const link = sourceLink(record.articleSource);
+      const details = [
+        localDate(record.timestamp),
+        !filter.projectSlug ? projectName(record.projectSlug) || 'No project' : '',
+        `${Math.round(record.result.confidence * 100)}% confidence`,
+        record.result.rubric ? `rubric ${rubricScore(record.result.rubric)}/5` : '',
+        ACTION_LABELS[record.action],
+        record.model
+      ].filter(Boolean).join(' · ');
+
+      lines.push(`### ${link ? `[${title}](${link})` : title}`, '', `_${details}_`, '');
+      record.result.insights.forEach(insight => lines.push(`- ${insight}`));
+      lines.push('', record.result.explanation, '');
+    });
+  });
+
+  return lines.join('\n');
+};
+
+const csvCell = (value: string | number | undefined): string => {
+  let text = value === undefined ? '' : String(value);
+  // Titles and explanations come from web pages and model output: keep
+  // spreadsheets from running text that starts like a formula
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per analysis; insights are joined with " | "
+ */
+export const formatCsvReport = (records: TriageRecord[], projectName: (slug: string) => string): string => {
+  const header = ['date', 'project', 'title', 'source', 'recommendation', 'confidence', 'rubric_score', 'action', 'model', 'insights', 'explanation'];
+  const rows = records.map(record => [
+    record.timestamp,
+    projectName(record.projectSlug),
+    record.title,
+    sourceLink(record.articleSource) || (record.articleSource?.type === 'pdf' ? record.articleSource.filename : ''),
+    record.result.recommendation,
+    Math.round(record.result.confidence * 100) / 100,
+    record.result.rubric ? rubricScore(record.result.rubric) : undefined,
+    record.action,
+    record.model,
+    record.result.insights.join(' | '),
+    record.result.explanation
+  ].map(csvCell).join(','));
+
+  // CRLF line endings, as spreadsheet applications expect
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+/**
+ * The records with their full AnalysisResult (article text and chat left out)
+ */
+export const formatJsonReport = (records: TriageRecord[], filter: ReportFilter): string => {
+  return JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    filter,
+    count: records.length,
+    records: records.map(record => ({
+      id: record.id,
+      title: record.title,
+      projectSlug: record.projectSlug,
+      model: record.model,
+      timestamp: record.timestamp,
+      action: record.action,
+      source: record.articleSource,
+      result: record.result
+    }))
+  }, null, 2) + '\n';
+};
+
+/**
+ * Records that came from imported citations, once per citation key
+ */
+export const citedRecords = (records: TriageRecord[]): TriageRecord[] => {
+  const keys: string[] = [];
+  return records.filter(record => {
+    if (record.articleSource?.type !== 'citation') return false;
+    const key = citationKey(record.articleSource.citation);
+    if (keys.indexOf(key) !== -1) return false;
+    keys.push(key);
+    return true;
+  });
+};
+
+export const formatBibtexReport = (records: TriageRecord[]): string => {
+  return citedRecords(records)
+    .map(record => (record.articleSource?.type === 'citation' ? toBibtex(record.articleSource.citation) : ''))
+    .join('\n');
+};
+
+/**
+ * Build the report for the filtered records in the given format
+ */
+export const buildReport = (
+  records: TriageRecord[],
+  filter: ReportFilter,
+  format: ReportFormat,
+  projectName: (slug: string) => string
+): Report => {
+  const matching = filterTriageRecords(records, filter);
+  const { extension, mimeType } = REPORT_FORMATS.find(f => f.format === format) || REPORT_FORMATS[0];
+
+  const content = format === 'csv'
+    ? formatCsvReport(matching, projectName)
+    : format === 'json'
+      ? formatJsonReport(matching, filter)
+      : format === 'bibtex'
+        ? formatBibtexReport(matching)
+        : formatMarkdownReport(matching, filter, projectName);
+
+  const period = filter.from && filter.to
+    ? `${filter.from}-to-${filter.to}`
+    : filter.from ? `since-${filter.from}` : filter.to ? `until-${filter.to}` : localDate(new Date().toISOString());
+  return {
+    filename: `triage-${filter.projectSlug || 'all-projects'}${filter.recommendation ? `-${filter.recommendation}` : ''}-${period}.${extension}`,
+    content,
+    mimeType,
+    count: format === 'bibtex' ? citedRecords(matching).length : matching.length
+  };
+};
@@ -0,0 +1,100 @@
+// Relevance rubric: the model scores an article 1-5 on several dimensions,
+// each with a one-line justification, and the recommendation is derived from
+// those scores with configurable thresholds.
+
+import { AnalysisResult, RubricDimension, RubricScores, RubricThresholds, ResearchAssistantConfig } from '../types';
+
+export const RUBRIC_DIMENSIONS: { key: RubricDimension; label: string; prompt: string }[] = [
+  { key: 'relevance', label: 'Relevance', prompt: 'how relevant the article is to the project\'s current phase of work' },
+  { key: 'novelty', label: 'Novelty', prompt: 'how much it adds beyond the research findings already saved' },
+  { key: 'credibility', label: 'Credibility', prompt: 'how credible the source and its evidence are' },
+  { key: 'effort', label: 'Effort', prompt: 'how much work it would take to apply (5 = a lot of work)' },
+  { key: 'urgency', label: 'Urgency', prompt: 'how soon the project should act on it' }
+];
+
+export const DEFAULT_RUBRIC_THRESHOLDS: RubricThresholds = {
+  integrate: 3.8,
+  save: 2.5,
+  minRelevance: 3
+};
+
+/**
+ * Validate the rubric object of an analysis reply. A missing rubric is not an
+ * error (section analyses and older templates don't have one).
+ */
+export const validateRubric = (value: any): { rubric: RubricScores | null; errors: string[] } => {
+  if (value === undefined || value === null) return { rubric: null, errors: [] };
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { rubric: null, errors: ['rubric: expected an object with a {score, justification} entry per dimension'] };
+  }
+
+  const errors: string[] = [];
+  const rubric = {} as RubricScores;
+
+  RUBRIC_DIMENSIONS.forEach(({ key }) => {
+    const entry = value[key];
+    const raw = typeof entry === 'object' && entry !== null ? entry.score : entry;
+    const score = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+    if (typeof score !== 'number' || isNaN(score) || score < 1 || score > 5) {
+      errors.push(`rubric.${key}.score: expected a number from 1 to 5`);
+      return;
+    }
+    rubric[key] = {
+      score: Math.round(score * 10) / 10,
+      justification: typeof entry?.justification === 'string' ? entry.justification.trim() : ''
+    };
+  });
+
+  return errors.length > 0 ? { rubric: null, errors } : { rubric, errors };
+};
+
+/**
+ * Overall rubric score from 1 to 5: the average of all dimensions, with effort
+ * counted inversely (low effort is good)
+ */
+export const rubricScore = (rubric: RubricScores): number => {
+  const total = RUBRIC_DIMENSIONS.reduce((sum, { key }) => {
+    return sum + (key === 'effort' ? 6 - rubric[key].score : rubric[key].score);
+  }, 0);
+  return Math.round((total / RUBRIC_DIMENSIONS.length) * 100) / 100;
+};
+
+/**
+ * Recommendation for a rubric: integrate at or above the integrate threshold,
+ * save at or above the save threshold, otherwise skip. Articles below the
+ * minimum relevance are skipped whatever their other scores.
+ */
+export const recommendFromRubric = (rubric: RubricScores, thresholds: RubricThresholds): AnalysisResult['recommendation'] => {
+  const score = rubricScore(rubric);
+  if (rubric.relevance.score < thresholds.minRelevance) return 'skip';
+  if (score >= thresholds.integrate) return 'integrate';
+  return score >= thresholds.save ? 'save' : 'skip';
+};
+
+/**
+ * The result with its recommendation derived from the rubric. The model's own
+ * recommendation is kept in modelRecommendation.
+ */
+export const applyRubric = (result: AnalysisResult, thresholds: RubricThresholds): AnalysisResult => {
+  if (!result.rubric) return result;
+  const modelRecommendation = result.modelRecommendation || result.recommendation;
+  return { ...result, modelRecommendation, recommendation: recommendFromRubric(result.rubric, thresholds) };
+};
+
+export const rubricThresholdsFromConfig = (config: ResearchAssistantConfig | undefined): RubricThresholds => {
+  const pick = (value: number | undefined, fallback: number) => (typeof value === 'number' && !isNaN(value) ? value : fallback);
+  return {
+    integrate: pick(config?.rubricIntegrateThreshold, DEFAULT_RUBRIC_THRESHOLDS.integrate),
+    save: pick(config?.rubricSaveThreshold, DEFAULT_RUBRIC_THRESHOLDS.save),
+    minRelevance: pick(config?.rubricMinRelevance, DEFAULT_RUBRIC_THRESHOLDS.minRelevance)
+  };
+};
+
+/**
+ * Rubric lines for a saved entry
+ */
+export const formatRubric = (rubric: RubricScores): string => {
+  return RUBRIC_DIMENSIONS
+    .map(({ key, label }) => `- ${label}: ${rubric[key].score}/5${rubric[key].justification ? ` - ${rubric[key].justification}` : ''}`)
+    .join('\n');
+};
@@ -0,0 +1,205 @@
+// Spec change proposals: targeted find/replace edits from the model, located
+// in spec.md as whole-line hunks, shown as a side-by-side diff and applied
+// one accepted hunk at a time.
+
+import { SpecHunk } from '../types';
+import { generateId } from '../utils';
+import { extractJsonText } from './analysisValidation';
+
+export interface SpecEdit {
+  find: string;          // Exact text from spec.md to change
+  replace: string;       // What it becomes
+  rationale: string;
+}
+
+export interface DiffRow {
+  type: 'context' | 'same' | 'changed' | 'removed' | 'added';
+  left: string | null;   // Line in the current spec
+  right: string | null;  // Line in the proposed spec
+}
+
+/**
+ * Parse the model's spec edits. An empty edit list is a valid answer (no
+ * changes needed).
+ */
+export const parseSpecEdits = (content: string): { edits: SpecEdit[]; summary: string; errors: string[] } => {
+  const jsonText = extractJsonText(content);
+  if (!jsonText) {
+    return { edits: [], summary: '', errors: ['response: no JSON object found'] };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (error) {
+    return { edits: [], summary: '', errors: [`response: invalid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+  }
+
+  if (!Array.isArray(parsed?.edits)) {
+    return { edits: [], summary: '', errors: ['edits: must be an array'] };
+  }
+
+  const errors: string[] = [];
+  const edits: SpecEdit[] = [];
+  parsed.edits.forEach((raw: any, i: number) => {
+    if (typeof raw?.find !== 'string' || !raw.find.trim()) {
+      errors.push(`edits[${i}].find: must be non-empty text copied from spec.md`);
+    } else if (typeof raw.replace !== 'string') {
+      errors.push(`edits[${i}].replace: must be a string`);
+    } else {
+      edits.push({
+        find: raw.find,
+        replace: raw.replace,
+        rationale: typeof raw.rationale === 'string' ? raw.rationale.trim() : ''
+      });
+    }
+  });
+
+  // Malformed edits are only worth a repair round when none were usable
+  return {
+    edits,
+    summary: typeof parsed.summary === 'string' ? parsed.summary.trim() : '',
+    errors: edits.length > 0 ? [] : errors
+  };
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Find an edit's text in the spec: verbatim, or ignoring differences in whitespace
+ */
+const findEditText = (spec: string, find: string): { start: number; end: number } | null => {
+  const exact = spec.indexOf(find);
+  if (exact !== -1) return { start: exact, end: exact + find.length };
+
+  const words = find.trim().split(/\s+/).map(escapeRegExp);
+  const match = new RegExp(words.join('\\s+')).exec(spec);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+/**
+ * Turn edits into non-overlapping hunks of whole lines, in spec order. Edits
+ * whose text can't be found, or that overlap an earlier edit, are returned as
+ * unmatched with the reason.
+ */
+export const locateEdits = (spec: string, edits: SpecEdit[]): { hunks: SpecHunk[]; unmatched: string[] } => {
+  const hunks: SpecHunk[] = [];
+  const unmatched: string[] = [];
+
+  edits.forEach(edit => {
+    const found = findEditText(spec, edit.find);
+    const label = `"${edit.find.trim().substring(0, 60)}${edit.find.trim().length > 60 ? '...' : ''}"`;
+    if (!found) {
+      unmatched.push(`${label} was not found in spec.md`);
+      return;
+    }
+
+    const start = spec.lastIndexOf('\n', found.start - 1) + 1;
+    const lineEnd = spec.indexOf('\n', Math.max(found.end - 1, found.start));
+    const end = lineEnd === -1 ? spec.length : lineEnd;
+
+    if (hunks.some(h => start < h.end && end > h.start)) {
+      unmatched.push(`${label} overlaps another proposed change`);
+      return;
+    }
+
+    const oldText = spec.slice(start, end);
+    const newText = spec.slice(start, found.start) + edit.replace + spec.slice(found.end, end);
+    if (oldText === newText) {
+      unmatched.push(`${label} would not change anything`);
+      return;
+    }
+
+    hunks.push({ id: generateId(), start, end, oldText, newText, rationale: edit.rationale, accepted: true });
+  });
+
+  return { hunks: hunks.sort((a, b) => a.start - b.start), unmatched };
+};
+
+/**
+ * Line diff of two texts (longest common subsequence)
+ */
+export const diffLines = (a: string[], b: string[]): { type: 'same' | 'removed' | 'added'; text: string }[] => {
+  const lcs: number[][] = [];
+  for (let i = a.length; i >= 0; i--) {
+    lcs[i] = [];
+    for (let j = b.length; j >= 0; j--) {
+      lcs[i][j] = i === a.length || j === b.length
+        ? 0
+        : a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: { type: 'same' | 'removed' | 'added'; text: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      ops.push({ type: 'added', text: b[j] });
+      j++;
+    } else {
+      ops.push({ type: 'removed', text: a[i] });
+      i++;
+    }
+  }
+  return ops;
+};
+
+/**
+ * Side-by-side rows for a hunk, with a few unchanged lines of the spec around it.
+ * Removed and added lines next to each other are paired as changed rows.
+ */
+export const buildDiffRows = (spec: string, hunk: SpecHunk, contextLines: number = 2): DiffRow[] => {
+  const before = spec.slice(0, hunk.start).split('\n').slice(0, -1).slice(-contextLines);
+  const after = spec.slice(hunk.end).split('\n').slice(1, contextLines + 1);
+
+  const rows: DiffRow[] = before.map(line => ({ type: 'context' as const, left: line, right: line }));
+
+  const ops = diffLines(hunk.oldText.split('\n'), hunk.newText.split('\n'));
+  for (let k = 0; k < ops.length;) {
+    if (ops[k].type === 'same') {
+      rows.push({ type: 'same', left: ops[k].text, right: ops[k].text });
+      k++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].type !== 'same') {
+      (ops[k].type === 'removed' ? removed : added).push(ops[k].text);
+      k++;
+    }
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = n < removed.length ? removed[n] : null;
+      const right = n < added.length ? added[n] : null;
+      rows.push({ type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added', left, right });
+    }
+  }
+
+  return rows.concat(after.map(line => ({ type: 'context' as const, left: line, right: line })));
+};
+
+/**
+ * The spec with the accepted hunks applied
+ */
+export const applyHunks = (spec: string, hunks: SpecHunk[]): string => {
+  return hunks
+    .filter(hunk => hunk.accepted)
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, hunk) => text.slice(0, hunk.start) + hunk.newText + text.slice(hunk.end), spec);
+};
+
+/**
+ * Follow-up message asking the model to fix an unusable edit reply
+ */
+export const buildSpecRepairPrompt = (errors: string[]): string => {
+  return `Your previous response could not be used:
+
+${errors.map(e => `- ${e}`).join('\n')}
+
+Respond again with ONLY a JSON object of the form {"summary": "...", "edits": [{"find": "exact text from spec.md", "replace": "...", "rationale": "..."}]} - no explanation, no markdown code fences.`;
+};
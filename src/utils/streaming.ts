@@ -0,0 +1,90 @@
+// Helpers for consuming streamed LLM responses from ApiService.postStreaming.
+
+/**
+ * Pull the text delta out of one parsed stream event. Supports OpenAI-style
+ * `choices[0].delta.content` / `choices[0].message.content` as well as flat
+ * `{content}` / `{response}` payloads.
+ */
+const extractDelta = (event: any): string => {
+  const choice = event?.choices?.[0];
+  if (choice) {
+    return choice.delta?.content ?? choice.message?.content ?? choice.text ?? '';
+  }
+  if (typeof event?.content === 'string') return event.content;
+  if (typeof event?.response === 'string') return event.response;
+  return '';
+};
+
+/**
+ * Create a parser for server-sent event chunks. Chunks may split events across
+ * calls, so incomplete trailing lines are buffered until the next chunk arrives.
+ * Returns a function that takes a raw chunk and returns the new text it contains.
+ */
+export const createStreamParser = (): ((chunk: string) => string) => {
+  let buffer = '';
+
+  return (chunk: string): string => {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    let text = '';
+    for (const rawLine of lines) {
+      const line = rawLine.trim().replace(/^data:\s*/, '');
+      if (!line || line === '[DONE]') continue;
+
+      try {
+        text += extractDelta(JSON.parse(line));
+      } catch (error) {
+        console.warn('Research Assistant: Skipping unparseable stream line:', line.substring(0, 100));
+      }
+    }
+
+    // A complete JSON event without a trailing newline can be consumed right away
+    const pending = buffer.trim().replace(/^data:\s*/, '');
+    if (pending.startsWith('{') && pending.endsWith('}')) {
+      try {
+        text += extractDelta(JSON.parse(pending));
+        buffer = '';
+      } catch (error) {
+        // Not complete yet; keep buffering
+      }
+    }
+
+    return text;
+  };
+};
+
+/**
+ * Read the (possibly unterminated) value of a string field from partial JSON,
+ * e.g. the explanation of an analysis that is still streaming in.
+ */
+export const readPartialJsonString = (partialJson: string, key: string): string | null => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(partialJson);
+  if (!match) return null;
+
+  let value = '';
+  for (let i = match.index + match[0].length; i < partialJson.length; i++) {
+    const ch = partialJson[i];
+    if (ch === '"') break;
+    if (ch !== '\\') {
+      value += ch;
+      continue;
+    }
+
+    const next = partialJson[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = partialJson.substr(i + 2, 4);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '', b: '', f: '' };
+    value += escapes[next] ?? next;
+    i++;
+  }
+
+  return value;
+};